@@ -0,0 +1,44 @@
+/**
+ * One-time migration: fill in fields added to existing models. Prisma applies
+ * @default only when it creates a document, so older documents lack these
+ * fields, can't be read through the client, and never match conditional
+ * updates that filter on them (e.g. `version: 0`). Run with:
+ *
+ *   npx tsx prisma/backfill-defaults.ts
+ *
+ * Only documents missing a field are touched, so it is safe to run again.
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+const DEFAULTS: { collection: string; field: string; value: Prisma.InputJsonValue }[] = [
+  { collection: "User", field: "version", value: 0 },
+  { collection: "User", field: "ambassadorTier", value: "none" },
+  { collection: "UserSettings", field: "showOnLeaderboard", value: false },
+  { collection: "Property", field: "startingBid", value: 0 },
+  { collection: "Property", field: "reservePrice", value: 0 },
+  { collection: "Property", field: "minBidIncrement", value: 100 },
+  { collection: "Property", field: "auctionStatus", value: "open" },
+  { collection: "UserInvestment", field: "payoutsMade", value: 0 },
+  { collection: "UserInvestment", field: "principalReturned", value: 0 },
+  { collection: "Transfer", field: "fee", value: 0 },
+  { collection: "Transfer", field: "reversedAmount", value: 0 },
+  { collection: "User", field: "kycLevel", value: "none" },
+];
+
+async function main() {
+  for (const { collection, field, value } of DEFAULTS) {
+    const result = await prisma.$runCommandRaw({
+      update: collection,
+      updates: [{ q: { [field]: { $exists: false } }, u: { $set: { [field]: value } }, multi: true }],
+    });
+    console.log(`${collection}.${field}: set on ${result.nModified ?? 0} documents`);
+  }
+  console.log("Done.");
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,127 @@
+/**
+ * One-time migration: open ledger accounts for every user that has none yet,
+ * seeded from their completed transaction history. Run with:
+ *
+ *   npx tsx prisma/backfill-ledger.ts
+ *
+ * Profits, referral commissions and bonuses are opened in their own buckets;
+ * whatever remains of the computed balance goes to cash. When the user has
+ * already spent more than their cash (e.g. invested profits), the shortfall is
+ * drawn from the other buckets in a second entry so "earned" totals survive.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import {
+  drawFromUser,
+  postLedgerEntry,
+  roundCents,
+  PLATFORM_ACCOUNTS,
+  LedgerPostingInput,
+} from "../src/services/ledger.service.js";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const users = await prisma.user.findMany({ select: { id: true, email: true } });
+  console.log(`Backfilling ledger for ${users.length} users...`);
+
+  let opened = 0;
+  for (const user of users) {
+    const hasAccounts = await prisma.ledgerAccount.count({ where: { userId: user.id } });
+    if (hasAccounts > 0) continue;
+
+    const txs = await prisma.transaction.findMany({
+      where: { userId: user.id, status: "completed" },
+      select: { type: true, amount: true },
+    });
+
+    let balance = 0;
+    let profits = 0;
+    let referralCommissions = 0;
+    let bonus = 0;
+    for (const tx of txs) {
+      switch (tx.type) {
+        case "profit":
+        case "admin_profits":
+          profits += tx.amount;
+          balance += tx.amount;
+          break;
+        case "referral":
+        case "admin_referralCommissions":
+          referralCommissions += tx.amount;
+          balance += tx.amount;
+          break;
+        case "admin_bonus":
+          bonus += tx.amount;
+          balance += tx.amount;
+          break;
+        case "deposit":
+        case "admin_balance":
+        case "transfer_received":
+        case "investment_return":
+        case "share_sale":
+        case "escrow_release":
+          balance += tx.amount;
+          break;
+        case "withdrawal":
+        case "investment":
+        case "transfer_sent":
+        case "share_purchase":
+        case "escrow_hold":
+        case "fee":
+          balance -= Math.abs(tx.amount);
+          break;
+      }
+    }
+
+    const cash = roundCents(balance - profits - referralCommissions - bonus);
+    const openingPostings: LedgerPostingInput[] = [
+      { account: { userId: user.id, bucket: "profits" }, amount: profits },
+      { account: { userId: user.id, bucket: "referralCommissions" }, amount: referralCommissions },
+      { account: { userId: user.id, bucket: "bonus" }, amount: bonus },
+      { account: { userId: user.id, bucket: "cash" }, amount: Math.max(cash, 0) },
+    ];
+    const credits = openingPostings.filter((p) => roundCents(p.amount) !== 0);
+
+    if (credits.length === 0) continue;
+
+    const openingTotal = credits.reduce((sum, p) => sum + p.amount, 0);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // The user mirror fields already hold these amounts — reset them so the postings don't double them
+        await tx.user.update({
+          where: { id: user.id },
+          data: { balance: 0, profits: 0, referralCommissions: 0, bonus: 0 },
+        });
+
+        await postLedgerEntry(tx, {
+          type: "opening_balance",
+          description: "Opening balance migrated from transaction history",
+          postings: [...credits, { account: { platform: PLATFORM_ACCOUNTS.openingBalances }, amount: -openingTotal }],
+        });
+
+        if (cash < 0) {
+          const draws = await drawFromUser(tx, user.id, -cash);
+          await postLedgerEntry(tx, {
+            type: "opening_balance",
+            description: "Spending prior to ledger migration",
+            postings: [...draws, { account: { platform: PLATFORM_ACCOUNTS.openingBalances }, amount: -cash }],
+          });
+        }
+      }, { timeout: 30000 });
+    } catch (err) {
+      console.error(`  ${user.email}: skipped —`, err instanceof Error ? err.message : err);
+      continue;
+    }
+
+    console.log(`  ${user.email}: opened with balance ${roundCents(balance)}`);
+    opened++;
+  }
+
+  console.log(`Done. Opened ledger accounts for ${opened} / ${users.length} users.`);
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -1,8 +1,10 @@
 /**
- * One-time migration: sync every user's stored `balance` field to match
- * the transaction-computed total. Run with:
+ * Sync every user's stored `balance` field (a mirror of the ledger) to match
+ * the sum of their ledger bucket accounts. Run with:
  *
  *   npx tsx prisma/sync-balances.ts
+ *
+ * Users without ledger accounts need `prisma/backfill-ledger.ts` first.
  */
 
 import { PrismaClient } from "@prisma/client";
@@ -15,34 +17,15 @@ async function main() {
 
   let updated = 0;
   for (const user of users) {
-    const txs = await prisma.transaction.findMany({
-      where: { userId: user.id, status: "completed" },
-      select: { type: true, amount: true },
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { userId: user.id, kind: "user" },
+      select: { balance: true },
     });
 
-    let balance = 0;
-    for (const tx of txs) {
-      switch (tx.type) {
-        case "deposit":
-        case "profit":
-        case "admin_profits":
-        case "admin_bonus":
-        case "admin_referralCommissions":
-        case "admin_balance":
-        case "referral":
-        case "transfer_received":
-          balance += tx.amount;
-          break;
-        case "withdrawal":
-        case "investment":
-        case "transfer_sent":
-          balance -= Math.abs(tx.amount);
-          break;
-      }
-    }
+    const balance = Math.round(accounts.reduce((sum, a) => sum + a.balance, 0) * 100) / 100;
 
     if (Math.abs(balance - user.balance) > 0.001) {
-      console.log(`  ${user.email}: DB=${user.balance} → computed=${balance}`);
+      console.log(`  ${user.email}: DB=${user.balance} → ledger=${balance}`);
       await prisma.user.update({ where: { id: user.id }, data: { balance } });
       updated++;
     }
@@ -0,0 +1,174 @@
+/**
+ * Fires concurrent investments, debits, withdrawal requests and first
+ * postings at one user and checks that no balance goes negative, pending
+ * withdrawals never exceed the balance, no pool is over-funded and a new
+ * ledger account is created exactly once.
+ *
+ * Needs a MongoDB replica set (Prisma transactions require one) and should be
+ * pointed at a scratch database — platform-side ledger entries are left behind:
+ *
+ *   docker run -d -p 27017:27017 mongo:7 --replSet rs0
+ *   docker exec <container> mongosh --eval "rs.initiate()"
+ *   DATABASE_URL="mongodb://localhost:27017/concurrency?replicaSet=rs0&directConnection=true" \
+ *     npm run test:concurrency
+ */
+import crypto from "crypto";
+import { prisma } from "../src/config/database.js";
+import { creditUser, debitUser, getUserBalance, PLATFORM_ACCOUNTS } from "../src/services/ledger.service.js";
+import { investInProperty } from "../src/services/investment.service.js";
+import { requestWithdrawal } from "../src/services/fundOperation.service.js";
+import { withConflictRetry } from "../src/utils/retry.js";
+
+const PARALLEL = 10;
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail: string) {
+  console.log(`${ok ? "✅ PASS" : "❌ FAIL"}  ${label} — ${detail}`);
+  if (!ok) failures++;
+}
+
+async function createUser(balance: number) {
+  const tag = crypto.randomBytes(4).toString("hex");
+  const user = await prisma.user.create({
+    data: {
+      email: `concurrency-${tag}@example.test`,
+      firstName: "Concurrency",
+      lastName: tag,
+      referralCode: `CC${tag.toUpperCase()}`,
+    },
+  });
+  await prisma.$transaction((tx) =>
+    creditUser(tx, {
+      userId: user.id,
+      bucket: "cash",
+      amount: balance,
+      from: PLATFORM_ACCOUNTS.adjustments,
+      type: "admin_adjustment",
+      description: "Concurrency check funding",
+    })
+  );
+  return user;
+}
+
+async function investmentRace() {
+  const user = await createUser(1000);
+  const property = await prisma.property.create({
+    data: {
+      title: "Concurrency check pool",
+      location: "Nowhere",
+      investmentType: "pooled",
+      minInvestment: 1,
+      maxInvestment: 100000,
+      targetAmount: 1000,
+    },
+  });
+
+  // 10 × $300 against a $1,000 balance and a $1,000 pool: at most 3 can land
+  const results = await Promise.allSettled(
+    Array.from({ length: PARALLEL }, () => investInProperty(user.id, property.id, 300))
+  );
+  const succeeded = results.filter((r) => r.status === "fulfilled").length;
+
+  const [balance, fresh, invested] = await Promise.all([
+    getUserBalance(user.id),
+    prisma.property.findUniqueOrThrow({ where: { id: property.id } }),
+    prisma.userInvestment.aggregate({ where: { propertyId: property.id }, _sum: { amount: true } }),
+  ]);
+
+  check("investments: balance", balance >= 0, `balance $${balance}, ${succeeded}/${PARALLEL} succeeded`);
+  check("investments: pool", fresh.currentFunded <= fresh.targetAmount, `funded $${fresh.currentFunded} of $${fresh.targetAmount}`);
+  check("investments: consistency", fresh.currentFunded === (invested._sum.amount ?? 0) && balance === 1000 - succeeded * 300,
+    `positions $${invested._sum.amount ?? 0}, property $${fresh.currentFunded}`);
+
+  await prisma.transaction.deleteMany({ where: { userId: user.id } });
+  await prisma.notification.deleteMany({ where: { userId: user.id } });
+  await prisma.userInvestment.deleteMany({ where: { userId: user.id } });
+  await prisma.property.delete({ where: { id: property.id } });
+  await prisma.user.delete({ where: { id: user.id } });
+}
+
+async function debitRace() {
+  const user = await createUser(500);
+
+  // 10 × $100 withdrawals against $500: at most 5 can land
+  const results = await Promise.allSettled(
+    Array.from({ length: PARALLEL }, () =>
+      withConflictRetry(() =>
+        prisma.$transaction((tx) =>
+          debitUser(tx, { userId: user.id, amount: 100, to: PLATFORM_ACCOUNTS.withdrawals, type: "withdrawal" })
+        )
+      )
+    )
+  );
+  const succeeded = results.filter((r) => r.status === "fulfilled").length;
+  const balance = await getUserBalance(user.id);
+
+  check("debits: balance", balance >= 0 && balance === 500 - succeeded * 100, `balance $${balance}, ${succeeded}/${PARALLEL} succeeded`);
+
+  await prisma.user.delete({ where: { id: user.id } });
+}
+
+async function withdrawalRequestRace() {
+  const user = await createUser(500);
+  await prisma.user.update({ where: { id: user.id }, data: { kycLevel: "basic" } });
+  const destination = { id: crypto.randomBytes(12).toString("hex"), details: "{}" };
+
+  // 10 × $100 requests against $500: only debited on approval, so at most 5 may be pending
+  const results = await Promise.allSettled(
+    Array.from({ length: PARALLEL }, () => requestWithdrawal(user.id, { method: "bank", amount: 100, destination }))
+  );
+  const succeeded = results.filter((r) => r.status === "fulfilled").length;
+  const [balance, pending] = await Promise.all([
+    getUserBalance(user.id),
+    prisma.fundOperation.aggregate({
+      where: { userId: user.id, type: "withdrawal", status: "pending" },
+      _sum: { amount: true, fee: true },
+    }),
+  ]);
+  const reserved = (pending._sum.amount ?? 0) + (pending._sum.fee ?? 0);
+
+  check("withdrawal requests: reserved", succeeded > 0 && reserved <= balance, `$${reserved} pending against $${balance}, ${succeeded}/${PARALLEL} succeeded`);
+
+  await prisma.fundOperation.deleteMany({ where: { userId: user.id } });
+  await prisma.user.delete({ where: { id: user.id } });
+}
+
+async function firstPostingRace() {
+  const user = await createUser(1);
+
+  // 10 × $10 credits into a bucket with no ledger account yet: all must land
+  const results = await Promise.allSettled(
+    Array.from({ length: PARALLEL }, () =>
+      withConflictRetry(() =>
+        prisma.$transaction((tx) =>
+          creditUser(tx, { userId: user.id, bucket: "bonus", amount: 10, from: PLATFORM_ACCOUNTS.adjustments, type: "admin_adjustment" })
+        )
+      )
+    )
+  );
+  const succeeded = results.filter((r) => r.status === "fulfilled").length;
+  const accounts = await prisma.ledgerAccount.findMany({ where: { userId: user.id, bucket: "bonus" } });
+
+  check("first postings: all applied", succeeded === PARALLEL, `${succeeded}/${PARALLEL} succeeded`);
+  check(
+    "first postings: one account",
+    accounts.length === 1 && accounts[0].balance === PARALLEL * 10,
+    `${accounts.length} account(s), balance $${accounts[0]?.balance ?? 0}`
+  );
+
+  await prisma.user.delete({ where: { id: user.id } });
+}
+
+async function run() {
+  await investmentRace();
+  await debitRace();
+  await withdrawalRequestRace();
+  await firstPostingRace();
+  await prisma.$disconnect();
+
+  console.log(failures === 0 ? "\nAll concurrency checks passed" : `\n${failures} concurrency check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+run().catch((err) => { console.error(err); process.exit(1); });
@@ -44,6 +44,23 @@ const envSchema = z.object({
   // ScraperAPI key — used to bypass Zillow bot detection (free: 1000 req/month)
   // Get one at https://www.scraperapi.com
   SCRAPER_API_KEY: z.string().optional(),
+  // Early exit from a property investment — % of principal withheld (admin can override per request)
+  EARLY_EXIT_PENALTY_PERCENT: z.coerce.number().min(0).max(100).default(10),
+  // Secondary market — % of the sale price withheld from the seller's proceeds
+  SECONDARY_MARKET_FEE_PERCENT: z.coerce.number().min(0).max(100).default(1),
+  // Auctions — a bid this close to the end pushes the end time back (anti-sniping)
+  AUCTION_SNIPE_WINDOW_MINUTES: z.coerce.number().int().min(0).default(5),
+  AUCTION_SNIPE_EXTENSION_MINUTES: z.coerce.number().int().min(0).default(5),
+  // Buy now — earnest money held from the buyer's balance, as % of the listed price
+  BUY_NOW_EARNEST_PERCENT: z.coerce.number().min(0).max(100).default(10),
+  // Withdrawals — a newly confirmed payout destination can't receive funds for this long
+  PAYOUT_DESTINATION_COOLING_HOURS: z.coerce.number().min(0).default(24),
+  // Transfers to unregistered emails are refunded to the sender if not claimed within this many days
+  PENDING_TRANSFER_EXPIRY_DAYS: z.coerce.number().int().min(1).default(14),
+  // Crypto deposits — where the chain watcher looks up transactions ("none" = admins approve by hand)
+  CHAIN_WATCHER_PROVIDER: z.string().default("none"),
+  // File provider — JSON of { "<txHash>": { network, toAddress, amount, confirmations } } for local testing
+  CHAIN_WATCHER_FILE: z.string().default("chain-watcher.json"),
 });
 
 export const env = envSchema.parse(process.env);
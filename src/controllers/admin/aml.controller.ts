@@ -0,0 +1,222 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { createAmlRuleSchema } from "../../validators/admin/aml.schema.js";
+import {
+  addAlertNote,
+  AmlError,
+  assignAlert,
+  DEFAULT_RULE_PARAMS,
+  setAlertStatus,
+} from "../../services/aml.service.js";
+
+function handleAmlError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof AmlError) {
+    return error(res, err.message, err.status);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, message, 500);
+}
+
+const userSelect = { id: true, email: true, firstName: true, lastName: true, kycLevel: true, status: true };
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+/**
+ * Every rule with its open alert count, plus the defaults each rule type
+ * falls back to for params it doesn't set
+ * GET /api/admin/aml/rules
+ */
+export async function getAmlRules(req: Request, res: Response) {
+  try {
+    const [rules, open] = await Promise.all([
+      prisma.amlRule.findMany({ orderBy: { createdAt: "asc" } }),
+      prisma.amlAlert.groupBy({ by: ["ruleId"], where: { status: { not: "closed" } }, _count: true }),
+    ]);
+    const openByRule = new Map(open.map((g) => [g.ruleId, g._count]));
+
+    return success(res, {
+      rules: rules.map((rule) => ({ ...rule, openAlerts: openByRule.get(rule.id) ?? 0 })),
+      defaults: DEFAULT_RULE_PARAMS,
+    });
+  } catch (err) {
+    return handleAmlError(res, err, "getAmlRules", "Failed to fetch AML rules");
+  }
+}
+
+/**
+ * POST /api/admin/aml/rules
+ */
+export async function createAmlRule(req: Request, res: Response) {
+  try {
+    const rule = await prisma.amlRule.create({
+      data: { ...req.body, createdBy: req.userId! },
+    });
+
+    console.log(`🕵️ AML rule "${rule.name}" (${rule.type}) created by admin: ${req.userId}`);
+
+    return success(res, rule, "AML rule created", 201);
+  } catch (err) {
+    return handleAmlError(res, err, "createAmlRule", "Failed to create AML rule");
+  }
+}
+
+/**
+ * Takes effect on the next monitoring run
+ * PATCH /api/admin/aml/rules/:id
+ */
+export async function updateAmlRule(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.amlRule.findUnique({ where: { id } });
+    if (!existing) return error(res, "AML rule not found", 404);
+
+    // Params have to suit the rule's type, which the patch may not include
+    const { id: _id, createdBy: _b, createdAt: _c, updatedAt: _u, ...current } = existing;
+    const merged = createAmlRuleSchema.safeParse({ ...current, ...req.body });
+    if (!merged.success) {
+      return error(res, merged.error.issues[0].message, 400);
+    }
+
+    const rule = await prisma.amlRule.update({
+      where: { id },
+      data: req.body as Prisma.AmlRuleUpdateInput,
+    });
+
+    console.log(`🕵️ AML rule "${rule.name}" updated by admin: ${req.userId}`);
+
+    return success(res, rule, "AML rule updated");
+  } catch (err) {
+    return handleAmlError(res, err, "updateAmlRule", "Failed to update AML rule");
+  }
+}
+
+/**
+ * Rules that have raised alerts can only be deactivated
+ * DELETE /api/admin/aml/rules/:id
+ */
+export async function deleteAmlRule(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.amlRule.findUnique({ where: { id } });
+    if (!existing) return error(res, "AML rule not found", 404);
+
+    const alerts = await prisma.amlAlert.count({ where: { ruleId: id } });
+    if (alerts > 0) {
+      return error(res, `This rule has raised ${alerts} alert(s) — deactivate it instead`, 409);
+    }
+
+    await prisma.amlRule.delete({ where: { id } });
+    return success(res, null, "AML rule deleted");
+  } catch (err) {
+    return handleAmlError(res, err, "deleteAmlRule", "Failed to delete AML rule");
+  }
+}
+
+// ─── Case queue ──────────────────────────────────────────────────────────────
+
+/**
+ * The case queue — everything not closed by default
+ * GET /api/admin/aml/alerts?status=open|investigating|escalated|closed|active|all&severity=&assignedTo=me|unassigned|<id>&userId=
+ */
+export async function getAmlAlerts(req: Request, res: Response) {
+  try {
+    const { status = "active", severity, assignedTo, userId, ruleId, limit = "50", offset = "0" } = req.query;
+
+    const where: Prisma.AmlAlertWhereInput = {};
+    if (status === "active") where.status = { not: "closed" };
+    else if (status !== "all") where.status = status as string;
+    if (severity) where.severity = severity as string;
+    if (assignedTo === "me") where.assignedTo = req.userId!;
+    else if (assignedTo === "unassigned") where.assignedTo = null;
+    else if (assignedTo) where.assignedTo = assignedTo as string;
+    if (userId) where.userId = userId as string;
+    if (ruleId) where.ruleId = ruleId as string;
+
+    const [alerts, total] = await Promise.all([
+      prisma.amlAlert.findMany({
+        where,
+        include: { user: { select: userSelect } },
+        orderBy: [{ lastTriggeredAt: "desc" }],
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.amlAlert.count({ where }),
+    ]);
+
+    return success(res, { alerts, total });
+  } catch (err) {
+    return handleAmlError(res, err, "getAmlAlerts", "Failed to fetch AML alerts");
+  }
+}
+
+/**
+ * An alert with its case notes and the user's other alerts
+ * GET /api/admin/aml/alerts/:id
+ */
+export async function getAmlAlert(req: Request, res: Response) {
+  try {
+    const alert = await prisma.amlAlert.findUnique({
+      where: { id: req.params.id as string },
+      include: {
+        user: { select: { ...userSelect, passwordChangedAt: true, createdAt: true } },
+        notes: { orderBy: { createdAt: "asc" } },
+      },
+    });
+    if (!alert) return error(res, "Alert not found", 404);
+
+    const otherAlerts = await prisma.amlAlert.findMany({
+      where: { userId: alert.userId, id: { not: alert.id } },
+      select: { id: true, ruleName: true, severity: true, status: true, resolution: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    });
+
+    return success(res, { alert, otherAlerts });
+  } catch (err) {
+    return handleAmlError(res, err, "getAmlAlert", "Failed to fetch AML alert");
+  }
+}
+
+/**
+ * POST /api/admin/aml/alerts/:id/assign
+ */
+export async function assignAmlAlert(req: Request, res: Response) {
+  try {
+    const alert = await assignAlert(req.params.id as string, req.body.adminId, req.userId!);
+    return success(res, alert, alert.assignedTo ? "Alert assigned" : "Alert unassigned");
+  } catch (err) {
+    return handleAmlError(res, err, "assignAmlAlert", "Failed to assign AML alert");
+  }
+}
+
+/**
+ * POST /api/admin/aml/alerts/:id/status
+ */
+export async function updateAmlAlertStatus(req: Request, res: Response) {
+  try {
+    const { status, resolution, note } = req.body;
+    const alert = await setAlertStatus(req.params.id as string, req.userId!, status, resolution, note);
+
+    console.log(`🕵️ AML alert ${alert.id} marked ${status}${resolution ? ` (${resolution})` : ""} by admin: ${req.userId}`);
+
+    return success(res, alert, `Alert ${status}`);
+  } catch (err) {
+    return handleAmlError(res, err, "updateAmlAlertStatus", "Failed to update AML alert");
+  }
+}
+
+/**
+ * POST /api/admin/aml/alerts/:id/notes
+ */
+export async function addAmlAlertNote(req: Request, res: Response) {
+  try {
+    const note = await addAlertNote(req.params.id as string, req.userId!, req.body.body);
+    return success(res, note, "Note added", 201);
+  } catch (err) {
+    return handleAmlError(res, err, "addAmlAlertNote", "Failed to add note");
+  }
+}
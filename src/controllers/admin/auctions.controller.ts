@@ -0,0 +1,92 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { acceptWinningBid, minimumNextBid, reserveMet, BidRejectedError } from "../../services/auction.service.js";
+
+/**
+ * For-sale properties with their auction state
+ * GET /api/admin/auctions?status=open|ended|accepted
+ */
+export async function getAuctions(req: Request, res: Response) {
+  try {
+    const { status } = req.query;
+
+    const where: any = { category: "for_sale" };
+    if (status && status !== "all") where.auctionStatus = status;
+
+    const properties = await prisma.property.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        location: true,
+        price: true,
+        investmentStatus: true,
+        bidCount: true,
+        recentBidAmount: true,
+        startingBid: true,
+        reservePrice: true,
+        minBidIncrement: true,
+        auctionEndsAt: true,
+        auctionStatus: true,
+        winningBidId: true,
+      },
+      orderBy: { auctionEndsAt: "asc" },
+    });
+
+    return success(
+      res,
+      properties.map((p) => ({ ...p, minimumNextBid: minimumNextBid(p), reserveMet: reserveMet(p) }))
+    );
+  } catch (err) {
+    console.error("getAuctions error:", err);
+    return error(res, "Failed to fetch auctions", 500);
+  }
+}
+
+/**
+ * Full bid history with bidder details
+ * GET /api/admin/auctions/:propertyId/bids
+ */
+export async function getPropertyBids(req: Request, res: Response) {
+  try {
+    const propertyId = req.params.propertyId as string;
+
+    const bids = await prisma.bid.findMany({
+      where: { propertyId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(bids.map((b) => b.userId))] } },
+      select: { id: true, firstName: true, lastName: true, email: true, kycStatus: true },
+    });
+    const userMap = new Map(users.map((u) => [u.id, u]));
+
+    return success(res, bids.map((b) => ({ ...b, user: userMap.get(b.userId) ?? null })));
+  } catch (err) {
+    console.error("getPropertyBids error:", err);
+    return error(res, "Failed to fetch bids", 500);
+  }
+}
+
+/**
+ * Accept the highest bid and close the auction
+ * POST /api/admin/auctions/:propertyId/accept
+ */
+export async function acceptBid(req: Request, res: Response) {
+  try {
+    const propertyId = req.params.propertyId as string;
+    const { overrideReserve } = req.body;
+
+    const winner = await acceptWinningBid(propertyId, { overrideReserve });
+
+    return success(res, winner, "Winning bid accepted");
+  } catch (err) {
+    if (err instanceof BidRejectedError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("acceptBid error:", err);
+    return error(res, "Failed to accept bid", 500);
+  }
+}
@@ -0,0 +1,108 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { createFeeRuleSchema } from "../../validators/admin/fees.schema.js";
+import { quoteFee, FEE_OPERATIONS, FeeOperation } from "../../services/fee.service.js";
+
+/**
+ * The fee schedule, optionally for one operation
+ * GET /api/admin/fees?operation=withdrawal
+ */
+export async function getFeeRules(req: Request, res: Response) {
+  try {
+    const { operation } = req.query;
+
+    const rules = await prisma.feeRule.findMany({
+      where: operation ? { operation: operation as string } : {},
+      orderBy: [{ operation: "asc" }, { method: "asc" }, { minAmount: "asc" }],
+    });
+
+    return success(res, rules);
+  } catch (err) {
+    console.error("getFeeRules error:", err);
+    return error(res, "Failed to fetch fee rules", 500);
+  }
+}
+
+/**
+ * POST /api/admin/fees
+ */
+export async function createFeeRule(req: Request, res: Response) {
+  try {
+    const rule = await prisma.feeRule.create({ data: req.body });
+    return success(res, rule, "Fee rule created", 201);
+  } catch (err) {
+    console.error("createFeeRule error:", err);
+    return error(res, "Failed to create fee rule", 500);
+  }
+}
+
+/**
+ * PATCH /api/admin/fees/:id
+ */
+export async function updateFeeRule(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.feeRule.findUnique({ where: { id } });
+    if (!existing) return error(res, "Fee rule not found", 404);
+
+    // Tier and cap bounds have to hold for the rule as a whole, not just the patch
+    const { id: _id, createdAt: _c, updatedAt: _u, ...current } = existing;
+    const merged = createFeeRuleSchema.safeParse({ ...current, ...req.body });
+    if (!merged.success) {
+      return error(res, merged.error.issues[0].message, 400);
+    }
+
+    const rule = await prisma.feeRule.update({ where: { id }, data: req.body });
+    return success(res, rule, "Fee rule updated");
+  } catch (err) {
+    console.error("updateFeeRule error:", err);
+    return error(res, "Failed to update fee rule", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/fees/:id
+ */
+export async function deleteFeeRule(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.feeRule.findUnique({ where: { id } });
+    if (!existing) return error(res, "Fee rule not found", 404);
+
+    await prisma.feeRule.delete({ where: { id } });
+    return success(res, null, "Fee rule deleted");
+  } catch (err) {
+    console.error("deleteFeeRule error:", err);
+    return error(res, "Failed to delete fee rule", 500);
+  }
+}
+
+/**
+ * Preview what the current schedule charges, with the rule that matched
+ * GET /api/admin/fees/quote?operation=withdrawal&method=crypto&amount=2500
+ */
+export async function previewFeeQuote(req: Request, res: Response) {
+  try {
+    const operation = req.query.operation as FeeOperation;
+    const method = (req.query.method as string) || "any";
+    const amount = parseFloat(req.query.amount as string);
+
+    if (!FEE_OPERATIONS.includes(operation)) {
+      return error(res, `operation must be one of: ${FEE_OPERATIONS.join(", ")}`, 400);
+    }
+    if (isNaN(amount) || amount <= 0) {
+      return error(res, "Invalid amount", 400);
+    }
+
+    const quote = await quoteFee(operation, method, amount);
+    const rule = quote.ruleId ? await prisma.feeRule.findUnique({ where: { id: quote.ruleId } }) : null;
+
+    return success(res, { ...quote, rule });
+  } catch (err) {
+    console.error("previewFeeQuote error:", err);
+    return error(res, "Failed to quote fee", 500);
+  }
+}
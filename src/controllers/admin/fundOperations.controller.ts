@@ -1,12 +1,11 @@
 import { Request, Response } from "express";
 import { prisma } from "../../config/database.js";
 import { success, error } from "../../utils/response.js";
-import {
-  sendFundOperationApprovedEmail,
-  sendFundOperationRejectedEmail,
-  sendReferralCommissionEmail,
-} from "../../services/email.service.js";
+import { sendFundOperationRejectedEmail } from "../../services/email.service.js";
 import { createInAppNotification } from "../../services/notification.service.js";
+import { InsufficientBalanceError } from "../../services/ledger.service.js";
+import { completeFundOperation, FundOperationError } from "../../services/fundOperation.service.js";
+import { checkCryptoDeposit } from "../../services/chainWatcher.service.js";
 
 export async function getAllFundOperations(req: Request, res: Response) {
   try {
@@ -45,83 +44,39 @@ export async function approveFundOperation(req: Request, res: Response) {
     const id = req.params.id as string;
     const { note } = req.body || {};
 
-    const op = await prisma.fundOperation.findUnique({ where: { id } });
-    if (!op) return error(res, "Fund operation not found", 404);
-    if (op.status !== "pending") return error(res, "Only pending operations can be approved", 400);
-
-    const isDeposit = op.type === "deposit";
-
-    const userRecord = await prisma.user.findUnique({
-      where: { id: op.userId },
-      select: { balance: true, email: true, firstName: true },
-    });
-
-    if (!isDeposit && (!userRecord || userRecord.balance < op.amount)) {
-      return error(res, "User has insufficient balance for this withdrawal", 400);
-    }
-
-    const defaultDesc = isDeposit
-      ? `Deposit of $${op.amount.toLocaleString()} approved (ref: ${op.reference})`
-      : `Withdrawal of $${op.amount.toLocaleString()} approved (ref: ${op.reference})`;
+    const op = await completeFundOperation(id, { note });
 
-    const defaultMsg = isDeposit
-      ? `Your deposit of $${op.amount.toLocaleString()} has been approved and credited to your account.`
-      : `Your withdrawal of $${op.amount.toLocaleString()} has been processed.`;
-
-    // Sequential updates — same pattern as updateUserBalance
-    await prisma.fundOperation.update({
-      where: { id },
-      data: { status: "completed", completedAt: new Date() },
-    });
-
-    await prisma.user.update({
-      where: { id: op.userId },
-      data: { balance: isDeposit ? { increment: op.amount } : { decrement: op.amount } },
-    });
-
-    await prisma.transaction.create({
-      data: {
-        userId: op.userId,
-        type: isDeposit ? "deposit" : "withdrawal",
-        amount: isDeposit ? op.amount : -op.amount,
-        status: "completed",
-        description: note || defaultDesc,
-        reference: op.reference,
-      },
-    });
-
-    await createInAppNotification(
-      op.userId,
-      "investment",
-      isDeposit ? "Deposit Approved" : "Withdrawal Approved",
-      note || defaultMsg
-    );
-
-    // Send email notification (non-blocking)
-    if (userRecord?.email && userRecord?.firstName) {
-      sendFundOperationApprovedEmail(
-        userRecord.email,
-        userRecord.firstName,
-        op.type as "deposit" | "withdrawal",
-        op.amount,
-        op.reference
-      ).catch((err) => console.error("Failed to send fund operation approved email:", err));
+    return success(res, null, `${op.type === "deposit" ? "Deposit" : "Withdrawal"} approved`);
+  } catch (err) {
+    if (err instanceof FundOperationError) {
+      return error(res, err.message, err.status);
     }
-
-    // Referral commission: 5% to referrer on referred user's FIRST completed deposit (non-blocking)
-    if (isDeposit) {
-      processReferralCommission(op.userId, op.amount, id).catch((e: unknown) =>
-        console.error("Referral commission processing error:", e)
-      );
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "User has insufficient balance for this withdrawal", 400);
     }
-
-    return success(res, null, `${isDeposit ? "Deposit" : "Withdrawal"} approved`);
-  } catch (err) {
     console.error("approveFundOperation error:", err);
     return error(res, "Failed to approve fund operation", 500);
   }
 }
 
+/**
+ * Look up a crypto deposit's transaction now instead of waiting for the watcher job
+ * POST /api/admin/fund-operations/:id/check-chain
+ */
+export async function checkFundOperationChain(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const result = await checkCryptoDeposit(id);
+    return success(res, result, result.approved ? "Deposit confirmed on-chain and approved" : undefined);
+  } catch (err) {
+    if (err instanceof FundOperationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("checkFundOperationChain error:", err);
+    return error(res, "Failed to check transaction", 500);
+  }
+}
+
 export async function rejectFundOperation(req: Request, res: Response) {
   try {
     const id = req.params.id as string;
@@ -142,10 +97,11 @@ export async function rejectFundOperation(req: Request, res: Response) {
       ? `Your deposit request of $${op.amount.toLocaleString()} has been rejected.`
       : `Your withdrawal request of $${op.amount.toLocaleString()} has been rejected.`;
 
-    await prisma.fundOperation.update({
-      where: { id },
+    const { count } = await prisma.fundOperation.updateMany({
+      where: { id, status: "pending" },
       data: { status: "rejected", completedAt: new Date() },
     });
+    if (count === 0) return error(res, "Only pending operations can be rejected", 409);
 
     await createInAppNotification(
       op.userId,
@@ -171,67 +127,3 @@ export async function rejectFundOperation(req: Request, res: Response) {
     return error(res, "Failed to reject fund operation", 500);
   }
 }
-
-async function processReferralCommission(userId: string, depositAmount: number, fundOpId: string) {
-  // Only trigger on the user's FIRST completed deposit
-  const previousDeposits = await prisma.fundOperation.count({
-    where: {
-      userId,
-      type: "deposit",
-      status: "completed",
-      id: { not: fundOpId },
-    },
-  });
-
-  if (previousDeposits > 0) return;
-
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { referredById: true, firstName: true, lastName: true },
-  });
-
-  if (!user?.referredById) return;
-
-  const referrer = await prisma.user.findUnique({
-    where: { id: user.referredById },
-    select: { id: true, email: true, firstName: true },
-  });
-
-  if (!referrer) return;
-
-  const commission = depositAmount * 0.05;
-  const referredName = `${user.firstName} ${user.lastName}`;
-  const commissionStr = commission.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-
-  await prisma.user.update({
-    where: { id: referrer.id },
-    data: { balance: { increment: commission } },
-  });
-
-  await prisma.transaction.create({
-    data: {
-      userId: referrer.id,
-      type: "referral",
-      amount: commission,
-      status: "completed",
-      description: `5% referral commission from ${referredName}'s first deposit`,
-    },
-  });
-
-  await createInAppNotification(
-    referrer.id,
-    "investment",
-    "Referral Commission Earned",
-    `You earned $${commissionStr} referral commission from ${referredName}'s first deposit.`
-  );
-
-  if (referrer.email && referrer.firstName) {
-    sendReferralCommissionEmail(
-      referrer.email,
-      referrer.firstName,
-      referredName,
-      commission,
-      depositAmount
-    ).catch((e: unknown) => console.error("Failed to send referral commission email:", e));
-  }
-}
@@ -0,0 +1,246 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { createInAppNotification } from "../../services/notification.service.js";
+import {
+  closeInvestment,
+  findDueMaturities,
+  quoteEarlyExit,
+  runMaturities,
+  InvestmentNotActiveError,
+} from "../../services/investmentLifecycle.service.js";
+
+/**
+ * List early-exit requests
+ * GET /api/admin/investment-lifecycle/exit-requests?status=pending&limit=50&offset=0
+ */
+export async function getExitRequests(req: Request, res: Response) {
+  try {
+    const { status, userId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status && status !== "all") where.status = status;
+    if (userId) where.userId = userId;
+
+    const [requests, total] = await Promise.all([
+      prisma.investmentExitRequest.findMany({
+        where,
+        include: {
+          investment: {
+            select: {
+              amount: true,
+              status: true,
+              createdAt: true,
+              payoutsMade: true,
+              user: { select: { id: true, firstName: true, lastName: true, email: true } },
+              property: { select: { id: true, title: true, duration: true } },
+              investmentOption: { select: { id: true, title: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.investmentExitRequest.count({ where }),
+    ]);
+
+    return success(res, { requests, total });
+  } catch (err) {
+    console.error("getExitRequests error:", err);
+    return error(res, "Failed to fetch exit requests", 500);
+  }
+}
+
+/**
+ * Approve an early exit: return principal minus penalty and close the investment
+ * POST /api/admin/investment-lifecycle/exit-requests/:id/approve
+ */
+export async function approveExitRequest(req: Request, res: Response) {
+  try {
+    const adminId = req.userId!;
+    const id = req.params.id as string;
+    const { penaltyRate, note } = req.body;
+
+    const request = await prisma.investmentExitRequest.findUnique({ where: { id } });
+
+    if (!request) {
+      return error(res, "Exit request not found", 404);
+    }
+
+    if (request.status !== "pending") {
+      return error(res, `Exit request is already ${request.status}`, 400);
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Claim the request first so a double-click can't approve it twice
+      const { count } = await tx.investmentExitRequest.updateMany({
+        where: { id, status: "pending" },
+        data: { status: "approved", reviewedBy: adminId, reviewedAt: new Date(), adminNote: note },
+      });
+      if (count === 0) throw new InvestmentNotActiveError();
+
+      // Re-quote on the current principal — the user may have topped up since requesting
+      const investment = await tx.userInvestment.findUnique({
+        where: { id: request.investmentId },
+        select: { amount: true },
+      });
+      const quote = quoteEarlyExit(investment?.amount ?? request.principal, penaltyRate ?? request.penaltyRate);
+
+      await tx.investmentExitRequest.update({
+        where: { id },
+        data: {
+          principal: quote.principal,
+          penaltyRate: quote.penaltyRate,
+          penaltyAmount: quote.penaltyAmount,
+          payoutAmount: quote.payoutAmount,
+        },
+      });
+
+      const closed = await closeInvestment(tx, {
+        investmentId: request.investmentId,
+        status: "exited",
+        penaltyAmount: quote.penaltyAmount,
+        reference: id,
+      });
+
+      return { quote, title: closed.title };
+    }, { timeout: 15000 });
+
+    await createInAppNotification(
+      request.userId,
+      "investment",
+      "Exit Request Approved",
+      `Your early exit from "${result.title}" has been approved. $${result.quote.payoutAmount.toLocaleString()} has been returned to your balance.`
+    );
+
+    return success(res, result.quote, "Exit request approved");
+  } catch (err) {
+    if (err instanceof InvestmentNotActiveError) {
+      return error(res, "Investment or exit request is no longer open", 409);
+    }
+    console.error("approveExitRequest error:", err);
+    return error(res, "Failed to approve exit request", 500);
+  }
+}
+
+/**
+ * POST /api/admin/investment-lifecycle/exit-requests/:id/reject
+ */
+export async function rejectExitRequest(req: Request, res: Response) {
+  try {
+    const adminId = req.userId!;
+    const id = req.params.id as string;
+    const { reason } = req.body;
+
+    const request = await prisma.investmentExitRequest.findUnique({
+      where: { id },
+      include: {
+        investment: {
+          select: { property: { select: { title: true } }, investmentOption: { select: { title: true } } },
+        },
+      },
+    });
+
+    if (!request) {
+      return error(res, "Exit request not found", 404);
+    }
+
+    const { count } = await prisma.investmentExitRequest.updateMany({
+      where: { id, status: "pending" },
+      data: { status: "rejected", adminNote: reason, reviewedBy: adminId, reviewedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return error(res, `Exit request is already ${request.status}`, 400);
+    }
+
+    const title = request.investment.property?.title ?? request.investment.investmentOption?.title ?? "your investment";
+    await createInAppNotification(
+      request.userId,
+      "investment",
+      "Exit Request Rejected",
+      `Your early exit request for "${title}" was rejected. Reason: ${reason}`
+    );
+
+    return success(res, null, "Exit request rejected");
+  } catch (err) {
+    console.error("rejectExitRequest error:", err);
+    return error(res, "Failed to reject exit request", 500);
+  }
+}
+
+/**
+ * Unwind an investment and refund the full principal
+ * POST /api/admin/investment-lifecycle/investments/:id/cancel
+ */
+export async function cancelInvestment(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const { reason } = req.body;
+
+    const closed = await prisma.$transaction(
+      (tx) => closeInvestment(tx, { investmentId: id, status: "cancelled" }),
+      { timeout: 15000 }
+    );
+
+    await createInAppNotification(
+      closed.investment.userId,
+      "investment",
+      "Investment Cancelled",
+      `Your investment in "${closed.title}" has been cancelled and $${closed.principalReturned.toLocaleString()} has been refunded to your balance. Reason: ${reason}`
+    );
+
+    return success(res, { id, principalReturned: closed.principalReturned }, "Investment cancelled");
+  } catch (err) {
+    if (err instanceof InvestmentNotActiveError) {
+      return error(res, "Investment not found or no longer active", 409);
+    }
+    console.error("cancelInvestment error:", err);
+    return error(res, "Failed to cancel investment", 500);
+  }
+}
+
+/**
+ * Investments whose term has ended but have not been matured yet
+ * GET /api/admin/investment-lifecycle/maturities/preview?asOf=2026-01-31
+ */
+export async function previewMaturities(req: Request, res: Response) {
+  try {
+    const { asOf } = req.query;
+
+    const asOfDate = asOf ? new Date(asOf as string) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return error(res, "Invalid asOf date", 400);
+    }
+
+    const due = await findDueMaturities(asOfDate);
+    const total = Math.round(due.reduce((sum, m) => sum + m.principal, 0) * 100) / 100;
+
+    return success(res, { asOf: asOfDate, count: due.length, total, maturities: due });
+  } catch (err) {
+    console.error("previewMaturities error:", err);
+    return error(res, "Failed to preview maturities", 500);
+  }
+}
+
+/**
+ * Run (or dry-run) the maturity job now instead of waiting for the scheduler
+ * POST /api/admin/investment-lifecycle/maturities/run
+ */
+export async function runMaturitiesNow(req: Request, res: Response) {
+  try {
+    const { asOf, dryRun } = req.body;
+
+    const result = await runMaturities({ asOf, dryRun });
+
+    const message = dryRun
+      ? `Dry run: ${result.due.length} investment(s) would mature`
+      : `Matured ${result.matured.length} investment(s)`;
+
+    return success(res, result, message);
+  } catch (err) {
+    console.error("runMaturitiesNow error:", err);
+    return error(res, "Failed to run maturities", 500);
+  }
+}
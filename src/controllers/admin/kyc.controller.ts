@@ -2,14 +2,30 @@ import { Request, Response } from "express";
 import { prisma } from "../../config/database.js";
 import { success, error } from "../../utils/response.js";
 import { sendKYCApprovedEmail, sendKYCRejectedEmail } from "../../services/email.service.js";
+import { createInAppNotification } from "../../services/notification.service.js";
+import {
+  EXPIRY_WARNING_DAYS,
+  KYC_LEVEL_LABELS,
+  KycLevel,
+  KycLevelError,
+  SUBMITTABLE_LEVELS,
+  kycLevelOf,
+  kycLevelSelect,
+  levelRank,
+  needsReverification,
+  requireReverification,
+  setKycLevel,
+} from "../../services/kyc.service.js";
+import { diffVersions, recordReviewDecision } from "../../services/kycSubmission.service.js";
+import { screeningBlocker } from "../../services/screening.service.js";
 
 /**
  * Get all KYC submissions (with filtering and pagination)
- * GET /api/admin/kyc/submissions
+ * GET /api/admin/kyc/submissions?status=pending&level=enhanced&screeningStatus=hit
  */
 export async function getAllKYCSubmissions(req: Request, res: Response) {
   try {
-    const { status, page = "1", limit = "20" } = req.query;
+    const { status, level, screeningStatus, page = "1", limit = "20" } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
@@ -20,6 +36,12 @@ export async function getAllKYCSubmissions(req: Request, res: Response) {
     if (status && status !== "all") {
       where.status = status;
     }
+    if (level && level !== "all") {
+      where.level = level;
+    }
+    if (screeningStatus && screeningStatus !== "all") {
+      where.screeningStatus = screeningStatus;
+    }
 
     // Get total count
     const total = await prisma.kYC.count({ where });
@@ -62,8 +84,10 @@ export async function getAllKYCSubmissions(req: Request, res: Response) {
 }
 
 /**
- * Get single KYC submission details
- * GET /api/admin/kyc/submissions/:id
+ * Get single KYC submission details, every submitted version, and what changed
+ * between two of them (the latest and the one before, unless `from` / `to`
+ * version numbers are given)
+ * GET /api/admin/kyc/submissions/:id?from=1&to=3
  */
 export async function getKYCSubmission(req: Request, res: Response) {
   try {
@@ -82,6 +106,8 @@ export async function getKYCSubmission(req: Request, res: Response) {
             profilePhoto: true,
             createdAt: true,
             emailVerified: true,
+            kycStatus: true,
+            kycLevel: true,
           },
         },
       },
@@ -91,7 +117,37 @@ export async function getKYCSubmission(req: Request, res: Response) {
       return error(res, "KYC submission not found", 404);
     }
 
-    return success(res, { submission });
+    const [levelHistory, versions, screeningHits] = await Promise.all([
+      prisma.kycLevelChange.findMany({
+        where: { userId: submission.userId },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.kycSubmissionVersion.findMany({
+        where: { kycId: id },
+        orderBy: { version: "desc" },
+      }),
+      prisma.screeningHit.findMany({
+        where: { userId: submission.userId },
+        orderBy: { score: "desc" },
+      }),
+    ]);
+
+    const toVersion = req.query.to ? parseInt(req.query.to as string) : versions[0]?.version;
+    const fromVersion = req.query.from ? parseInt(req.query.from as string) : (toVersion ?? 0) - 1;
+    const from = versions.find((v) => v.version === fromVersion);
+    const to = versions.find((v) => v.version === toVersion);
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return error(res, "Submission version not found", 404);
+    }
+
+    return success(res, {
+      submission,
+      currentLevel: submission.user ? kycLevelOf(submission.user) : "none",
+      levelHistory,
+      screeningHits,
+      versions,
+      comparison: from && to ? { from, to, changes: diffVersions(from, to) } : null,
+    });
   } catch (err) {
     console.error("Get KYC submission error:", err);
     return error(res, "Failed to retrieve KYC submission", 500);
@@ -99,58 +155,103 @@ export async function getKYCSubmission(req: Request, res: Response) {
 }
 
 /**
- * Approve KYC submission
+ * Approve KYC submission at the level applied for — or, with `level`, at a
+ * lower one (e.g. identity checks out but the source of funds doesn't)
  * POST /api/admin/kyc/approve/:id
  */
 export async function approveKYC(req: Request, res: Response) {
   try {
     const id = req.params.id as string;
-    const { adminNotes } = req.body || {};
+    const { adminNotes, level: requestedLevel } = req.body || {};
     const adminId = req.userId!;
 
     // Find KYC submission
     const kycRecord = await prisma.kYC.findUnique({
       where: { id },
-      select: { userId: true, status: true },
+      select: { userId: true, status: true, level: true, documentExpiresAt: true },
     });
 
     if (!kycRecord) {
       return error(res, "KYC submission not found", 404);
     }
 
-    if (kycRecord.status === "approved") {
-      return error(res, "KYC is already approved", 400);
+    // Only a fresh submission can be approved — approving a rejected or
+    // re-verification row would sign off the same documents again
+    if (kycRecord.status !== "pending") {
+      return error(res, `Only pending submissions can be approved (this one is ${kycRecord.status.replace(/_/g, " ")})`, 400);
     }
 
-    // Update KYC status to approved
-    const updatedKYC = await prisma.kYC.update({
-      where: { id },
-      data: {
+    if (kycRecord.documentExpiresAt && kycRecord.documentExpiresAt <= new Date()) {
+      return error(
+        res,
+        `The submitted document expired on ${kycRecord.documentExpiresAt.toISOString().slice(0, 10)} — reject it so the user resubmits`,
+        400
+      );
+    }
+
+    const level = (requestedLevel ?? kycRecord.level) as KycLevel;
+    if (!SUBMITTABLE_LEVELS.includes(level as any) || levelRank(level) > levelRank(kycRecord.level)) {
+      return error(res, `level must be ${kycRecord.level} or lower (one of: ${SUBMITTABLE_LEVELS.join(", ")})`, 400);
+    }
+
+    // Sanctions / PEP hits have to be dealt with first
+    const blocker = await screeningBlocker(id);
+    if (blocker) {
+      return error(res, blocker, 409);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: kycRecord.userId }, select: kycLevelSelect });
+
+    const updatedKYC = await prisma.$transaction(async (tx) => {
+      await recordReviewDecision(tx, id, {
         status: "approved",
-        reviewedAt: new Date(),
         reviewedBy: adminId,
+        approvedLevel: level,
         adminNotes: adminNotes || "",
-        rejectionReason: "", // Clear any previous rejection reason
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
+      });
+
+      // Claim the pending submission so two admins can't both approve it
+      const { count } = await tx.kYC.updateMany({ where: { id, status: "pending" }, data: { status: "approved" } });
+      if (count === 0) throw new KycLevelError("This submission has already been reviewed — please refresh", 409);
+
+      const approved = await tx.kYC.update({
+        where: { id },
+        data: {
+          status: "approved",
+          level,
+          reviewedAt: new Date(),
+          reviewedBy: adminId,
+          adminNotes: adminNotes || "",
+          rejectionReason: "", // Clear any previous rejection reason
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
-    }) as any;
+      });
 
-    // Update user's kycStatus
-    await prisma.user.update({
-      where: { id: kycRecord.userId },
-      data: { kycStatus: "verified" },
-    });
+      // Approving never lowers a level the user already holds — unless they were
+      // re-verifying, where the approved level is what they have proved again
+      const reverifying = needsReverification(user);
+      if (reverifying || levelRank(level) > levelRank(kycLevelOf(user))) {
+        await setKycLevel(
+          kycRecord.userId,
+          level,
+          adminId,
+          { kycId: id, reason: adminNotes || (reverifying ? "Re-verified" : "") },
+          tx
+        );
+      }
+      return approved;
+    }, { timeout: 15000 }) as any;
 
-    console.log(`✅ KYC approved for user: ${updatedKYC.user.email} by admin: ${adminId}`);
+    console.log(`✅ KYC (${level}) approved for user: ${updatedKYC.user.email} by admin: ${adminId}`);
 
     // Send email notification to user about KYC approval (non-blocking)
     setImmediate(() => {
@@ -160,6 +261,7 @@ export async function approveKYC(req: Request, res: Response) {
 
     return success(res, { kyc: updatedKYC }, "KYC approved successfully");
   } catch (err) {
+    if (err instanceof KycLevelError) return error(res, err.message, err.status);
     console.error("Approve KYC error:", err);
     return error(res, "Failed to approve KYC", 500);
   }
@@ -182,40 +284,51 @@ export async function rejectKYC(req: Request, res: Response) {
     // Find KYC submission
     const kycRecord = await prisma.kYC.findUnique({
       where: { id },
-      select: { userId: true, status: true },
+      select: { userId: true, status: true, user: { select: kycLevelSelect } },
     });
 
     if (!kycRecord) {
       return error(res, "KYC submission not found", 404);
     }
 
-    // Update KYC status to rejected
-    const updatedKYC = await prisma.kYC.update({
-      where: { id },
-      data: {
+    const updatedKYC = await prisma.$transaction(async (tx) => {
+      await recordReviewDecision(tx, id, {
         status: "rejected",
-        reviewedAt: new Date(),
         reviewedBy: adminId,
         rejectionReason,
         adminNotes: adminNotes || "",
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
+      });
+
+      // Update KYC status to rejected
+      return tx.kYC.update({
+        where: { id },
+        data: {
+          status: "rejected",
+          reviewedAt: new Date(),
+          reviewedBy: adminId,
+          rejectionReason,
+          adminNotes: adminNotes || "",
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
-    }) as any;
+      });
+    }, { timeout: 15000 }) as any;
 
-    // Update user's kycStatus
-    await prisma.user.update({
-      where: { id: kycRecord.userId },
-      data: { kycStatus: "rejected" },
-    });
+    // A rejected enhanced application leaves an identity-verified user verified
+    if (!kycRecord.user || levelRank(kycLevelOf(kycRecord.user)) < levelRank("basic")) {
+      await prisma.user.update({
+        where: { id: kycRecord.userId },
+        data: { kycStatus: "rejected" },
+      });
+    }
 
     console.log(`❌ KYC rejected for user: ${updatedKYC.user.email} by admin: ${adminId}`);
 
@@ -238,12 +351,27 @@ export async function rejectKYC(req: Request, res: Response) {
  */
 export async function getKYCStats(req: Request, res: Response) {
   try {
-    const [total, pending, approved, rejected, notSubmitted] = await Promise.all([
+    const expiringBy = new Date(Date.now() + EXPIRY_WARNING_DAYS[0] * 24 * 60 * 60 * 1000);
+    const [
+      total,
+      pending,
+      approved,
+      rejected,
+      notSubmitted,
+      reverificationRequired,
+      expiringSoon,
+      pendingByLevel,
+      usersByLevel,
+    ] = await Promise.all([
       prisma.kYC.count(),
       prisma.kYC.count({ where: { status: "pending" } }),
       prisma.kYC.count({ where: { status: "approved" } }),
       prisma.kYC.count({ where: { status: "rejected" } }),
       prisma.kYC.count({ where: { status: "not_submitted" } }),
+      prisma.kYC.count({ where: { status: "reverification_required" } }),
+      prisma.kYC.count({ where: { status: "approved", documentExpiresAt: { lte: expiringBy } } }),
+      prisma.kYC.groupBy({ by: ["level"], where: { status: "pending" }, _count: { _all: true } }),
+      prisma.user.groupBy({ by: ["kycLevel"], _count: { _all: true } }),
     ]);
 
     return success(res, {
@@ -253,6 +381,11 @@ export async function getKYCStats(req: Request, res: Response) {
         approved,
         rejected,
         notSubmitted,
+        reverificationRequired,
+        expiringSoon,
+        pendingByLevel: Object.fromEntries(pendingByLevel.map((g) => [g.level, g._count._all])),
+        // Stored levels only — email verification and pre-level approvals aren't stored
+        usersByLevel: Object.fromEntries(usersByLevel.map((g) => [g.kycLevel, g._count._all])),
       },
     });
   } catch (err) {
@@ -260,3 +393,94 @@ export async function getKYCStats(req: Request, res: Response) {
     return error(res, "Failed to retrieve KYC statistics", 500);
   }
 }
+
+/**
+ * A user's current KYC level and every change to it
+ * GET /api/admin/kyc/users/:userId/levels
+ */
+export async function getUserKYCLevels(req: Request, res: Response) {
+  try {
+    const userId = req.params.userId as string;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: kycLevelSelect });
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
+    const history = await prisma.kycLevelChange.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, { level: kycLevelOf(user), reverificationRequired: needsReverification(user), history });
+  } catch (err) {
+    console.error("Get user KYC levels error:", err);
+    return error(res, "Failed to retrieve KYC levels", 500);
+  }
+}
+
+/**
+ * Set a user's KYC level directly (e.g. verified offline, or downgraded)
+ * POST /api/admin/kyc/users/:userId/level
+ */
+export async function setUserKYCLevel(req: Request, res: Response) {
+  try {
+    const userId = req.params.userId as string;
+    const { level, reason } = req.body;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { ...kycLevelSelect, id: true } });
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
+    const current = kycLevelOf(user);
+    if (current === level) {
+      return error(res, `User is already at the ${level} level`, 400);
+    }
+
+    const change = await setKycLevel(userId, level, req.userId!, { reason });
+
+    createInAppNotification(
+      userId,
+      "security",
+      "KYC Level Updated",
+      `Your verification level is now: ${KYC_LEVEL_LABELS[level as KycLevel]}.`
+    ).catch(() => {});
+
+    console.log(`🪪 KYC level for user ${userId} set ${current} → ${level} by admin: ${req.userId}`);
+
+    return success(res, change, `KYC level set to ${level}`);
+  } catch (err) {
+    console.error("Set user KYC level error:", err);
+    return error(res, "Failed to set KYC level", 500);
+  }
+}
+
+/**
+ * Ask a verified user to re-verify (e.g. suspected stale or forged documents);
+ * withdrawals are paused until a new submission is approved
+ * POST /api/admin/kyc/users/:userId/reverify
+ */
+export async function requestUserReverification(req: Request, res: Response) {
+  try {
+    const userId = req.params.userId as string;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: kycLevelSelect });
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+    if (levelRank(kycLevelOf(user)) < levelRank("basic")) {
+      return error(res, "User has no verified identity to re-verify", 400);
+    }
+
+    const kyc = await requireReverification(userId, req.userId!, req.body.reason);
+
+    return success(res, { kyc }, "Re-verification requested");
+  } catch (err) {
+    if (err instanceof KycLevelError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("Request user reverification error:", err);
+    return error(res, "Failed to request re-verification", 500);
+  }
+}
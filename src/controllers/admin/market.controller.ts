@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { createInAppNotification } from "../../services/notification.service.js";
+
+/**
+ * GET /api/admin/market/listings?status=open&propertyId=&limit=50&offset=0
+ */
+export async function getAllListings(req: Request, res: Response) {
+  try {
+    const { status, propertyId, sellerId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status && status !== "all") where.status = status;
+    if (propertyId) where.propertyId = propertyId;
+    if (sellerId) where.sellerId = sellerId;
+
+    const [listings, total] = await Promise.all([
+      prisma.shareListing.findMany({
+        where,
+        include: {
+          investment: {
+            select: {
+              amount: true,
+              status: true,
+              user: { select: { id: true, firstName: true, lastName: true, email: true } },
+              property: { select: { id: true, title: true } },
+            },
+          },
+          trades: { orderBy: { createdAt: "desc" } },
+        },
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.shareListing.count({ where }),
+    ]);
+
+    return success(res, { listings, total });
+  } catch (err) {
+    console.error("getAllListings error:", err);
+    return error(res, "Failed to fetch listings", 500);
+  }
+}
+
+/**
+ * GET /api/admin/market/trades?propertyId=&userId=&limit=50&offset=0
+ */
+export async function getAllTrades(req: Request, res: Response) {
+  try {
+    const { propertyId, userId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (propertyId) where.propertyId = propertyId;
+    if (userId) where.OR = [{ buyerId: userId }, { sellerId: userId }];
+
+    const [trades, total, totals] = await Promise.all([
+      prisma.shareTrade.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.shareTrade.count({ where }),
+      prisma.shareTrade.aggregate({ where, _sum: { price: true, fee: true } }),
+    ]);
+
+    return success(res, {
+      trades,
+      total,
+      volume: totals._sum.price ?? 0,
+      fees: totals._sum.fee ?? 0,
+    });
+  } catch (err) {
+    console.error("getAllTrades error:", err);
+    return error(res, "Failed to fetch trades", 500);
+  }
+}
+
+/**
+ * Take a listing off the market (e.g. mispriced or under investigation)
+ * POST /api/admin/market/listings/:id/cancel
+ */
+export async function cancelListing(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const { reason } = req.body ?? {};
+
+    const listing = await prisma.shareListing.findUnique({ where: { id } });
+
+    if (!listing) {
+      return error(res, "Listing not found", 404);
+    }
+
+    const { count } = await prisma.shareListing.updateMany({
+      where: { id, status: "open" },
+      data: { status: "cancelled", cancelledAt: new Date() },
+    });
+
+    if (count === 0) {
+      return error(res, `Listing is already ${listing.status}`, 400);
+    }
+
+    await createInAppNotification(
+      listing.sellerId,
+      "investment",
+      "Listing Cancelled",
+      `Your secondary market listing was cancelled by an administrator.${reason ? ` Reason: ${reason}` : ""}`
+    );
+
+    return success(res, null, "Listing cancelled");
+  } catch (err) {
+    console.error("cancelListing error:", err);
+    return error(res, "Failed to cancel listing", 500);
+  }
+}
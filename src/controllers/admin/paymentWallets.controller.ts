@@ -43,6 +43,8 @@ export async function createPaymentWallet(req: Request, res: Response) {
       routingNumber,
       instructions,
       qrCodeData,
+      requiredConfirmations,
+      usdRate,
       isActive,
     } = req.body;
 
@@ -54,6 +56,14 @@ export async function createPaymentWallet(req: Request, res: Response) {
       return error(res, "type must be 'bank' or 'crypto'", 400);
     }
 
+    if (requiredConfirmations !== undefined && (!Number.isInteger(requiredConfirmations) || requiredConfirmations < 0)) {
+      return error(res, "requiredConfirmations must be a non-negative integer", 400);
+    }
+
+    if (usdRate != null && (typeof usdRate !== "number" || !(usdRate > 0))) {
+      return error(res, "usdRate must be a positive number", 400);
+    }
+
     const wallet = await prisma.paymentWallet.create({
       data: {
         type,
@@ -67,6 +77,9 @@ export async function createPaymentWallet(req: Request, res: Response) {
         routingNumber: routingNumber ?? "",
         instructions: instructions ?? "",
         qrCodeData: qrCodeData ?? "",
+        requiredConfirmations: requiredConfirmations ?? 0,
+        usdRate: usdRate ?? null,
+        usdRateUpdatedAt: usdRate != null ? new Date() : null,
         isActive: isActive !== undefined ? Boolean(isActive) : true,
       },
     });
@@ -101,6 +114,8 @@ export async function updatePaymentWallet(req: Request, res: Response) {
       routingNumber,
       instructions,
       qrCodeData,
+      requiredConfirmations,
+      usdRate,
       isActive,
     } = req.body;
 
@@ -119,6 +134,20 @@ export async function updatePaymentWallet(req: Request, res: Response) {
     if (routingNumber !== undefined) data.routingNumber = routingNumber;
     if (instructions !== undefined) data.instructions = instructions;
     if (qrCodeData !== undefined) data.qrCodeData = qrCodeData;
+    if (requiredConfirmations !== undefined) {
+      if (!Number.isInteger(requiredConfirmations) || requiredConfirmations < 0) {
+        return error(res, "requiredConfirmations must be a non-negative integer", 400);
+      }
+      data.requiredConfirmations = requiredConfirmations;
+    }
+    // Crypto deposits are only auto-credited against a rate set within the last day
+    if (usdRate !== undefined) {
+      if (usdRate !== null && (typeof usdRate !== "number" || !(usdRate > 0))) {
+        return error(res, "usdRate must be a positive number or null", 400);
+      }
+      data.usdRate = usdRate;
+      data.usdRateUpdatedAt = usdRate === null ? null : new Date();
+    }
     if (isActive !== undefined) data.isActive = Boolean(isActive);
 
     const wallet = await prisma.paymentWallet.update({ where: { id }, data });
@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { findDuePayouts, runPayouts } from "../../services/payout.service.js";
+
+/**
+ * Preview payouts that are due but not yet paid
+ * GET /api/admin/payouts/preview?asOf=2026-01-31&userId=...
+ */
+export async function previewPayouts(req: Request, res: Response) {
+  try {
+    const { asOf, userId } = req.query;
+
+    const asOfDate = asOf ? new Date(asOf as string) : new Date();
+    if (isNaN(asOfDate.getTime())) {
+      return error(res, "Invalid asOf date", 400);
+    }
+
+    const due = await findDuePayouts(asOfDate, { userId: userId as string | undefined });
+    const total = Math.round(due.reduce((sum, p) => sum + p.amount, 0) * 100) / 100;
+
+    return success(res, { asOf: asOfDate, count: due.length, total, payouts: due });
+  } catch (err) {
+    console.error("previewPayouts error:", err);
+    return error(res, "Failed to preview payouts", 500);
+  }
+}
+
+/**
+ * Run (or dry-run) due payouts now instead of waiting for the scheduler
+ * POST /api/admin/payouts/run
+ */
+export async function runPayoutsNow(req: Request, res: Response) {
+  try {
+    const { asOf, dryRun, userId } = req.body;
+
+    const result = await runPayouts({ asOf, dryRun, userId });
+
+    const message = dryRun
+      ? `Dry run: ${result.due.length} payout(s) totalling $${result.totalDue.toLocaleString()} would be paid`
+      : `Paid ${result.paid.length} payout(s) totalling $${result.totalPaid.toLocaleString()}`;
+
+    return success(res, result, message);
+  } catch (err) {
+    console.error("runPayoutsNow error:", err);
+    return error(res, "Failed to run payouts", 500);
+  }
+}
+
+/**
+ * Payout history
+ * GET /api/admin/payouts?userId=&investmentId=&limit=50&offset=0
+ */
+export async function getPayouts(req: Request, res: Response) {
+  try {
+    const { userId, investmentId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (userId) where.userId = userId;
+    if (investmentId) where.investmentId = investmentId;
+
+    const [payouts, total] = await Promise.all([
+      prisma.investmentPayout.findMany({
+        where,
+        include: {
+          investment: {
+            select: {
+              amount: true,
+              status: true,
+              user: { select: { id: true, firstName: true, lastName: true, email: true } },
+              property: { select: { id: true, title: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.investmentPayout.count({ where }),
+    ]);
+
+    return success(res, { payouts, total });
+  } catch (err) {
+    console.error("getPayouts error:", err);
+    return error(res, "Failed to fetch payouts", 500);
+  }
+}
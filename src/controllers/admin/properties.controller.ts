@@ -102,6 +102,11 @@ function parsePropertyBody(body: any) {
   if (body.investorCount !== undefined) data.investorCount = toInt(body.investorCount);
   if (body.bidCount !== undefined) data.bidCount = toInt(body.bidCount);
   if (body.recentBidAmount !== undefined) data.recentBidAmount = toFloat(body.recentBidAmount);
+  // ── Auction settings (for_sale) ──
+  if (body.startingBid !== undefined) data.startingBid = toFloat(body.startingBid);
+  if (body.reservePrice !== undefined) data.reservePrice = toFloat(body.reservePrice);
+  if (body.minBidIncrement !== undefined) data.minBidIncrement = toFloat(body.minBidIncrement);
+  if (body.auctionEndsAt !== undefined) data.auctionEndsAt = body.auctionEndsAt ? new Date(body.auctionEndsAt) : null;
 
   // ── Core booleans ──
   if (body.isFeatured !== undefined) data.isFeatured = body.isFeatured === "true" || body.isFeatured === true;
@@ -0,0 +1,95 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import {
+  acceptPurchaseOrder,
+  completePurchaseOrder,
+  releasePurchaseOrder,
+  PurchaseOrderError,
+} from "../../services/purchaseOrder.service.js";
+
+/**
+ * GET /api/admin/purchase-orders?status=deposit_held&propertyId=&limit=50&offset=0
+ */
+export async function getPurchaseOrders(req: Request, res: Response) {
+  try {
+    const { status, propertyId, userId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status && status !== "all") where.status = status;
+    if (propertyId) where.propertyId = propertyId;
+    if (userId) where.userId = userId;
+
+    const [orders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: { property: { select: { id: true, title: true, location: true, investmentStatus: true } } },
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(orders.map((o) => o.userId))] } },
+      select: { id: true, firstName: true, lastName: true, email: true },
+    });
+    const userMap = new Map(users.map((u) => [u.id, u]));
+
+    return success(res, {
+      orders: orders.map((o) => ({ ...o, user: userMap.get(o.userId) ?? null })),
+      total,
+    });
+  } catch (err) {
+    console.error("getPurchaseOrders error:", err);
+    return error(res, "Failed to fetch purchase orders", 500);
+  }
+}
+
+function handleOrderError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof PurchaseOrderError) {
+    return error(res, err.message, err.status);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, message, 500);
+}
+
+/**
+ * POST /api/admin/purchase-orders/:id/accept
+ */
+export async function acceptOrder(req: Request, res: Response) {
+  try {
+    const order = await acceptPurchaseOrder(req.params.id as string, req.body.note);
+    return success(res, order, "Purchase order accepted");
+  } catch (err) {
+    return handleOrderError(res, err, "acceptOrder", "Failed to accept purchase order");
+  }
+}
+
+/**
+ * Sale closed — earnest money is applied to the price and the property is closed
+ * POST /api/admin/purchase-orders/:id/complete
+ */
+export async function completeOrder(req: Request, res: Response) {
+  try {
+    const order = await completePurchaseOrder(req.params.id as string, req.body.note);
+    return success(res, order, "Purchase order completed");
+  } catch (err) {
+    return handleOrderError(res, err, "completeOrder", "Failed to complete purchase order");
+  }
+}
+
+/**
+ * Cancel the order and release the hold (refund, or forfeit to the platform)
+ * POST /api/admin/purchase-orders/:id/release
+ */
+export async function releaseOrder(req: Request, res: Response) {
+  try {
+    const { forfeit, reason } = req.body;
+    const order = await releasePurchaseOrder(req.params.id as string, { by: "admin", forfeit, reason });
+    return success(res, order, forfeit ? "Purchase order cancelled, earnest money forfeited" : "Purchase order cancelled, earnest money released");
+  } catch (err) {
+    return handleOrderError(res, err, "releaseOrder", "Failed to release purchase order");
+  }
+}
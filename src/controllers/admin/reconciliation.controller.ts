@@ -0,0 +1,128 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { FundOperationError } from "../../services/fundOperation.service.js";
+import {
+  importStatement,
+  resolveLine,
+  ignoreLine,
+  ReconciliationError,
+  STATEMENT_FORMATS,
+  StatementFormat,
+} from "../../services/reconciliation.service.js";
+
+/**
+ * Import a bank statement and auto-approve the deposits it pays for
+ * POST /api/admin/reconciliation/imports (multipart: statement, format?)
+ */
+export async function importBankStatement(req: Request, res: Response) {
+  try {
+    const file = req.file as Express.Multer.File | undefined;
+    if (!file) return error(res, "No statement uploaded", 400);
+
+    const { format } = req.body || {};
+    if (format && !STATEMENT_FORMATS.includes(format)) {
+      return error(res, `format must be one of ${STATEMENT_FORMATS.join(", ")}`, 400);
+    }
+
+    const result = await importStatement(req.userId!, file, format as StatementFormat | undefined);
+
+    console.log(
+      `🏦 Statement ${file.originalname} imported: ${result.matchedCount} matched, ${result.unmatchedCount} queued, ${result.duplicateCount} duplicate`
+    );
+
+    return success(res, result, "Statement imported", 201);
+  } catch (err) {
+    if (err instanceof ReconciliationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("importBankStatement error:", err);
+    return error(res, "Failed to import statement", 500);
+  }
+}
+
+/**
+ * GET /api/admin/reconciliation/imports
+ */
+export async function getStatementImports(req: Request, res: Response) {
+  try {
+    const { limit = "20", offset = "0" } = req.query;
+
+    const [imports, total] = await Promise.all([
+      prisma.bankStatementImport.findMany({
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.bankStatementImport.count(),
+    ]);
+
+    return success(res, { imports, total });
+  } catch (err) {
+    console.error("getStatementImports error:", err);
+    return error(res, "Failed to fetch statement imports", 500);
+  }
+}
+
+/**
+ * Statement lines — the reconciliation queue by default
+ * GET /api/admin/reconciliation/lines?status=unmatched&importId=
+ */
+export async function getStatementLines(req: Request, res: Response) {
+  try {
+    const { status = "unmatched", importId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status !== "all") where.status = status;
+    if (importId) where.importId = importId;
+
+    const [lines, total] = await Promise.all([
+      prisma.bankStatementLine.findMany({
+        where,
+        orderBy: { bookedAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.bankStatementLine.count({ where }),
+    ]);
+
+    return success(res, { lines, total });
+  } catch (err) {
+    console.error("getStatementLines error:", err);
+    return error(res, "Failed to fetch statement lines", 500);
+  }
+}
+
+/**
+ * Match a queued line to a pending deposit and approve it
+ * POST /api/admin/reconciliation/lines/:id/match
+ */
+export async function matchStatementLine(req: Request, res: Response) {
+  try {
+    const { fundOperationId, note } = req.body;
+    const line = await resolveLine(req.params.id as string, req.userId!, fundOperationId, note);
+    return success(res, line, "Deposit approved");
+  } catch (err) {
+    if (err instanceof ReconciliationError || err instanceof FundOperationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("matchStatementLine error:", err);
+    return error(res, "Failed to match statement line", 500);
+  }
+}
+
+/**
+ * POST /api/admin/reconciliation/lines/:id/ignore
+ */
+export async function ignoreStatementLine(req: Request, res: Response) {
+  try {
+    const line = await ignoreLine(req.params.id as string, req.userId!, req.body.note);
+    return success(res, line, "Statement line ignored");
+  } catch (err) {
+    if (err instanceof ReconciliationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("ignoreStatementLine error:", err);
+    return error(res, "Failed to ignore statement line", 500);
+  }
+}
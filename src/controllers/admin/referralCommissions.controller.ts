@@ -0,0 +1,108 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import {
+  releaseHeldCommission,
+  rejectHeldCommission,
+  ReferralProgramError,
+} from "../../services/referralProgram.service.js";
+import { detectReferralFraud } from "../../services/referralFraud.service.js";
+
+function handleCommissionError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof ReferralProgramError) {
+    return error(res, err.message, err.status);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, message, 500);
+}
+
+const userSelect = { id: true, email: true, firstName: true, lastName: true, createdAt: true };
+
+/**
+ * GET /api/admin/referral-commissions?status=held
+ */
+export async function getReferralCommissions(req: Request, res: Response) {
+  try {
+    const { status = "held", limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status !== "all") where.status = status;
+
+    const [commissions, total] = await Promise.all([
+      prisma.referralCommission.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.referralCommission.count({ where }),
+    ]);
+
+    return success(res, { commissions, total });
+  } catch (err) {
+    return handleCommissionError(res, err, "getReferralCommissions", "Failed to fetch referral commissions");
+  }
+}
+
+/**
+ * A commission with both accounts and the signals as they stand now
+ * GET /api/admin/referral-commissions/:id
+ */
+export async function getReferralCommission(req: Request, res: Response) {
+  try {
+    const commission = await prisma.referralCommission.findUnique({ where: { id: req.params.id as string } });
+    if (!commission) return error(res, "Referral commission not found", 404);
+
+    const [beneficiary, referredUser, currentSignals] = await Promise.all([
+      prisma.user.findUnique({ where: { id: commission.beneficiaryId }, select: userSelect }),
+      prisma.user.findUnique({ where: { id: commission.referredUserId }, select: userSelect }),
+      detectReferralFraud(commission.beneficiaryId, commission.referredUserId),
+    ]);
+
+    return success(res, { commission, beneficiary, referredUser, currentSignals });
+  } catch (err) {
+    return handleCommissionError(res, err, "getReferralCommission", "Failed to fetch referral commission");
+  }
+}
+
+/**
+ * Check two accounts without a commission, e.g. before assigning a referral
+ * GET /api/admin/referral-commissions/check?referrerId=...&referredUserId=...
+ */
+export async function checkReferralPair(req: Request, res: Response) {
+  try {
+    const { referrerId, referredUserId } = req.query;
+    if (typeof referrerId !== "string" || typeof referredUserId !== "string") {
+      return error(res, "referrerId and referredUserId are required", 400);
+    }
+
+    const signals = await detectReferralFraud(referrerId, referredUserId);
+    return success(res, { flagged: signals.length > 0, signals });
+  } catch (err) {
+    return handleCommissionError(res, err, "checkReferralPair", "Failed to check referral");
+  }
+}
+
+/**
+ * POST /api/admin/referral-commissions/:id/release
+ */
+export async function releaseReferralCommission(req: Request, res: Response) {
+  try {
+    const commission = await releaseHeldCommission(req.params.id as string, req.userId!, req.body.note);
+    return success(res, commission, "Referral commission released and credited");
+  } catch (err) {
+    return handleCommissionError(res, err, "releaseReferralCommission", "Failed to release referral commission");
+  }
+}
+
+/**
+ * POST /api/admin/referral-commissions/:id/reject
+ */
+export async function rejectReferralCommission(req: Request, res: Response) {
+  try {
+    const commission = await rejectHeldCommission(req.params.id as string, req.userId!, req.body.note);
+    return success(res, commission, "Referral commission rejected");
+  } catch (err) {
+    return handleCommissionError(res, err, "rejectReferralCommission", "Failed to reject referral commission");
+  }
+}
@@ -0,0 +1,152 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { createReferralProgramSchema } from "../../validators/admin/referralPrograms.schema.js";
+import { programTiers, STANDARD_PROGRAM } from "../../services/referralProgram.service.js";
+
+async function campaignCodeTaken(campaignCode: string | null | undefined, exceptId?: string) {
+  if (!campaignCode) return false;
+  const existing = await prisma.referralProgram.findFirst({
+    where: { campaignCode, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    select: { id: true },
+  });
+  return !!existing;
+}
+
+// Only one program is the default for signups without a campaign code
+async function clearOtherDefaults(id: string) {
+  await prisma.referralProgram.updateMany({
+    where: { isDefault: true, id: { not: id } },
+    data: { isDefault: false },
+  });
+}
+
+/**
+ * Every program with how many users it holds and what it has paid, plus the
+ * standard program that applies to everyone else
+ * GET /api/admin/referral-programs
+ */
+export async function getReferralPrograms(req: Request, res: Response) {
+  try {
+    const programs = await prisma.referralProgram.findMany({ orderBy: { createdAt: "desc" } });
+
+    const [members, paid] = await Promise.all([
+      prisma.user.groupBy({ by: ["referralProgramId"], _count: { _all: true } }),
+      prisma.referralCommission.groupBy({ by: ["programId"], _sum: { amount: true }, _count: { _all: true } }),
+    ]);
+    const stats = (id: string | null) => ({
+      users: members.find((m) => m.referralProgramId === id)?._count._all ?? 0,
+      commissionsPaid: paid.find((p) => p.programId === id)?._count._all ?? 0,
+      totalPaid: paid.find((p) => p.programId === id)?._sum.amount ?? 0,
+    });
+
+    return success(res, {
+      programs: programs.map((p) => ({ ...p, tiers: programTiers(p), ...stats(p.id) })),
+      standard: { ...STANDARD_PROGRAM, ...stats(null) },
+    });
+  } catch (err) {
+    console.error("getReferralPrograms error:", err);
+    return error(res, "Failed to fetch referral programs", 500);
+  }
+}
+
+/**
+ * GET /api/admin/referral-programs/:id
+ */
+export async function getReferralProgram(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const program = await prisma.referralProgram.findUnique({ where: { id } });
+    if (!program) return error(res, "Referral program not found", 404);
+
+    const [users, recentCommissions] = await Promise.all([
+      prisma.user.count({ where: { referralProgramId: id } }),
+      prisma.referralCommission.findMany({ where: { programId: id }, orderBy: { createdAt: "desc" }, take: 50 }),
+    ]);
+
+    return success(res, { ...program, tiers: programTiers(program), users, recentCommissions });
+  } catch (err) {
+    console.error("getReferralProgram error:", err);
+    return error(res, "Failed to fetch referral program", 500);
+  }
+}
+
+/**
+ * POST /api/admin/referral-programs
+ */
+export async function createReferralProgram(req: Request, res: Response) {
+  try {
+    if (await campaignCodeTaken(req.body.campaignCode)) {
+      return error(res, "Another program already uses this campaign code", 409);
+    }
+
+    const program = await prisma.referralProgram.create({ data: req.body });
+    if (program.isDefault) await clearOtherDefaults(program.id);
+
+    return success(res, program, "Referral program created", 201);
+  } catch (err) {
+    console.error("createReferralProgram error:", err);
+    return error(res, "Failed to create referral program", 500);
+  }
+}
+
+/**
+ * Changes apply to everyone already on the program, not just new signups
+ * PATCH /api/admin/referral-programs/:id
+ */
+export async function updateReferralProgram(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.referralProgram.findUnique({ where: { id } });
+    if (!existing) return error(res, "Referral program not found", 404);
+
+    // Tier and window rules have to hold for the program as a whole, not just the patch
+    const { id: _id, createdAt: _c, updatedAt: _u, ...current } = existing;
+    const merged = createReferralProgramSchema.safeParse({ ...current, ...req.body });
+    if (!merged.success) {
+      return error(res, merged.error.issues[0].message, 400);
+    }
+
+    if (await campaignCodeTaken(req.body.campaignCode, id)) {
+      return error(res, "Another program already uses this campaign code", 409);
+    }
+
+    const program = await prisma.referralProgram.update({
+      where: { id },
+      data: req.body as Prisma.ReferralProgramUpdateInput,
+    });
+    if (program.isDefault) await clearOtherDefaults(program.id);
+
+    return success(res, program, "Referral program updated");
+  } catch (err) {
+    console.error("updateReferralProgram error:", err);
+    return error(res, "Failed to update referral program", 500);
+  }
+}
+
+/**
+ * Programs users have joined can only be deactivated
+ * DELETE /api/admin/referral-programs/:id
+ */
+export async function deleteReferralProgram(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.referralProgram.findUnique({ where: { id } });
+    if (!existing) return error(res, "Referral program not found", 404);
+
+    const users = await prisma.user.count({ where: { referralProgramId: id } });
+    if (users > 0) {
+      return error(res, `${users} user(s) are on this program — deactivate it instead`, 409);
+    }
+
+    await prisma.referralProgram.delete({ where: { id } });
+    return success(res, null, "Referral program deleted");
+  } catch (err) {
+    console.error("deleteReferralProgram error:", err);
+    return error(res, "Failed to delete referral program", 500);
+  }
+}
@@ -0,0 +1,167 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import {
+  importWatchlist,
+  resolveHit,
+  screenUser,
+  ScreeningError,
+  WATCHLIST_FORMATS,
+  WATCHLIST_TYPES,
+  WatchlistFormat,
+  WatchlistType,
+} from "../../services/screening.service.js";
+
+function handleScreeningError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof ScreeningError) {
+    return error(res, err.message, err.status);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, message, 500);
+}
+
+/**
+ * Load a sanctions / PEP list, or refresh the list with the same name.
+ * Verified users are re-screened in the background.
+ * POST /api/admin/screening/lists (multipart: list, name, type, format?)
+ */
+export async function importScreeningList(req: Request, res: Response) {
+  try {
+    const file = req.file as Express.Multer.File | undefined;
+    if (!file) return error(res, "No list uploaded", 400);
+
+    const { name, type, format } = req.body || {};
+    if (typeof name !== "string" || !name.trim()) {
+      return error(res, "name is required", 400);
+    }
+    if (!WATCHLIST_TYPES.includes(type)) {
+      return error(res, `type must be one of ${WATCHLIST_TYPES.join(", ")}`, 400);
+    }
+    if (format && !WATCHLIST_FORMATS.includes(format)) {
+      return error(res, `format must be one of ${WATCHLIST_FORMATS.join(", ")}`, 400);
+    }
+
+    const watchlist = await importWatchlist(req.userId!, file, {
+      name: name.trim(),
+      type: type as WatchlistType,
+      format: format as WatchlistFormat | undefined,
+    });
+
+    console.log(`🔎 Watchlist ${watchlist.name} v${watchlist.version} loaded: ${watchlist.entryCount} entries`);
+
+    return success(res, watchlist, "List imported. Verified users are being re-screened.", 201);
+  } catch (err) {
+    return handleScreeningError(res, err, "importScreeningList", "Failed to import list");
+  }
+}
+
+/**
+ * GET /api/admin/screening/lists
+ */
+export async function getScreeningLists(req: Request, res: Response) {
+  try {
+    const lists = await prisma.watchlist.findMany({ orderBy: { name: "asc" } });
+    return success(res, { lists });
+  } catch (err) {
+    return handleScreeningError(res, err, "getScreeningLists", "Failed to fetch lists");
+  }
+}
+
+/**
+ * Screening hits — the open queue by default
+ * GET /api/admin/screening/hits?status=open&userId=
+ */
+export async function getScreeningHits(req: Request, res: Response) {
+  try {
+    const { status = "open", userId, limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status !== "all") where.status = status;
+    if (userId) where.userId = userId;
+
+    const [hits, total] = await Promise.all([
+      prisma.screeningHit.findMany({
+        where,
+        orderBy: [{ score: "desc" }, { createdAt: "desc" }],
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.screeningHit.count({ where }),
+    ]);
+
+    return success(res, { hits, total });
+  } catch (err) {
+    return handleScreeningError(res, err, "getScreeningHits", "Failed to fetch screening hits");
+  }
+}
+
+/**
+ * A hit with the screened KYC details and the list entry side by side
+ * GET /api/admin/screening/hits/:id
+ */
+export async function getScreeningHit(req: Request, res: Response) {
+  try {
+    const hit = await prisma.screeningHit.findUnique({ where: { id: req.params.id as string } });
+    if (!hit) return error(res, "Screening hit not found", 404);
+
+    const [kyc, entry] = await Promise.all([
+      prisma.kYC.findUnique({
+        where: { id: hit.kycId },
+        select: {
+          id: true,
+          userId: true,
+          status: true,
+          fullName: true,
+          dateOfBirth: true,
+          nationality: true,
+          country: true,
+          screeningStatus: true,
+          screenedAt: true,
+          user: { select: { id: true, email: true, firstName: true, lastName: true } },
+        },
+      }),
+      // The live entry; null once the list no longer carries it
+      prisma.watchlist.findUnique({ where: { id: hit.watchlistId }, select: { version: true } }).then((list) =>
+        list
+          ? prisma.watchlistEntry.findFirst({
+              where: { watchlistId: hit.watchlistId, listVersion: list.version, entryKey: hit.entryKey },
+            })
+          : null
+      ),
+    ]);
+
+    return success(res, { hit, kyc, entry });
+  } catch (err) {
+    return handleScreeningError(res, err, "getScreeningHit", "Failed to fetch screening hit");
+  }
+}
+
+/**
+ * Confirm a hit as a true match or dismiss it as a false positive
+ * POST /api/admin/screening/hits/:id/resolve
+ */
+export async function resolveScreeningHit(req: Request, res: Response) {
+  try {
+    const { resolution, note } = req.body;
+    const hit = await resolveHit(req.params.id as string, req.userId!, resolution, note);
+
+    console.log(`🔎 Screening hit ${hit.id} (${hit.entryName}) marked ${resolution} by admin: ${req.userId}`);
+
+    return success(res, hit, resolution === "confirmed" ? "Hit confirmed" : "Hit dismissed as a false positive");
+  } catch (err) {
+    return handleScreeningError(res, err, "resolveScreeningHit", "Failed to resolve screening hit");
+  }
+}
+
+/**
+ * Screen a user against the current lists now
+ * POST /api/admin/screening/users/:userId/screen
+ */
+export async function screenUserNow(req: Request, res: Response) {
+  try {
+    const hits = await screenUser(req.params.userId as string);
+    return success(res, { hits }, hits.length > 0 ? `${hits.length} active hit(s)` : "No matches");
+  } catch (err) {
+    return handleScreeningError(res, err, "screenUserNow", "Failed to screen user");
+  }
+}
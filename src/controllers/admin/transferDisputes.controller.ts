@@ -0,0 +1,108 @@
+import { Request, Response } from "express";
+import { prisma } from "../../config/database.js";
+import { success, error } from "../../utils/response.js";
+import { InsufficientBalanceError } from "../../services/ledger.service.js";
+import {
+  openDispute,
+  getReversalPreview,
+  reverseDispute,
+  rejectDispute,
+  TransferDisputeError,
+} from "../../services/transferDispute.service.js";
+
+function handleDisputeError(res: Response, err: unknown, fn: string, message: string) {
+  if (err instanceof TransferDisputeError) {
+    return error(res, err.message, err.status);
+  }
+  if (err instanceof InsufficientBalanceError) {
+    return error(res, "The recipient's balance changed during the reversal — please try again", 409);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, message, 500);
+}
+
+/**
+ * GET /api/admin/transfer-disputes?status=open
+ */
+export async function getTransferDisputes(req: Request, res: Response) {
+  try {
+    const { status = "open", limit = "50", offset = "0" } = req.query;
+
+    const where: any = {};
+    if (status !== "all") where.status = status;
+
+    const [disputes, total] = await Promise.all([
+      prisma.transferDispute.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: parseInt(limit as string),
+        skip: parseInt(offset as string),
+      }),
+      prisma.transferDispute.count({ where }),
+    ]);
+
+    return success(res, { disputes, total });
+  } catch (err) {
+    return handleDisputeError(res, err, "getTransferDisputes", "Failed to fetch disputes");
+  }
+}
+
+/**
+ * A dispute with its transfer and how much a reversal could recover now
+ * GET /api/admin/transfer-disputes/:id
+ */
+export async function getTransferDispute(req: Request, res: Response) {
+  try {
+    const dispute = await prisma.transferDispute.findUnique({ where: { id: req.params.id as string } });
+    if (!dispute) return error(res, "Dispute not found", 404);
+
+    const preview = await getReversalPreview(dispute.transferId);
+    return success(res, { dispute, ...preview });
+  } catch (err) {
+    return handleDisputeError(res, err, "getTransferDispute", "Failed to fetch dispute");
+  }
+}
+
+/**
+ * Open a dispute on a user's behalf (e.g. from a support ticket)
+ * POST /api/admin/transfer-disputes
+ */
+export async function createTransferDispute(req: Request, res: Response) {
+  try {
+    const { transferId, reason, description } = req.body;
+    const dispute = await openDispute(transferId, req.userId!, { reason, description }, { asAdmin: true });
+    return success(res, dispute, "Dispute opened", 201);
+  } catch (err) {
+    return handleDisputeError(res, err, "createTransferDispute", "Failed to open dispute");
+  }
+}
+
+/**
+ * POST /api/admin/transfer-disputes/:id/reverse
+ */
+export async function reverseTransferDispute(req: Request, res: Response) {
+  try {
+    const dispute = await reverseDispute(req.params.id as string, req.userId!, req.body);
+    return success(
+      res,
+      dispute,
+      dispute.status === "reversed"
+        ? "Transfer reversed"
+        : `Partially reversed — recovered $${dispute.reversedAmount.toFixed(2)} of $${dispute.requestedAmount.toFixed(2)}`
+    );
+  } catch (err) {
+    return handleDisputeError(res, err, "reverseTransferDispute", "Failed to reverse transfer");
+  }
+}
+
+/**
+ * POST /api/admin/transfer-disputes/:id/reject
+ */
+export async function rejectTransferDispute(req: Request, res: Response) {
+  try {
+    const dispute = await rejectDispute(req.params.id as string, req.userId!, req.body.note);
+    return success(res, dispute, "Dispute rejected");
+  } catch (err) {
+    return handleDisputeError(res, err, "rejectTransferDispute", "Failed to reject dispute");
+  }
+}
@@ -3,6 +3,19 @@ import { Request, Response } from "express";
 import { prisma } from "../../config/database.js";
 import { success, error } from "../../utils/response.js";
 import { sendAdminReferralCommissionNotification, createInAppNotification } from "../../services/notification.service.js";
+import { refreshAmbassadorTier } from "../../services/ambassador.service.js";
+import { kycLevelOf, levelRank, setKycLevel } from "../../services/kyc.service.js";
+import {
+  creditUser,
+  debitUser,
+  getUserBalances,
+  postLedgerEntry,
+  InsufficientBalanceError,
+  PLATFORM_ACCOUNTS,
+  USER_BUCKETS,
+  UserBucket,
+} from "../../services/ledger.service.js";
+import { getLimitStatus, LIMIT_OPERATIONS } from "../../services/limits.service.js";
 
 export async function getAllUsers(req: Request, res: Response) {
   try {
@@ -70,7 +83,7 @@ export async function getUser(req: Request, res: Response) {
   try {
     const id = req.params.id as string;
 
-    const [user, referralCommissionsTx, profitsTx, bonusTx] = await Promise.all([
+    const [user, ledger] = await Promise.all([
       prisma.user.findUnique({
         where: { id },
         select: {
@@ -116,19 +129,7 @@ export async function getUser(req: Request, res: Response) {
           },
         },
       }),
-      // Compute referral commissions from transaction history (source of truth)
-      prisma.transaction.aggregate({
-        where: { userId: id, status: "completed", type: { in: ["referral", "admin_referralCommissions"] } },
-        _sum: { amount: true },
-      }),
-      prisma.transaction.aggregate({
-        where: { userId: id, status: "completed", type: { in: ["profit", "admin_profits"] } },
-        _sum: { amount: true },
-      }),
-      prisma.transaction.aggregate({
-        where: { userId: id, status: "completed", type: "admin_bonus" },
-        _sum: { amount: true },
-      }),
+      getUserBalances(id),
     ]);
 
     if (!user) {
@@ -138,10 +139,12 @@ export async function getUser(req: Request, res: Response) {
     const { sessions, ...rest } = user as typeof user & { sessions: Array<{ createdAt: Date; lastActive: Date | null; device: string; browser: string; os: string | null; location: string | null; ipAddress: string | null }> };
     return success(res, {
       ...rest,
-      // Override stale model fields with transaction-based totals
-      referralCommissions: referralCommissionsTx._sum.amount ?? 0,
-      profits: profitsTx._sum.amount ?? 0,
-      bonus: bonusTx._sum.amount ?? 0,
+      // Ledger is the source of truth; the model fields are only a mirror
+      balance: ledger.balance,
+      referralCommissions: ledger.earned.referralCommissions,
+      profits: ledger.earned.profits,
+      bonus: ledger.earned.bonus,
+      buckets: ledger.buckets,
       lastLoginAt: sessions[0]?.createdAt ?? null,
       lastActiveAt: sessions[0]?.lastActive ?? null,
       lastLoginDevice: sessions[0]?.device ?? null,
@@ -233,6 +236,16 @@ export async function updateUserKyc(req: Request, res: Response) {
       return error(res, "User not found", 404);
     }
 
+    // Keep the KYC level (and its history) in step with a manual status change
+    const level = kycLevelOf(existingUser);
+    if (kycStatus === "verified" && levelRank(level) < levelRank("basic")) {
+      await setKycLevel(id, "basic", req.userId ?? null, { reason: "KYC status set to verified" });
+    } else if (kycStatus !== "verified" && levelRank(level) >= levelRank("basic")) {
+      await setKycLevel(id, existingUser.emailVerified ? "email_verified" : "none", req.userId ?? null, {
+        reason: `KYC status set to ${kycStatus}`,
+      });
+    }
+
     const user = await prisma.user.update({
       where: { id },
       data: { kycStatus },
@@ -242,6 +255,7 @@ export async function updateUserKyc(req: Request, res: Response) {
         firstName: true,
         lastName: true,
         kycStatus: true,
+        kycLevel: true,
       },
     });
 
@@ -262,6 +276,60 @@ export async function updateUserKyc(req: Request, res: Response) {
   }
 }
 
+/**
+ * Effective limits per operation, with any overrides
+ * GET /api/admin/users/:id/limits
+ */
+export async function getUserLimits(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) return error(res, "User not found", 404);
+
+    const [limits, overrides] = await Promise.all([
+      Promise.all(LIMIT_OPERATIONS.map((operation) => getLimitStatus(id, operation))),
+      prisma.transactionLimitOverride.findMany({ where: { userId: id }, orderBy: { updatedAt: "desc" } }),
+    ]);
+
+    return success(res, { limits, overrides });
+  } catch (err) {
+    console.error("getUserLimits error:", err);
+    return error(res, "Failed to fetch user limits", 500);
+  }
+}
+
+/**
+ * Set (amount) or clear (amount: null) a user's limit for one operation and period
+ * PUT /api/admin/users/:id/limits
+ */
+export async function setUserLimitOverride(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const adminId = req.userId!;
+    const { operation, period, amount, note } = req.body;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) return error(res, "User not found", 404);
+
+    if (amount === null) {
+      await prisma.transactionLimitOverride.deleteMany({ where: { userId: id, operation, period } });
+    } else {
+      await prisma.transactionLimitOverride.upsert({
+        where: { userId_operation_period: { userId: id, operation, period } },
+        create: { userId: id, operation, period, amount, note, setBy: adminId },
+        update: { amount, note, setBy: adminId },
+      });
+    }
+
+    const limits = await getLimitStatus(id, operation);
+    return success(res, limits, amount === null ? "Limit override removed" : "Limit override saved");
+  } catch (err) {
+    console.error("setUserLimitOverride error:", err);
+    return error(res, "Failed to update user limit", 500);
+  }
+}
+
 export async function updateUserBalance(req: Request, res: Response) {
   try {
     const id = req.params.id as string;
@@ -295,51 +363,52 @@ export async function updateUserBalance(req: Request, res: Response) {
     const isDeduct = numAmount < 0;
     const absAmount = Math.abs(numAmount);
 
-    // For balance, the model field is always correct.
-    // For profits/referralCommissions/bonus, compute from transaction history
-    // because model fields may be stale (0) for users created before the schema migration.
-    let currentValue: number;
-    if (category === "balance") {
-      currentValue = existingUser.balance;
-    } else {
-      const TX_TYPES: Record<string, string[]> = {
-        profits: ["profit", "admin_profits"],
-        referralCommissions: ["referral", "admin_referralCommissions"],
-        bonus: ["admin_bonus"],
-      };
-      const txSum = await prisma.transaction.aggregate({
-        where: { userId: id, status: "completed", type: { in: TX_TYPES[category] } },
-        _sum: { amount: true },
-      });
-      currentValue = txSum._sum.amount ?? 0;
-    }
+    // "balance" additions land in the cash bucket and "balance" deductions come
+    // out of the whole spendable balance, as they always have; the other
+    // categories have their own bucket
+    const bucket: UserBucket = category === "balance" ? "cash" : category;
+    const ledger = await getUserBalances(id);
+    const currentValue = category === "balance" ? ledger.balance : ledger.buckets[bucket];
 
     if (isDeduct && currentValue < absAmount) {
       return error(res, `Deduction exceeds current ${categoryLabel.toLowerCase()} ($${currentValue.toFixed(2)})`, 400);
     }
 
-    // Sequential writes — avoids MongoDB Atlas session issues with $transaction batch form
-    // Also increment balance for non-balance categories so the credit reflects in the user's spendable balance
-    await prisma.user.update({
-      where: { id },
-      data: {
-        [category]: { increment: numAmount },
-        ...(category !== "balance" ? { balance: { increment: numAmount } } : {}),
-      } as any,
-    });
+    const description = note
+      ? note
+      : isDeduct
+        ? `Admin deducted $${absAmount.toLocaleString()} from ${categoryLabel.toLowerCase()}`
+        : `Admin added $${absAmount.toLocaleString()} to ${categoryLabel.toLowerCase()}`;
 
-    await prisma.transaction.create({
-      data: {
-        userId: id,
-        type: `admin_${category}`,
-        amount: numAmount,
-        status: "completed",
-        description: note
-          ? note
-          : isDeduct
-            ? `Admin deducted $${absAmount.toLocaleString()} from ${categoryLabel.toLowerCase()}`
-            : `Admin added $${absAmount.toLocaleString()} to ${categoryLabel.toLowerCase()}`,
-      },
+    await prisma.$transaction(async (tx) => {
+      if (isDeduct && category === "balance") {
+        await debitUser(tx, {
+          userId: id,
+          amount: absAmount,
+          to: PLATFORM_ACCOUNTS.adjustments,
+          type: "admin_adjustment",
+          description,
+        });
+      } else {
+        await creditUser(tx, {
+          userId: id,
+          bucket,
+          amount: numAmount,
+          from: PLATFORM_ACCOUNTS.adjustments,
+          type: "admin_adjustment",
+          description,
+        });
+      }
+
+      await tx.transaction.create({
+        data: {
+          userId: id,
+          type: `admin_${category}`,
+          amount: numAmount,
+          status: "completed",
+          description,
+        },
+      });
     });
 
     await createInAppNotification(
@@ -360,6 +429,9 @@ export async function updateUserBalance(req: Request, res: Response) {
 
     return success(res, updated, isDeduct ? `${categoryLabel} deducted` : `${categoryLabel} added`);
   } catch (err) {
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, `Deduction exceeds current balance ($${err.available.toFixed(2)})`, 400);
+    }
     console.error("Update balance error:", err);
     return error(res, "Failed to update balance", 500);
   }
@@ -384,9 +456,28 @@ export async function resetUser(req: Request, res: Response) {
       prisma.userInvestment.deleteMany({ where: { userId: id } }),
     ]);
 
-    await prisma.user.update({
-      where: { id },
-      data: { balance: 0, referredById: null },
+    // Ledger history is never deleted — zero every bucket with a compensating entry instead
+    const ledger = await getUserBalances(id);
+    const resetPostings = USER_BUCKETS
+      .filter((bucket) => ledger.buckets[bucket] !== 0)
+      .map((bucket) => ({ account: { userId: id, bucket }, amount: -ledger.buckets[bucket] }));
+
+    await prisma.$transaction(async (db) => {
+      if (resetPostings.length > 0) {
+        await postLedgerEntry(db, {
+          type: "admin_adjustment",
+          description: "Account reset by admin",
+          postings: [
+            ...resetPostings,
+            { account: { platform: PLATFORM_ACCOUNTS.adjustments }, amount: ledger.balance },
+          ],
+        });
+      }
+
+      await db.user.update({
+        where: { id },
+        data: { balance: 0, profits: 0, referralCommissions: 0, bonus: 0, referredById: null },
+      });
     });
 
     return success(res, {
@@ -462,9 +553,14 @@ export async function assignReferral(req: Request, res: Response) {
 
       if (numReward > 0) {
         // Credit referrer
-        await tx.user.update({
-          where: { id: referrer.id },
-          data: { balance: { increment: numReward } },
+        await creditUser(tx, {
+          userId: referrer.id,
+          bucket: "referralCommissions",
+          amount: numReward,
+          from: PLATFORM_ACCOUNTS.referralExpense,
+          type: "referral_commission",
+          reference: id,
+          description: `Referral commission for ${referredName} (assigned by admin)`,
         });
         await tx.transaction.create({
           data: {
@@ -486,9 +582,14 @@ export async function assignReferral(req: Request, res: Response) {
         });
 
         // Credit referred user
-        await tx.user.update({
-          where: { id },
-          data: { balance: { increment: numReward } },
+        await creditUser(tx, {
+          userId: id,
+          bucket: "referralCommissions",
+          amount: numReward,
+          from: PLATFORM_ACCOUNTS.referralExpense,
+          type: "referral_commission",
+          reference: referrer.id,
+          description: `Referral commission credited (referred by ${referrerName}, assigned by admin)`,
         });
         await tx.transaction.create({
           data: {
@@ -510,6 +611,11 @@ export async function assignReferral(req: Request, res: Response) {
       }
     }, { timeout: 15000 });
 
+    // Both referrers' ambassador tiers move with the reassignment
+    for (const referrerId of new Set([referrer.id, referredUser.referredById].filter(Boolean) as string[])) {
+      refreshAmbassadorTier(referrerId).catch((err) => console.error("Ambassador tier refresh error:", err));
+    }
+
     // Send real-time push + email to both users (non-blocking, outside the transaction)
     if (numReward > 0) {
       const referredName = `${referredUser.firstName} ${referredUser.lastName}`;
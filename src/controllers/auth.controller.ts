@@ -12,6 +12,10 @@ import { generateOtp, createOtp, verifyOtpCode } from "../utils/otp.js";
 import { sendOtpEmail, sendPasswordResetEmail } from "../services/email.service.js";
 import { sendLoginAlert, sendReferralSuccessNotification, sendWelcomeBonusNotification, notifyAdminNewUserSignup, notifyAdminUserSignin } from "../services/notification.service.js";
 import { getLocationString } from "../services/geolocation.service.js";
+import { creditUser, PLATFORM_ACCOUNTS } from "../services/ledger.service.js";
+import { claimPendingTransfers, findInvitingSender } from "../services/pendingTransfer.service.js";
+import { resolveSignupProgram, ReferralProgramError } from "../services/referralProgram.service.js";
+import { refreshAmbassadorTier } from "../services/ambassador.service.js";
 import { env } from "../config/env.js";
 import { setAuthCookies, setAccessTokenCookie, clearAuthCookies, getRefreshTokenFromCookies } from "../utils/cookies.js";
 import { verify2FACode } from "./twoFactor.controller.js";
@@ -27,7 +31,7 @@ function generateReferralCode(): string {
 
 export async function register(req: Request, res: Response) {
   try {
-    const { email, password, firstName, lastName, phone, referralCode: providedReferralCode } = req.body;
+    const { email, password, firstName, lastName, phone, referralCode: providedReferralCode, campaignCode } = req.body;
 
     // Normalize email to lowercase for case-insensitive lookups
     const normalizedEmail = email.toLowerCase().trim();
@@ -50,6 +54,18 @@ export async function register(req: Request, res: Response) {
       }
     }
 
+    // Someone invited by a transfer is referred by its sender unless they chose a code
+    const referredById = referrer?.id ?? (await findInvitingSender(normalizedEmail));
+
+    // The commission program this user's referrer earns under, fixed at signup
+    let referralProgramId: string | null;
+    try {
+      referralProgramId = await resolveSignupProgram(campaignCode);
+    } catch (err) {
+      if (err instanceof ReferralProgramError) return error(res, err.message, err.status);
+      throw err;
+    }
+
     const passwordHash = await hashPassword(password);
     const userReferralCode = generateReferralCode();
 
@@ -61,7 +77,8 @@ export async function register(req: Request, res: Response) {
         lastName,
         phone,
         referralCode: userReferralCode,
-        referredById: referrer?.id || null,
+        referredById,
+        referralProgramId,
         emailVerified: false, // Explicitly set to false
         accounts: {
           create: {
@@ -931,6 +948,11 @@ export async function verifyOtp(req: Request, res: Response) {
       data: { emailVerified: true },
     });
 
+    // Transfers sent to this email before the account existed
+    claimPendingTransfers(user.id, user.email).catch((err) =>
+      console.error("Error claiming pending transfers:", err)
+    );
+
     // Notify admin about new user signup
     console.log(`📧 Preparing to send admin signup notification for ${user.email}`);
     let referrer = null;
@@ -969,9 +991,14 @@ export async function verifyOtp(req: Request, res: Response) {
           });
 
           // Credit referrer bonus
-          await tx.user.update({
-            where: { id: user.referredById! },
-            data: { balance: { increment: REFERRAL_BONUS } },
+          await creditUser(tx, {
+            userId: user.referredById!,
+            bucket: "referralCommissions",
+            amount: REFERRAL_BONUS,
+            from: PLATFORM_ACCOUNTS.referralExpense,
+            type: "referral_bonus",
+            reference: user.id,
+            description: `Referral bonus for inviting ${user.firstName} ${user.lastName}`,
           });
 
           // Create transaction for referrer
@@ -986,9 +1013,14 @@ export async function verifyOtp(req: Request, res: Response) {
           });
 
           // Credit new user bonus
-          await tx.user.update({
-            where: { id: user.id },
-            data: { balance: { increment: REFERRAL_BONUS } },
+          await creditUser(tx, {
+            userId: user.id,
+            bucket: "referralCommissions",
+            amount: REFERRAL_BONUS,
+            from: PLATFORM_ACCOUNTS.referralExpense,
+            type: "referral_bonus",
+            reference: user.referredById!,
+            description: `Welcome bonus for joining via referral`,
           });
 
           // Create transaction for new user
@@ -1005,6 +1037,8 @@ export async function verifyOtp(req: Request, res: Response) {
 
         console.log(`✅ Referral bonus credited: $${REFERRAL_BONUS} to both referrer and new user`);
 
+        refreshAmbassadorTier(user.referredById!).catch((err) => console.error("Ambassador tier refresh error:", err));
+
         // Send notifications to both referrer and new user asynchronously
         const referrer = await prisma.user.findUnique({
           where: { id: user.referredById! },
@@ -1272,6 +1306,11 @@ export async function resetPassword(req: Request, res: Response) {
       console.log(`🔗 Created credentials account for OAuth user: ${user.email}`);
     }
 
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordChangedAt: new Date() },
+    });
+
     // Mark token as used
     await prisma.passwordReset.update({
       where: { token },
@@ -8,6 +8,10 @@ import {
   sendBuyNowEmailToAdmin,
   sendBuyNowConfirmationEmailToUser,
 } from "../services/email.service.js";
+import { placeBid, minimumNextBid, reserveMet, BidRejectedError } from "../services/auction.service.js";
+import { createPurchaseOrder, PurchaseOrderError } from "../services/purchaseOrder.service.js";
+import { InsufficientBalanceError } from "../services/ledger.service.js";
+import { KycLevelError } from "../services/kyc.service.js";
 
 export async function submitBid(req: Request, res: Response) {
   try {
@@ -20,15 +24,6 @@ export async function submitBid(req: Request, res: Response) {
       return error(res, "A valid bid amount is required.", 400);
     }
 
-    const property = await prisma.property.findUnique({
-      where: { id: propertyId, isActive: true },
-      select: { id: true, title: true, location: true, category: true, investmentStatus: true },
-    });
-
-    if (!property) return error(res, "Property not found.", 404);
-    if (property.category !== "for_sale") return error(res, "Bidding is only available for for-sale properties.", 400);
-    if (property.investmentStatus !== "available") return error(res, "This property is not currently accepting bids.", 400);
-
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: { id: true, firstName: true, email: true },
@@ -36,10 +31,7 @@ export async function submitBid(req: Request, res: Response) {
 
     if (!user) return error(res, "User not found.", 404);
 
-    await prisma.property.update({
-      where: { id: propertyId },
-      data: { bidCount: { increment: 1 }, recentBidAmount: bidAmount } as any,
-    });
+    const { bid, property, auctionEndsAt, bidCount } = await placeBid(userId, propertyId, bidAmount);
 
     const firstName = user.firstName || user.email.split("@")[0];
     const adminEmail = env.ADMIN_EMAIL;
@@ -55,8 +47,15 @@ export async function submitBid(req: Request, res: Response) {
 
     sendBidConfirmationEmailToUser(user.email, firstName, property.title, bidAmount).catch(() => {});
 
-    return success(res, { message: "Bid submitted successfully." });
+    return success(res, {
+      message: "Bid submitted successfully.",
+      bid,
+      bidCount,
+      auctionEndsAt,
+      minimumNextBid: bidAmount + property.minBidIncrement,
+    });
   } catch (err) {
+    if (err instanceof BidRejectedError || err instanceof KycLevelError) return error(res, err.message, err.status);
     console.error("submitBid error:", err);
     return error(res, "Failed to submit bid.", 500);
   }
@@ -66,15 +65,7 @@ export async function submitBuyNow(req: Request, res: Response) {
   try {
     const propertyId = String(req.params.id);
     const userId = (req as any).userId as string;
-
-    const property = await prisma.property.findUnique({
-      where: { id: propertyId, isActive: true },
-      select: { id: true, title: true, location: true, price: true, category: true, investmentStatus: true },
-    });
-
-    if (!property) return error(res, "Property not found.", 404);
-    if (property.category !== "for_sale") return error(res, "Direct purchase is only available for for-sale properties.", 400);
-    if (property.investmentStatus !== "available") return error(res, "This property is not currently available for purchase.", 400);
+    const note = typeof req.body?.note === "string" ? req.body.note.slice(0, 1000) : "";
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -83,6 +74,8 @@ export async function submitBuyNow(req: Request, res: Response) {
 
     if (!user) return error(res, "User not found.", 404);
 
+    const { order, property } = await createPurchaseOrder(userId, propertyId, note);
+
     const firstName = user.firstName || user.email.split("@")[0];
     const adminEmail = env.ADMIN_EMAIL;
 
@@ -100,9 +93,77 @@ export async function submitBuyNow(req: Request, res: Response) {
       { title: property.title, location: property.location, price: property.price }
     ).catch(() => {});
 
-    return success(res, { message: "Purchase request sent successfully." });
+    return success(res, { message: "Purchase request sent successfully.", order });
   } catch (err) {
+    if (err instanceof PurchaseOrderError || err instanceof KycLevelError) return error(res, err.message, err.status);
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, `Insufficient balance for the earnest money deposit of $${err.requested.toLocaleString()}.`, 400);
+    }
     console.error("submitBuyNow error:", err);
     return error(res, "Failed to submit purchase request.", 500);
   }
 }
+
+/**
+ * Bid history for a property. Other bidders are shown as "Bidder N" (numbered
+ * by first bid); the caller's own bids are flagged.
+ */
+export async function getBidHistory(req: Request, res: Response) {
+  try {
+    const propertyId = String(req.params.id);
+    const userId = (req as any).userId as string;
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId, isActive: true },
+      select: {
+        id: true,
+        category: true,
+        bidCount: true,
+        recentBidAmount: true,
+        startingBid: true,
+        minBidIncrement: true,
+        reservePrice: true,
+        auctionEndsAt: true,
+        auctionStatus: true,
+      },
+    });
+
+    if (!property) return error(res, "Property not found.", 404);
+    if (property.category !== "for_sale") return error(res, "Bidding is only available for for-sale properties.", 400);
+
+    const bids = await prisma.bid.findMany({
+      where: { propertyId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const bidderNumbers = new Map<string, number>();
+    const history = bids.map((b) => {
+      if (!bidderNumbers.has(b.userId)) bidderNumbers.set(b.userId, bidderNumbers.size + 1);
+      const isYou = b.userId === userId;
+      return {
+        id: b.id,
+        bidder: isYou ? "You" : `Bidder ${bidderNumbers.get(b.userId)}`,
+        isYou,
+        amount: b.amount,
+        status: b.status,
+        extendedAuction: b.extendedAuction,
+        createdAt: b.createdAt,
+      };
+    }).reverse();
+
+    return success(res, {
+      auction: {
+        status: property.auctionStatus,
+        endsAt: property.auctionEndsAt,
+        bidCount: property.bidCount,
+        currentBid: property.recentBidAmount,
+        minimumNextBid: minimumNextBid(property),
+        reserveMet: reserveMet(property),
+      },
+      bids: history,
+    });
+  } catch (err) {
+    console.error("getBidHistory error:", err);
+    return error(res, "Failed to fetch bid history.", 500);
+  }
+}
@@ -1,12 +1,28 @@
 import { Request, Response } from "express";
 import crypto from "crypto";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
+import {
+  CAPABILITY_LEVELS,
+  KYC_LEVEL_LABELS,
+  kycAllows,
+  kycLevelOf,
+  kycLevelSelect,
+  needsReverification,
+} from "../services/kyc.service.js";
 import { notifyAdminManualDeposit, notifyAdminWithdrawal, notifyAdminPaymentReceipt } from "../services/notification.service.js";
 import { verify2FACode } from "./twoFactor.controller.js";
+import { InsufficientBalanceError } from "../services/ledger.service.js";
+import { quoteFee } from "../services/fee.service.js";
+import { assertWithinLimits, getLimitStatus, LimitExceededError } from "../services/limits.service.js";
+import { requireUsableDestination, PayoutDestinationError } from "../services/payoutDestination.service.js";
+import { checkCryptoDeposit } from "../services/chainWatcher.service.js";
+import { getDepositReference } from "../services/reconciliation.service.js";
+import { requestWithdrawal } from "../services/fundOperation.service.js";
 
 /**
- * Check withdrawal authorization status (2FA + KYC)
+ * Check withdrawal authorization status (2FA + KYC + limits)
  * GET /api/fund-operations/withdrawal-authorization
  */
 export async function getWithdrawalAuthorizationStatus(req: Request, res: Response) {
@@ -17,7 +33,7 @@ export async function getWithdrawalAuthorizationStatus(req: Request, res: Respon
       where: { id: userId },
       select: {
         twoFactorEnabled: true,
-        kycStatus: true,
+        ...kycLevelSelect,
       },
     });
 
@@ -25,16 +41,28 @@ export async function getWithdrawalAuthorizationStatus(req: Request, res: Respon
       return error(res, "User not found", 404);
     }
 
+    const [limits, depositLimits] = await Promise.all([
+      getLimitStatus(userId, "withdrawal"),
+      getLimitStatus(userId, "deposit"),
+    ]);
+
     const twoFactorEnabled = user.twoFactorEnabled;
-    const kycVerified = user.kycStatus === "verified";
-    const canWithdraw = twoFactorEnabled && kycVerified;
+    const kycLevel = kycLevelOf(user);
+    const kycVerified = kycAllows(user, "withdraw");
+    const limitReached = limits.windows.some((w) => w.remaining <= 0);
+    const canWithdraw = twoFactorEnabled && kycVerified && !limitReached;
 
     const reasons: string[] = [];
     if (!twoFactorEnabled) {
       reasons.push("Two-factor authentication must be enabled");
     }
-    if (!kycVerified) {
-      reasons.push("KYC verification required");
+    if (needsReverification(user)) {
+      reasons.push("KYC re-verification required");
+    } else if (!kycVerified) {
+      reasons.push(`${KYC_LEVEL_LABELS[CAPABILITY_LEVELS.withdraw]} KYC level required`);
+    }
+    if (kycVerified && limitReached) {
+      reasons.push("Withdrawal limit reached");
     }
 
     return success(res, {
@@ -42,13 +70,60 @@ export async function getWithdrawalAuthorizationStatus(req: Request, res: Respon
       twoFactorEnabled,
       kycVerified,
       kycStatus: user.kycStatus,
+      kycLevel,
       reasons,
+      limits,
+      depositLimits,
     });
   } catch (err) {
     return error(res, "Failed to check authorization status", 500);
   }
 }
 
+/**
+ * Quote the fee for a deposit or withdrawal before confirming it
+ * GET /api/fund-operations/fee-quote?type=withdrawal&method=bank&amount=500
+ */
+export async function getFundOperationFeeQuote(req: Request, res: Response) {
+  try {
+    const { type, method } = req.query;
+    const amount = parseFloat(req.query.amount as string);
+
+    if (type !== "deposit" && type !== "withdrawal") {
+      return error(res, "type must be 'deposit' or 'withdrawal'", 400);
+    }
+    if (!["bank", "crypto", "card"].includes(method as string)) {
+      return error(res, "Invalid payment method", 400);
+    }
+    if (isNaN(amount) || amount <= 0) {
+      return error(res, "Invalid amount", 400);
+    }
+
+    const quote = await quoteFee(type, method as string, amount);
+    return success(res, quote);
+  } catch (err) {
+    console.error("getFundOperationFeeQuote error:", err);
+    return error(res, "Failed to quote fee", 500);
+  }
+}
+
+/**
+ * The code to put in the memo of every bank transfer so it's matched automatically
+ * GET /api/fund-operations/deposit-reference
+ */
+export async function getMyDepositReference(req: Request, res: Response) {
+  try {
+    const { code } = await getDepositReference(req.userId!);
+    return success(res, {
+      code,
+      instructions: `Put ${code} in the reference / memo field of your bank transfer so we can match it to your account.`,
+    });
+  } catch (err) {
+    console.error("getMyDepositReference error:", err);
+    return error(res, "Failed to fetch deposit reference", 500);
+  }
+}
+
 /**
  * Create a deposit request
  * POST /api/fund-operations/deposit
@@ -69,9 +144,13 @@ export async function createDeposit(req: Request, res: Response) {
       return error(res, "Amount must be between $100 and $10,000,000", 400);
     }
 
+    await assertWithinLimits(userId, "deposit", numAmount);
+
     // Generate unique reference
     const reference = `DEP-${Date.now()}-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
 
+    const { fee } = await quoteFee("deposit", method, numAmount);
+
     // Create fund operation
     const fundOperation = await prisma.fundOperation.create({
       data: {
@@ -79,20 +158,25 @@ export async function createDeposit(req: Request, res: Response) {
         type: "deposit",
         method,
         amount: numAmount,
-        fee: 0,
+        fee,
         status: "pending",
         details: JSON.stringify(details || {}),
         reference,
       },
     });
 
+    // Bank transfers are matched against statements by the user's deposit code
+    const depositCode = method === "bank" ? (await getDepositReference(userId)).code : null;
+
     // Create in-app notification for user
     await prisma.notification.create({
       data: {
         userId,
         type: "system",
         title: "Deposit Request Submitted",
-        message: `Your deposit request of $${numAmount.toLocaleString()} via ${method} has been submitted. Reference: ${reference}`,
+        message: depositCode
+          ? `Your deposit request of $${numAmount.toLocaleString()} via bank has been submitted. Include ${depositCode} in your transfer memo. Reference: ${reference}`
+          : `Your deposit request of $${numAmount.toLocaleString()} via ${method} has been submitted. Reference: ${reference}`,
       },
     });
 
@@ -113,8 +197,11 @@ export async function createDeposit(req: Request, res: Response) {
 
     console.log(`💰 Deposit request created: ${reference} - $${numAmount} via ${method} for user ${userId}`);
 
-    return success(res, fundOperation, "Deposit request created successfully");
+    return success(res, { ...fundOperation, depositCode }, "Deposit request created successfully");
   } catch (err) {
+    if (err instanceof LimitExceededError) {
+      return error(res, err.message, 403);
+    }
     console.error("createDeposit error:", err);
     return error(res, "Failed to create deposit request", 500);
   }
@@ -127,7 +214,7 @@ export async function createDeposit(req: Request, res: Response) {
 export async function createWithdrawal(req: Request, res: Response) {
   try {
     const userId = req.userId!;
-    const { method, amount, details, twoFactorCode } = req.body;
+    const { method, amount, destinationId, twoFactorCode } = req.body;
 
     const numAmount = parseFloat(amount);
     if (isNaN(numAmount) || numAmount <= 0) {
@@ -143,7 +230,7 @@ export async function createWithdrawal(req: Request, res: Response) {
         email: true,
         twoFactorEnabled: true,
         twoFactorSecret: true,
-        kycStatus: true,
+        ...kycLevelSelect,
       },
     });
 
@@ -160,8 +247,15 @@ export async function createWithdrawal(req: Request, res: Response) {
       );
     }
 
-    // Check KYC verification status
-    if (user.kycStatus !== "verified") {
+    // Check KYC level
+    if (needsReverification(user)) {
+      return error(
+        res,
+        "Please re-verify your identity to make withdrawals. You can resubmit your KYC documents in settings.",
+        403
+      );
+    }
+    if (!kycAllows(user, "withdraw")) {
       return error(
         res,
         "KYC verification is required to make withdrawals. Please complete KYC verification in settings.",
@@ -179,29 +273,11 @@ export async function createWithdrawal(req: Request, res: Response) {
       return error(res, "Invalid 2FA code. Please try again.", 401);
     }
 
-    const userRecord = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { balance: true },
-    });
-
-    if (!userRecord || userRecord.balance < numAmount) {
-      return error(res, "Insufficient balance", 400);
-    }
+    // Only confirmed destinations past their cooling-off period
+    const destination = await requireUsableDestination(userId, destinationId, method);
 
-    const reference = `WTH-${Date.now()}-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
-
-    const fundOperation = await prisma.fundOperation.create({
-      data: {
-        userId,
-        type: "withdrawal",
-        method,
-        amount: numAmount,
-        fee: 0,
-        status: "pending",
-        details: JSON.stringify(details || {}),
-        reference,
-      },
-    });
+    const fundOperation = await requestWithdrawal(userId, { method, amount: numAmount, destination });
+    const { reference } = fundOperation;
 
     // In-app notification
     await prisma.notification.create({
@@ -214,9 +290,8 @@ export async function createWithdrawal(req: Request, res: Response) {
     });
 
     // Always notify admin for withdrawals (they must manually process them)
-    const parsedDetails = details ? JSON.parse(JSON.stringify(details)) : {};
     const userName = `${user.firstName} ${user.lastName}`;
-    notifyAdminWithdrawal(userName, user.email, numAmount, method, reference, parsedDetails).catch(
+    notifyAdminWithdrawal(userName, user.email, numAmount, method, reference, JSON.parse(destination.details)).catch(
       (err) => console.error("Admin withdrawal email error:", err)
     );
 
@@ -224,6 +299,15 @@ export async function createWithdrawal(req: Request, res: Response) {
 
     return success(res, fundOperation, "Withdrawal request submitted successfully");
   } catch (err) {
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "Insufficient balance (including fees and pending withdrawals)", 400);
+    }
+    if (err instanceof LimitExceededError) {
+      return error(res, err.message, 403);
+    }
+    if (err instanceof PayoutDestinationError) {
+      return error(res, err.message, err.status);
+    }
     console.error("createWithdrawal error:", err);
     return error(res, "Failed to submit withdrawal request", 500);
   }
@@ -285,6 +369,89 @@ export async function uploadReceipt(req: Request, res: Response) {
   }
 }
 
+/**
+ * Attach the on-chain transaction for a crypto deposit so it can be confirmed automatically
+ * POST /api/fund-operations/crypto-tx
+ */
+export async function submitCryptoTransaction(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { reference, walletId, cryptoAmount } = req.body;
+    // EVM hashes are hex and case-insensitive; others are kept as entered
+    const rawHash = String(req.body.txHash).trim();
+    const txHash = rawHash.startsWith("0x") ? rawHash.toLowerCase() : rawHash;
+
+    const fundOp = await prisma.fundOperation.findFirst({
+      where: { reference, userId },
+    });
+
+    if (!fundOp) {
+      return error(res, "Fund operation not found", 404);
+    }
+    if (fundOp.type !== "deposit" || fundOp.method !== "crypto") {
+      return error(res, "Only crypto deposits take a transaction hash", 400);
+    }
+    if (fundOp.status !== "pending") {
+      return error(res, "This deposit has already been processed", 400);
+    }
+    // Once the watcher has seen the transaction it can't be swapped for another one
+    if (fundOp.chainStatus === "confirming" || fundOp.chainStatus === "verified") {
+      return error(res, "A transaction is already being confirmed for this deposit", 409);
+    }
+
+    const wallet = await prisma.paymentWallet.findFirst({
+      where: { id: walletId, type: "crypto", isActive: true },
+    });
+    if (!wallet) {
+      return error(res, "Payment wallet not found", 404);
+    }
+
+    const reused = await prisma.fundOperation.findFirst({
+      where: { txHash, id: { not: fundOp.id } },
+      select: { id: true },
+    });
+    if (reused) {
+      return error(res, "This transaction has already been submitted for another deposit", 409);
+    }
+
+    // The unique claim settles two deposits racing for the same hash
+    try {
+      await prisma.cryptoTxClaim.create({ data: { txHash, fundOperationId: fundOp.id } });
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+      const claim = await prisma.cryptoTxClaim.findUnique({ where: { txHash } });
+      if (claim?.fundOperationId !== fundOp.id) {
+        return error(res, "This transaction has already been submitted for another deposit", 409);
+      }
+    }
+    // A hash swapped out for a new one is free for its real deposit again
+    await prisma.cryptoTxClaim.deleteMany({ where: { fundOperationId: fundOp.id, txHash: { not: txHash } } });
+
+    const updated = await prisma.fundOperation.update({
+      where: { id: fundOp.id },
+      data: {
+        walletId: wallet.id,
+        txHash,
+        cryptoAmount,
+        confirmations: 0,
+        chainStatus: "submitted",
+        chainNote: "",
+        chainCheckedAt: null,
+      },
+    });
+
+    // First look right away; the background job keeps checking after that
+    checkCryptoDeposit(updated.id).catch((err) => console.error("Crypto deposit check error:", err));
+
+    console.log(`⛓️  Crypto tx submitted for ${reference} by user ${userId}: ${txHash}`);
+
+    return success(res, updated, "Transaction submitted — your deposit will be credited once it is confirmed");
+  } catch (err) {
+    console.error("submitCryptoTransaction error:", err);
+    return error(res, "Failed to submit transaction", 500);
+  }
+}
+
 /**
  * Get user's fund operations
  * GET /api/fund-operations
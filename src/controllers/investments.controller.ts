@@ -1,6 +1,13 @@
 import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
+import { createInAppNotification } from "../services/notification.service.js";
+import { debitUser, getUserBalance, InsufficientBalanceError, PLATFORM_ACCOUNTS } from "../services/ledger.service.js";
+import { maturityDate, quoteEarlyExit } from "../services/investmentLifecycle.service.js";
+import { investInProperty, InvestmentRejectedError } from "../services/investment.service.js";
+import { processReferralCommissions } from "../services/referralProgram.service.js";
+import { assertCanInvest, KycLevelError } from "../services/kyc.service.js";
+import { withConflictRetry } from "../utils/retry.js";
 
 export async function getUserInvestments(req: Request, res: Response) {
   try {
@@ -53,6 +60,11 @@ export async function getUserInvestments(req: Request, res: Response) {
         expectedReturn,
         monthlyReturn,
         expectedTotal,
+        payoutsMade: inv.payoutsMade,
+        lastPayoutAt: inv.lastPayoutAt,
+        maturesAt: isProperty && inv.property ? maturityDate(inv.createdAt, inv.property.duration) : null,
+        closedAt: inv.closedAt,
+        principalReturned: inv.principalReturned,
       };
     });
 
@@ -81,26 +93,34 @@ export async function createInvestment(req: Request, res: Response) {
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: { balance: true },
+      select: { id: true },
     });
 
     if (!user) {
       return error(res, "User not found", 404);
     }
 
-    if (user.balance < amount) {
+    if ((await getUserBalance(userId)) < amount) {
       return error(res, "Insufficient balance");
     }
 
-    const [investment] = await prisma.$transaction([
-      prisma.userInvestment.create({
+    await assertCanInvest(userId, amount);
+
+    const investment = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+      const inv = await tx.userInvestment.create({
         data: { userId, investmentOptionId, amount, status: "active" },
-      }),
-      prisma.user.update({
-        where: { id: userId },
-        data: { balance: { decrement: amount } },
-      }),
-      prisma.transaction.create({
+      });
+
+      await debitUser(tx, {
+        userId,
+        amount,
+        to: PLATFORM_ACCOUNTS.investments,
+        type: "investment",
+        reference: inv.id,
+        description: `Investment in ${option.title}`,
+      });
+
+      await tx.transaction.create({
         data: {
           userId,
           type: "investment",
@@ -109,11 +129,23 @@ export async function createInvestment(req: Request, res: Response) {
           description: `Investment in ${option.title}`,
           reference: investmentOptionId,
         },
-      }),
-    ]);
+      });
+
+      return inv;
+    }));
+
+    processReferralCommissions(userId, { trigger: "investment", sourceId: investment.id, amount }).catch((e: unknown) =>
+      console.error("Referral commission processing error:", e)
+    );
 
     return success(res, investment, "Investment created", 201);
   } catch (err) {
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "Insufficient balance");
+    }
+    if (err instanceof KycLevelError) {
+      return error(res, err.message, err.status);
+    }
     return error(res, "Failed to create investment", 500);
   }
 }
@@ -147,133 +179,175 @@ export async function createPropertyInvestment(req: Request, res: Response) {
       return error(res, "Invalid investment amount", 400);
     }
 
-    const property = await prisma.property.findUnique({
-      where: { id: propertyId, isActive: true },
-      include: {
-        userInvestments: {
-          where: { status: "active" },
-          select: { amount: true, userId: true },
-        },
-      },
-    });
+    const balance = await getUserBalance(userId);
 
-    if (!property) {
-      return error(res, "Property not found", 404);
+    if (balance < numAmount) {
+      return error(res, "Insufficient balance", 400);
     }
 
-    // Compute current funding dynamically from active investments
-    const currentFunded = property.userInvestments.reduce((sum, inv) => sum + inv.amount, 0);
+    await assertCanInvest(userId, numAmount);
+    const { investment, isTopUp } = await investInProperty(userId, propertyId, numAmount);
 
-    // Check if user already has an active investment in this property
-    const existingInvestment = await prisma.userInvestment.findFirst({
-      where: { userId, propertyId, status: "active" },
-    });
+    return success(res, { id: investment.id }, isTopUp ? "Top-up successful" : "Investment successful", 201);
+  } catch (err) {
+    if (err instanceof InvestmentRejectedError || err instanceof KycLevelError) {
+      return error(res, err.message, err.status);
+    }
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "Insufficient balance", 400);
+    }
+    console.error("createPropertyInvestment error:", err);
+    return error(res, "Failed to create investment", 500);
+  }
+}
 
-    const isTopUp = !!existingInvestment;
+/**
+ * What the user would get back if they exited this investment early
+ * GET /api/investments/:id/exit-quote
+ */
+export async function getExitQuote(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    const investment = await prisma.userInvestment.findFirst({
+      where: { id, userId },
+      select: { amount: true, status: true },
+    });
 
-    if (property.investmentStatus !== "available" || (currentFunded >= property.targetAmount && property.targetAmount > 0)) {
-      return error(res, "Property is not available for investment", 400);
+    if (!investment) {
+      return error(res, "Investment not found", 404);
     }
 
-    if (numAmount < property.minInvestment) {
-      return error(res, `Minimum investment is $${property.minInvestment}`, 400);
+    if (investment.status !== "active") {
+      return error(res, "Only active investments can be exited", 400);
     }
 
-    // For max investment, check against new total
-    const newTotal = isTopUp ? existingInvestment.amount + numAmount : numAmount;
-    if (newTotal > property.maxInvestment) {
-      return error(res, `Maximum investment is $${property.maxInvestment}${isTopUp ? ` (current: $${existingInvestment.amount})` : ""}`, 400);
+    return success(res, quoteEarlyExit(investment.amount));
+  } catch (err) {
+    console.error("getExitQuote error:", err);
+    return error(res, "Failed to quote early exit", 500);
+  }
+}
+
+/**
+ * Request an early exit — principal minus the penalty is returned once an admin approves
+ * POST /api/investments/:id/exit
+ */
+export async function requestEarlyExit(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+    const { reason } = req.body;
+
+    const investment = await prisma.userInvestment.findFirst({
+      where: { id, userId },
+      include: { property: { select: { title: true } }, investmentOption: { select: { title: true } } },
+    });
+
+    if (!investment) {
+      return error(res, "Investment not found", 404);
     }
 
-    if (property.investmentType === "pooled") {
-      const remaining = property.targetAmount - currentFunded;
-      if (numAmount > remaining) {
-        return error(res, `Only $${remaining} remaining in this pool`, 400);
-      }
+    if (investment.status !== "active") {
+      return error(res, "Only active investments can be exited", 400);
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { balance: true },
+    const pending = await prisma.investmentExitRequest.findFirst({
+      where: { investmentId: id, status: "pending" },
     });
 
-    if (!user || user.balance < numAmount) {
-      return error(res, "Insufficient balance", 400);
+    if (pending) {
+      return error(res, "An exit request for this investment is already pending", 409);
     }
 
-    const newFunded = currentFunded + numAmount;
-    const newStatus = newFunded >= property.targetAmount ? "fully-funded" : property.investmentStatus;
+    const listed = await prisma.shareListing.findFirst({
+      where: { investmentId: id, status: "open" },
+    });
 
-    const investment = await prisma.$transaction(async (tx) => {
-      let inv;
+    if (listed) {
+      return error(res, "Cancel your secondary market listing for this investment before requesting an exit", 409);
+    }
 
-      if (isTopUp) {
-        // Top-up: update existing investment record
-        inv = await tx.userInvestment.update({
-          where: { id: existingInvestment.id },
-          data: { amount: { increment: numAmount } },
-        });
-      } else {
-        // New investment: create new record
-        inv = await tx.userInvestment.create({
-          data: {
-            userId,
-            propertyId,
-            amount: numAmount,
-            expectedROI: property.expectedROI,
-            monthlyReturn: property.monthlyReturn,
-            status: "active",
-          },
-        });
-      }
+    const quote = quoteEarlyExit(investment.amount);
+
+    const request = await prisma.investmentExitRequest.create({
+      data: {
+        investmentId: id,
+        userId,
+        reason,
+        principal: quote.principal,
+        penaltyRate: quote.penaltyRate,
+        penaltyAmount: quote.penaltyAmount,
+        payoutAmount: quote.payoutAmount,
+      },
+    });
 
-      // Always record transaction history
-      await tx.transaction.create({
-        data: {
-          userId,
-          type: "investment",
-          amount: -numAmount,
-          status: "completed",
-          description: isTopUp
-            ? `Top-up investment: ${property.title}`
-            : `Property investment: ${property.title}`,
-          reference: propertyId,
-        },
-      });
+    const title = investment.property?.title ?? investment.investmentOption?.title ?? "your investment";
+    await createInAppNotification(
+      userId,
+      "investment",
+      "Exit Request Submitted",
+      `Your early exit request for "${title}" is pending review. If approved, $${quote.payoutAmount.toLocaleString()} will be returned to your balance.`
+    );
 
-      // Deduct from user balance
-      await tx.user.update({
-        where: { id: userId },
-        data: { balance: { decrement: numAmount } },
-      });
+    return success(res, request, "Exit request submitted", 201);
+  } catch (err) {
+    console.error("requestEarlyExit error:", err);
+    return error(res, "Failed to submit exit request", 500);
+  }
+}
 
-      // Update property funding; only increment investorCount for new investors
-      await tx.property.update({
-        where: { id: propertyId },
-        data: {
-          currentFunded: { increment: numAmount },
-          ...(isTopUp ? {} : { investorCount: { increment: 1 } }),
-          investmentStatus: newStatus,
-        },
-      });
+/**
+ * GET /api/investments/exit-requests
+ */
+export async function getMyExitRequests(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
 
-      await tx.notification.create({
-        data: {
-          userId,
-          type: "investment",
-          title: isTopUp ? "Top-Up Confirmed" : "Investment Confirmed",
-          message: isTopUp
-            ? `Your top-up of $${numAmount.toLocaleString()} in "${property.title}" has been confirmed. Total investment: $${(existingInvestment.amount + numAmount).toLocaleString()}.`
-            : `Your investment of $${numAmount.toLocaleString()} in "${property.title}" has been confirmed.`,
+    const requests = await prisma.investmentExitRequest.findMany({
+      where: { userId },
+      include: {
+        investment: {
+          select: {
+            amount: true,
+            status: true,
+            property: { select: { id: true, title: true } },
+            investmentOption: { select: { id: true, title: true } },
+          },
         },
-      });
+      },
+      orderBy: { createdAt: "desc" },
+    });
 
-      return inv;
+    return success(res, requests);
+  } catch (err) {
+    console.error("getMyExitRequests error:", err);
+    return error(res, "Failed to fetch exit requests", 500);
+  }
+}
+
+/**
+ * Withdraw a pending exit request
+ * POST /api/investments/exit-requests/:id/cancel
+ */
+export async function cancelExitRequest(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    const { count } = await prisma.investmentExitRequest.updateMany({
+      where: { id, userId, status: "pending" },
+      data: { status: "cancelled" },
     });
 
-    return success(res, { id: investment.id }, isTopUp ? "Top-up successful" : "Investment successful", 201);
+    if (count === 0) {
+      return error(res, "Pending exit request not found", 404);
+    }
+
+    return success(res, null, "Exit request cancelled");
   } catch (err) {
-    console.error("createPropertyInvestment error:", err);
-    return error(res, "Failed to create investment", 500);
+    console.error("cancelExitRequest error:", err);
+    return error(res, "Failed to cancel exit request", 500);
   }
 }
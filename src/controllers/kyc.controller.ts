@@ -2,6 +2,20 @@ import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
 import { notifyAdminKYCSubmission } from "../services/notification.service.js";
+import {
+  KYC_LEVEL_LABELS,
+  SUBMITTABLE_LEVELS,
+  SubmittableLevel,
+  documentExpiryProblem,
+  kycLevelOf,
+  kycLevelSelect,
+  levelCapabilities,
+  levelRank,
+  missingForLevel,
+  needsReverification,
+} from "../services/kyc.service.js";
+import { archiveUnversionedSubmission, recordSubmissionVersion } from "../services/kycSubmission.service.js";
+import { screenUser } from "../services/screening.service.js";
 
 interface MulterFile {
   path: string;
@@ -9,40 +23,53 @@ interface MulterFile {
   originalname: string;
 }
 
+const statusSelect = {
+  id: true,
+  level: true,
+  fullName: true,
+  dateOfBirth: true,
+  nationality: true,
+  address: true,
+  city: true,
+  state: true,
+  postalCode: true,
+  country: true,
+  idFrontUrl: true,
+  idBackUrl: true,
+  proofOfAddressUrl: true,
+  selfieUrl: true,
+  sourceOfFunds: true,
+  sourceOfFundsDocUrl: true,
+  documentType: true,
+  documentNumber: true,
+  documentExpiresAt: true,
+  status: true,
+  submittedAt: true,
+  reviewedAt: true,
+  rejectionReason: true,
+  reverificationReason: true,
+  reverificationRequestedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
 /**
- * Get KYC status and details for the authenticated user
+ * Get KYC level, what it unlocks, and the current submission
  * GET /api/kyc/status
  */
 export async function getKYCStatus(req: Request, res: Response) {
   try {
     const userId = req.userId!;
 
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: kycLevelSelect });
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
     // Get or create KYC record
     let kyc = await prisma.kYC.findUnique({
       where: { userId },
-      select: {
-        id: true,
-        fullName: true,
-        dateOfBirth: true,
-        nationality: true,
-        address: true,
-        city: true,
-        state: true,
-        postalCode: true,
-        country: true,
-        idFrontUrl: true,
-        idBackUrl: true,
-        proofOfAddressUrl: true,
-        selfieUrl: true,
-        documentType: true,
-        documentNumber: true,
-        status: true,
-        submittedAt: true,
-        reviewedAt: true,
-        rejectionReason: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: statusSelect,
     });
 
     // If no KYC record exists, create one with default values
@@ -52,33 +79,24 @@ export async function getKYCStatus(req: Request, res: Response) {
           userId,
           status: "not_submitted",
         },
-        select: {
-          id: true,
-          fullName: true,
-          dateOfBirth: true,
-          nationality: true,
-          address: true,
-          city: true,
-          state: true,
-          postalCode: true,
-          country: true,
-          idFrontUrl: true,
-          idBackUrl: true,
-          proofOfAddressUrl: true,
-          selfieUrl: true,
-          documentType: true,
-          documentNumber: true,
-          status: true,
-          submittedAt: true,
-          reviewedAt: true,
-          rejectionReason: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: statusSelect,
       });
     }
 
-    return success(res, { kyc });
+    const level = kycLevelOf(user);
+    const reverificationRequired = needsReverification(user);
+    const nextLevel = SUBMITTABLE_LEVELS.find((l) => levelRank(l) > levelRank(level)) ?? null;
+
+    return success(res, {
+      kyc,
+      level,
+      levelLabel: KYC_LEVEL_LABELS[level],
+      reverificationRequired,
+      capabilities: levelCapabilities(level, reverificationRequired),
+      nextLevel: nextLevel
+        ? { level: nextLevel, label: KYC_LEVEL_LABELS[nextLevel], capabilities: levelCapabilities(nextLevel) }
+        : null,
+    });
   } catch (err) {
     console.error("Get KYC status error:", err);
     return error(res, "Failed to retrieve KYC status", 500);
@@ -86,7 +104,9 @@ export async function getKYCStatus(req: Request, res: Response) {
 }
 
 /**
- * Submit KYC documents and information
+ * Submit KYC documents and information for a level (basic by default, or
+ * enhanced — which also needs proof of address and source of funds). A user
+ * asked to re-verify resubmits at their current level.
  * POST /api/kyc/submit
  */
 export async function submitKYC(req: Request, res: Response) {
@@ -105,26 +125,36 @@ export async function submitKYC(req: Request, res: Response) {
       idBackUrl,
       proofOfAddressUrl,
       selfieUrl,
+      sourceOfFunds,
+      sourceOfFundsDocUrl,
       documentType,
       documentNumber,
+      documentExpiresAt,
     } = req.body;
 
-    // Validate required fields
-    if (!fullName || !dateOfBirth || !nationality || !country) {
-      return error(res, "Full name, date of birth, nationality, and country are required", 400);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { ...kycLevelSelect, email: true } });
+    if (!user) {
+      return error(res, "User not found", 404);
     }
+    const currentLevel = kycLevelOf(user);
+    const reverifying = needsReverification(user);
 
-    if (!documentType || !documentNumber) {
-      return error(res, "Document type and number are required", 400);
+    const level: SubmittableLevel =
+      req.body.level ??
+      (reverifying ? (currentLevel as SubmittableLevel) : levelRank(currentLevel) >= levelRank("basic") ? "enhanced" : "basic");
+    if (!SUBMITTABLE_LEVELS.includes(level)) {
+      return error(res, `level must be one of: ${SUBMITTABLE_LEVELS.join(", ")}`, 400);
     }
-
-    if (!idFrontUrl || !proofOfAddressUrl || !selfieUrl) {
-      return error(res, "All document uploads are required (ID front, proof of address, selfie)", 400);
+    if (reverifying && levelRank(level) < levelRank(currentLevel)) {
+      return error(res, `Please re-verify at your current ${KYC_LEVEL_LABELS[currentLevel].toLowerCase()} level.`, 400);
+    }
+    if (!reverifying && levelRank(currentLevel) >= levelRank(level)) {
+      return error(res, `You are already verified at the ${KYC_LEVEL_LABELS[currentLevel].toLowerCase()} level.`, 400);
     }
 
-    // ID back is only required for driver's licenses
-    if (documentType === "drivers_license" && !idBackUrl) {
-      return error(res, "Driver's license requires both front and back images", 400);
+    const missing = missingForLevel(level, req.body);
+    if (missing) {
+      return error(res, missing, 400);
     }
 
     // Check if KYC record exists
@@ -133,73 +163,69 @@ export async function submitKYC(req: Request, res: Response) {
       select: { status: true },
     });
 
-    // Prevent resubmission if already approved
-    if (existingKYC?.status === "approved") {
-      return error(res, "Your KYC is already approved. No changes allowed.", 400);
-    }
-
     // Prevent resubmission if pending review
     if (existingKYC?.status === "pending") {
       return error(res, "Your KYC is currently under review. Please wait for admin approval.", 400);
     }
 
-    // Create or update KYC record
-    const kyc = await prisma.kYC.upsert({
-      where: { userId },
-      create: {
-        userId,
-        fullName,
-        dateOfBirth,
-        nationality,
-        address: address || "",
-        city: city || "",
-        state: state || "",
-        postalCode: postalCode || "",
-        country,
-        idFrontUrl,
-        idBackUrl,
-        proofOfAddressUrl,
-        selfieUrl,
-        documentType,
-        documentNumber,
-        status: "pending",
-        submittedAt: new Date(),
-      },
-      update: {
-        fullName,
-        dateOfBirth,
-        nationality,
-        address: address || "",
-        city: city || "",
-        state: state || "",
-        postalCode: postalCode || "",
-        country,
-        idFrontUrl,
-        idBackUrl,
-        proofOfAddressUrl,
-        selfieUrl,
-        documentType,
-        documentNumber,
-        status: "pending",
-        submittedAt: new Date(),
-        rejectionReason: "", // Clear previous rejection reason
-        adminNotes: "", // Clear previous admin notes
-      },
-      select: {
-        id: true,
-        status: true,
-        submittedAt: true,
-      },
-    });
+    const fields = {
+      level,
+      fullName,
+      dateOfBirth,
+      nationality,
+      address: address || "",
+      city: city || "",
+      state: state || "",
+      postalCode: postalCode || "",
+      country,
+      idFrontUrl,
+      idBackUrl,
+      proofOfAddressUrl,
+      selfieUrl,
+      sourceOfFunds: sourceOfFunds || "",
+      sourceOfFundsDocUrl,
+      documentType,
+      documentNumber,
+      documentExpiresAt: new Date(documentExpiresAt),
+      status: "pending",
+      submittedAt: new Date(),
+    };
 
-    // Update user's kycStatus and get user email for notification
-    const user = await prisma.user.update({
-      where: { id: userId },
-      data: { kycStatus: "pending" },
-      select: { email: true },
-    });
+    // Create or update KYC record, and keep this submission as a new version
+    const kyc = await prisma.$transaction(async (tx) => {
+      await archiveUnversionedSubmission(tx, userId);
+
+      const submitted = await tx.kYC.upsert({
+        where: { userId },
+        create: { userId, ...fields },
+        update: {
+          ...fields,
+          rejectionReason: "", // Clear previous rejection reason
+          adminNotes: "", // Clear previous admin notes
+          expiryWarningDays: { unset: true }, // New document, new warnings
+        },
+        select: {
+          id: true,
+          level: true,
+          status: true,
+          submittedAt: true,
+        },
+      });
 
-    console.log(`📝 KYC submitted for user: ${userId}`);
+      const { version } = await recordSubmissionVersion(tx, submitted.id);
+      return { ...submitted, version };
+    }, { timeout: 15000 });
+
+    // kycStatus tracks identity verification, so an enhanced application leaves it
+    // verified — and a re-verification leaves withdrawals paused until approval
+    if (levelRank(currentLevel) < levelRank("basic")) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { kycStatus: "pending" },
+      });
+    }
+
+    console.log(`📝 KYC (${level}) submitted for user: ${userId}`);
 
     // Send admin notification asynchronously
     setImmediate(() => {
@@ -213,6 +239,11 @@ export async function submitKYC(req: Request, res: Response) {
       ).catch((err) => console.error("Error sending KYC admin notification:", err));
     });
 
+    // Screen against the sanctions / PEP lists; approval waits on any hit
+    setImmediate(() => {
+      screenUser(userId).catch((err) => console.error("KYC screening error:", err));
+    });
+
     return success(res, { kyc }, "KYC documents submitted successfully. Our team will review your submission shortly.");
   } catch (err) {
     console.error("Submit KYC error:", err);
@@ -221,7 +252,7 @@ export async function submitKYC(req: Request, res: Response) {
 }
 
 /**
- * Update KYC information (only if not submitted or rejected)
+ * Update KYC information (only if not submitted, rejected or awaiting re-verification)
  * PUT /api/kyc/update
  */
 export async function updateKYC(req: Request, res: Response) {
@@ -240,8 +271,11 @@ export async function updateKYC(req: Request, res: Response) {
       idBackUrl,
       proofOfAddressUrl,
       selfieUrl,
+      sourceOfFunds,
+      sourceOfFundsDocUrl,
       documentType,
       documentNumber,
+      documentExpiresAt,
     } = req.body;
 
     // Get current KYC record
@@ -254,7 +288,7 @@ export async function updateKYC(req: Request, res: Response) {
       return error(res, "No KYC record found. Please submit KYC first.", 404);
     }
 
-    // Only allow updates if status is not_submitted or rejected
+    // Only allow updates if status is not_submitted, rejected or reverification_required
     if (existingKYC.status === "approved") {
       return error(res, "Your KYC is already approved. No changes allowed.", 400);
     }
@@ -263,6 +297,13 @@ export async function updateKYC(req: Request, res: Response) {
       return error(res, "Your KYC is under review. Please wait for the review to complete.", 400);
     }
 
+    if (documentExpiresAt !== undefined) {
+      const problem = documentExpiryProblem(documentExpiresAt);
+      if (problem) {
+        return error(res, problem, 400);
+      }
+    }
+
     // Update KYC record
     const updatedData: any = {};
     if (fullName !== undefined) updatedData.fullName = fullName;
@@ -277,8 +318,11 @@ export async function updateKYC(req: Request, res: Response) {
     if (idBackUrl !== undefined) updatedData.idBackUrl = idBackUrl;
     if (proofOfAddressUrl !== undefined) updatedData.proofOfAddressUrl = proofOfAddressUrl;
     if (selfieUrl !== undefined) updatedData.selfieUrl = selfieUrl;
+    if (sourceOfFunds !== undefined) updatedData.sourceOfFunds = sourceOfFunds;
+    if (sourceOfFundsDocUrl !== undefined) updatedData.sourceOfFundsDocUrl = sourceOfFundsDocUrl;
     if (documentType !== undefined) updatedData.documentType = documentType;
     if (documentNumber !== undefined) updatedData.documentNumber = documentNumber;
+    if (documentExpiresAt !== undefined) updatedData.documentExpiresAt = new Date(documentExpiresAt);
 
     const kyc = await prisma.kYC.update({
       where: { userId },
@@ -297,8 +341,11 @@ export async function updateKYC(req: Request, res: Response) {
         idBackUrl: true,
         proofOfAddressUrl: true,
         selfieUrl: true,
+        sourceOfFunds: true,
+        sourceOfFundsDocUrl: true,
         documentType: true,
         documentNumber: true,
+        documentExpiresAt: true,
         status: true,
         updatedAt: true,
       },
@@ -0,0 +1,256 @@
+import { Request, Response } from "express";
+import { prisma } from "../config/database.js";
+import { success, error } from "../utils/response.js";
+import { kycAllows, kycLevelSelect, KycLevelError } from "../services/kyc.service.js";
+import { verify2FACode } from "./twoFactor.controller.js";
+import { createInAppNotification } from "../services/notification.service.js";
+import { InsufficientBalanceError, roundCents } from "../services/ledger.service.js";
+import { executeTrade, quoteTrade, ListingUnavailableError } from "../services/secondaryMarket.service.js";
+
+/**
+ * Same gate as createTransfer: 2FA enabled and verified, KYC approved.
+ * Returns an [message, status] pair to reject with, or null when allowed.
+ */
+async function checkTradingAuthorization(userId: string, twoFactorCode: string): Promise<[string, number] | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, ...kycLevelSelect },
+  });
+
+  if (!user) {
+    return ["User not found", 404];
+  }
+
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return ["Two-factor authentication must be enabled to trade on the secondary market. Please enable 2FA in security settings.", 403];
+  }
+
+  if (!kycAllows(user, "trade")) {
+    return ["KYC verification is required to trade on the secondary market. Please complete KYC verification in settings.", 403];
+  }
+
+  const is2FAValid = await verify2FACode(userId, twoFactorCode);
+  if (!is2FAValid) {
+    return ["Invalid 2FA code. Please try again.", 401];
+  }
+
+  return null;
+}
+
+const listingInclude = {
+  investment: {
+    select: {
+      createdAt: true,
+      payoutsMade: true,
+      monthlyReturn: true,
+      property: {
+        select: { id: true, title: true, images: true, location: true, duration: true, expectedROI: true },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Open listings, optionally for one property
+ * GET /api/market/listings?propertyId=
+ */
+export async function getListings(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { propertyId } = req.query;
+
+    const listings = await prisma.shareListing.findMany({
+      where: {
+        status: "open",
+        sellerId: { not: userId },
+        ...(propertyId ? { propertyId: propertyId as string } : {}),
+      },
+      include: listingInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, listings);
+  } catch (err) {
+    console.error("getListings error:", err);
+    return error(res, "Failed to fetch listings", 500);
+  }
+}
+
+/**
+ * GET /api/market/listings/mine
+ */
+export async function getMyListings(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+
+    const listings = await prisma.shareListing.findMany({
+      where: { sellerId: userId },
+      include: { ...listingInclude, trades: { orderBy: { createdAt: "desc" } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, listings);
+  } catch (err) {
+    console.error("getMyListings error:", err);
+    return error(res, "Failed to fetch your listings", 500);
+  }
+}
+
+/**
+ * List part or all of an active property investment for sale
+ * POST /api/market/listings
+ */
+export async function createListing(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { investmentId, principal, askingPrice, twoFactorCode } = req.body;
+
+    const denied = await checkTradingAuthorization(userId, twoFactorCode);
+    if (denied) {
+      return error(res, denied[0], denied[1]);
+    }
+
+    const investment = await prisma.userInvestment.findFirst({
+      where: { id: investmentId, userId },
+    });
+
+    if (!investment || !investment.propertyId) {
+      return error(res, "Property investment not found", 404);
+    }
+
+    if (investment.status !== "active") {
+      return error(res, "Only active investments can be listed", 400);
+    }
+
+    const listedPrincipal = roundCents(principal ?? investment.amount);
+    if (listedPrincipal > investment.amount) {
+      return error(res, `You can list at most $${investment.amount.toLocaleString()} of this investment`, 400);
+    }
+
+    const [openListing, pendingExit] = await Promise.all([
+      prisma.shareListing.findFirst({ where: { investmentId, status: "open" } }),
+      prisma.investmentExitRequest.findFirst({ where: { investmentId, status: "pending" } }),
+    ]);
+
+    if (openListing) {
+      return error(res, "This investment already has an open listing", 409);
+    }
+
+    if (pendingExit) {
+      return error(res, "This investment has a pending exit request", 409);
+    }
+
+    const listing = await prisma.shareListing.create({
+      data: {
+        sellerId: userId,
+        investmentId,
+        propertyId: investment.propertyId,
+        principal: listedPrincipal,
+        remainingPrincipal: listedPrincipal,
+        askingPrice: roundCents(askingPrice),
+      },
+    });
+
+    return success(res, { listing, quote: quoteTrade(listing, listedPrincipal) }, "Listing created", 201);
+  } catch (err) {
+    console.error("createListing error:", err);
+    return error(res, "Failed to create listing", 500);
+  }
+}
+
+/**
+ * POST /api/market/listings/:id/cancel
+ */
+export async function cancelListing(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    const { count } = await prisma.shareListing.updateMany({
+      where: { id, sellerId: userId, status: "open" },
+      data: { status: "cancelled", cancelledAt: new Date() },
+    });
+
+    if (count === 0) {
+      return error(res, "Open listing not found", 404);
+    }
+
+    return success(res, null, "Listing cancelled");
+  } catch (err) {
+    console.error("cancelListing error:", err);
+    return error(res, "Failed to cancel listing", 500);
+  }
+}
+
+/**
+ * Buy all (default) or part of a listing's remaining stake
+ * POST /api/market/listings/:id/buy
+ */
+export async function buyListing(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+    const { principal, twoFactorCode } = req.body;
+
+    const denied = await checkTradingAuthorization(userId, twoFactorCode);
+    if (denied) {
+      return error(res, denied[0], denied[1]);
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => executeTrade(tx, { listingId: id, buyerId: userId, principal }),
+      { timeout: 15000 }
+    );
+
+    const { quote, title } = result;
+    await createInAppNotification(
+      userId,
+      "investment",
+      "Stake Purchased",
+      `You bought a $${quote.principal.toLocaleString()} stake in "${title}" for $${quote.price.toLocaleString()}.`
+    );
+    await createInAppNotification(
+      result.sellerId,
+      "investment",
+      "Stake Sold",
+      `Your $${quote.principal.toLocaleString()} stake in "${title}" sold for $${quote.price.toLocaleString()}. $${quote.sellerProceeds.toLocaleString()} has been added to your balance after a $${quote.fee.toLocaleString()} fee.`
+    );
+
+    return success(res, result.trade, "Purchase successful", 201);
+  } catch (err) {
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "Insufficient balance");
+    }
+    if (err instanceof ListingUnavailableError) {
+      return error(res, err.message, 409);
+    }
+    if (err instanceof KycLevelError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("buyListing error:", err);
+    return error(res, "Failed to complete purchase", 500);
+  }
+}
+
+/**
+ * Trades where the user was buyer or seller
+ * GET /api/market/trades
+ */
+export async function getMyTrades(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+
+    const trades = await prisma.shareTrade.findMany({
+      where: { OR: [{ buyerId: userId }, { sellerId: userId }] },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(
+      res,
+      trades.map((t) => ({ ...t, side: t.buyerId === userId ? "buy" : "sell" }))
+    );
+  } catch (err) {
+    console.error("getMyTrades error:", err);
+    return error(res, "Failed to fetch trades", 500);
+  }
+}
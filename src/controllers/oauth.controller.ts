@@ -7,6 +7,10 @@ import { signAccessToken, signRefreshToken } from "../utils/jwt.js";
 import { env } from "../config/env.js";
 import { sendLoginAlert, notifyAdminNewUserSignup, notifyAdminUserSignin, sendReferralSuccessNotification, sendWelcomeBonusNotification } from "../services/notification.service.js";
 import { getLocationString } from "../services/geolocation.service.js";
+import { creditUser, PLATFORM_ACCOUNTS } from "../services/ledger.service.js";
+import { claimPendingTransfers, findInvitingSender } from "../services/pendingTransfer.service.js";
+import { resolveSignupProgram, ReferralProgramError } from "../services/referralProgram.service.js";
+import { refreshAmbassadorTier } from "../services/ambassador.service.js";
 import { parseUserAgent } from "../utils/userAgent.js";
 // Cookie utilities imported if needed in future
 // Auth cookies are set via exchange-oauth-token endpoint in auth.controller.ts
@@ -27,10 +31,10 @@ function generateReferralCode(): string {
  */
 export async function googleLogin(req: Request, res: Response) {
   try {
-    const { referralCode } = req.query;
+    const { referralCode, campaignCode } = req.query;
 
-    // Store referral code in state parameter to preserve it through OAuth flow
-    const state = referralCode ? JSON.stringify({ referralCode }) : undefined;
+    // Store referral and campaign codes in state parameter to preserve them through OAuth flow
+    const state = referralCode || campaignCode ? JSON.stringify({ referralCode, campaignCode }) : undefined;
 
     const authorizeUrl = googleClient.generateAuthUrl({
       access_type: "offline",
@@ -60,12 +64,14 @@ export async function googleCallback(req: Request, res: Response) {
       return res.redirect(`${env.FRONTEND_URL}/signin?error=missing_code`);
     }
 
-    // Extract referral code from state if present
+    // Extract referral and campaign codes from state if present
     let referralCode: string | undefined;
+    let campaignCode: string | undefined;
     if (state && typeof state === "string") {
       try {
         const stateData = JSON.parse(state);
         referralCode = stateData.referralCode;
+        campaignCode = stateData.campaignCode;
       } catch (e) {
         console.log("Could not parse state parameter");
       }
@@ -102,6 +108,7 @@ export async function googleCallback(req: Request, res: Response) {
       select: {
         id: true,
         userId: true,
+        providerEmail: true,
       },
     });
 
@@ -128,6 +135,11 @@ export async function googleCallback(req: Request, res: Response) {
         // ✅ Account exists with valid user - just log them in
         console.log(`✅ Google account found: ${email}`);
 
+        // The Google address can change; referral fraud checks compare the current one
+        if (account.providerEmail !== email) {
+          await prisma.account.update({ where: { id: account.id }, data: { providerEmail: email } });
+        }
+
         // Only update profile photo if user doesn't have a custom uploaded photo
         // Custom photos are stored on cloud storage, not Google's CDN
         const hasCustomPhoto = user.profilePhoto && !user.profilePhoto.includes('googleusercontent.com');
@@ -180,6 +192,7 @@ export async function googleCallback(req: Request, res: Response) {
             userId: user.id,
             provider: "google",
             providerId: googleId,
+            providerEmail: email,
           },
         });
 
@@ -212,6 +225,22 @@ export async function googleCallback(req: Request, res: Response) {
             select: { id: true, email: true, firstName: true, lastName: true },
           });
         }
+        // Someone invited by a transfer is referred by its sender unless they used a code
+        if (!referrer) {
+          const invitingSenderId = await findInvitingSender(email);
+          if (invitingSenderId) {
+            referrer = await prisma.user.findUnique({
+              where: { id: invitingSenderId },
+              select: { id: true, email: true, firstName: true, lastName: true },
+            });
+          }
+        }
+
+        // An expired campaign link shouldn't block a Google signup — fall back to the default program
+        const referralProgramId = await resolveSignupProgram(campaignCode).catch((err) => {
+          if (err instanceof ReferralProgramError) return resolveSignupProgram();
+          throw err;
+        });
 
         const userReferralCode = generateReferralCode();
 
@@ -224,10 +253,12 @@ export async function googleCallback(req: Request, res: Response) {
             emailVerified,
             referralCode: userReferralCode,
             referredById: referrer?.id || null,
+            referralProgramId,
             accounts: {
               create: {
                 provider: "google",
                 providerId: googleId,
+                providerEmail: email,
               },
             },
             settings: {
@@ -238,6 +269,13 @@ export async function googleCallback(req: Request, res: Response) {
 
         console.log(`🆕 Created new user with Google account: ${email}`);
 
+        // Transfers sent to this email before the account existed
+        if (emailVerified) {
+          claimPendingTransfers(user.id, email).catch((err) =>
+            console.error("Error claiming pending transfers:", err)
+          );
+        }
+
         // Notify admin about new user signup
         setImmediate(() => {
           console.log(`📧 Calling notifyAdminNewUserSignup for ${email} (OAuth)`);
@@ -267,9 +305,14 @@ export async function googleCallback(req: Request, res: Response) {
             });
 
             // Credit referrer bonus
-            await tx.user.update({
-              where: { id: referrer.id },
-              data: { balance: { increment: REFERRAL_BONUS } },
+            await creditUser(tx, {
+              userId: referrer.id,
+              bucket: "referralCommissions",
+              amount: REFERRAL_BONUS,
+              from: PLATFORM_ACCOUNTS.referralExpense,
+              type: "referral_bonus",
+              reference: user!.id,
+              description: `Referral bonus for inviting ${firstName} ${lastName}`,
             });
 
             // Create transaction for referrer
@@ -284,9 +327,14 @@ export async function googleCallback(req: Request, res: Response) {
             });
 
             // Credit new user bonus
-            await tx.user.update({
-              where: { id: user!.id },
-              data: { balance: { increment: REFERRAL_BONUS } },
+            await creditUser(tx, {
+              userId: user!.id,
+              bucket: "referralCommissions",
+              amount: REFERRAL_BONUS,
+              from: PLATFORM_ACCOUNTS.referralExpense,
+              type: "referral_bonus",
+              reference: referrer.id,
+              description: `Welcome bonus for joining via referral`,
             });
 
             // Create transaction for new user
@@ -303,6 +351,8 @@ export async function googleCallback(req: Request, res: Response) {
 
           console.log(`✅ Referral bonus credited: $${REFERRAL_BONUS} to both referrer and new user`);
 
+          refreshAmbassadorTier(referrer.id).catch((err) => console.error("Ambassador tier refresh error:", err));
+
           // Send notifications asynchronously
           setImmediate(() => {
             sendReferralSuccessNotification(
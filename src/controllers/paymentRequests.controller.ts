@@ -0,0 +1,154 @@
+import { Request, Response } from "express";
+import { prisma } from "../config/database.js";
+import { success, error } from "../utils/response.js";
+import { verify2FACode } from "./twoFactor.controller.js";
+import { InsufficientBalanceError } from "../services/ledger.service.js";
+import { LimitExceededError } from "../services/limits.service.js";
+import { TransferError } from "../services/transfer.service.js";
+import {
+  createRequest,
+  getRequestByToken,
+  payRequest,
+  declineRequest,
+  cancelRequest,
+  serializeRequest,
+  PaymentRequestError,
+} from "../services/paymentRequest.service.js";
+
+function handleRequestError(res: Response, err: unknown, fn: string, fallback: string) {
+  if (err instanceof PaymentRequestError || err instanceof TransferError) {
+    return error(res, err.message, err.status);
+  }
+  if (err instanceof InsufficientBalanceError) {
+    return error(res, "Insufficient balance");
+  }
+  if (err instanceof LimitExceededError) {
+    return error(res, err.message, 403);
+  }
+  console.error(`${fn} error:`, err);
+  return error(res, fallback, 500);
+}
+
+/**
+ * Requests the user sent, or ones addressed to them
+ * GET /api/payment-requests?role=sent|received&status=pending
+ */
+export async function getPaymentRequests(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { role = "received", status } = req.query;
+
+    let where: any;
+    if (role === "sent") {
+      where = { requesterId: userId };
+    } else {
+      const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+      if (!user) return error(res, "User not found", 404);
+      where = { payerEmail: user.email.toLowerCase() };
+    }
+    if (status) where.status = status;
+
+    const requests = await prisma.paymentRequest.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    const requesters = await prisma.user.findMany({
+      where: { id: { in: [...new Set(requests.map((r) => r.requesterId))] } },
+      select: { id: true, firstName: true, lastName: true, email: true },
+    });
+    const byId = new Map(requesters.map((u) => [u.id, u]));
+
+    return success(res, requests.map((r) => serializeRequest(r, byId.get(r.requesterId))));
+  } catch (err) {
+    return handleRequestError(res, err, "getPaymentRequests", "Failed to fetch payment requests");
+  }
+}
+
+/**
+ * Request money from an email, or create a shareable pay link (no payerEmail)
+ * POST /api/payment-requests
+ */
+export async function createPaymentRequest(req: Request, res: Response) {
+  try {
+    const request = await createRequest(req.userId!, req.body);
+    return success(res, request, request.payerEmail ? "Payment request sent" : "Pay link created", 201);
+  } catch (err) {
+    return handleRequestError(res, err, "createPaymentRequest", "Failed to create payment request");
+  }
+}
+
+/**
+ * What a pay link is for, before paying it
+ * GET /api/payment-requests/link/:token
+ */
+export async function getPaymentLink(req: Request, res: Response) {
+  try {
+    const request = await getRequestByToken(req.params.token as string);
+    return success(res, request);
+  } catch (err) {
+    return handleRequestError(res, err, "getPaymentLink", "Failed to fetch payment request");
+  }
+}
+
+/**
+ * Pay a request in one step — same 2FA gate as a direct transfer
+ * POST /api/payment-requests/:id/pay
+ */
+export async function payPaymentRequest(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return error(
+        res,
+        "Two-factor authentication must be enabled to send transfers. Please enable 2FA in security settings.",
+        403
+      );
+    }
+
+    const is2FAValid = await verify2FACode(userId, req.body.twoFactorCode);
+    if (!is2FAValid) {
+      return error(res, "Invalid 2FA code. Please try again.", 401);
+    }
+
+    const result = await payRequest(req.params.id as string, userId);
+    return success(res, result, "Payment sent", 201);
+  } catch (err) {
+    return handleRequestError(res, err, "payPaymentRequest", "Failed to pay payment request");
+  }
+}
+
+/**
+ * POST /api/payment-requests/:id/decline
+ */
+export async function declinePaymentRequest(req: Request, res: Response) {
+  try {
+    const request = await declineRequest(req.params.id as string, req.userId!);
+    return success(res, request, "Payment request declined");
+  } catch (err) {
+    return handleRequestError(res, err, "declinePaymentRequest", "Failed to decline payment request");
+  }
+}
+
+/**
+ * POST /api/payment-requests/:id/cancel
+ */
+export async function cancelPaymentRequest(req: Request, res: Response) {
+  try {
+    const request = await cancelRequest(req.params.id as string, req.userId!);
+    return success(res, request, "Payment request cancelled");
+  } catch (err) {
+    return handleRequestError(res, err, "cancelPaymentRequest", "Failed to cancel payment request");
+  }
+}
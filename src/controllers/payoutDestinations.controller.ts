@@ -0,0 +1,121 @@
+import { Request, Response } from "express";
+import { prisma } from "../config/database.js";
+import { success, error } from "../utils/response.js";
+import { verify2FACode } from "./twoFactor.controller.js";
+import {
+  addDestination,
+  confirmDestination,
+  removeDestination,
+  serializeDestination,
+  PayoutDestinationError,
+} from "../services/payoutDestination.service.js";
+
+/**
+ * GET /api/payout-destinations
+ */
+export async function getPayoutDestinations(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+
+    const destinations = await prisma.payoutDestination.findMany({
+      where: { userId, status: { not: "removed" } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const now = new Date();
+    return success(res, destinations.map((d) => serializeDestination(d, now)));
+  } catch (err) {
+    console.error("getPayoutDestinations error:", err);
+    return error(res, "Failed to fetch withdrawal destinations", 500);
+  }
+}
+
+/**
+ * Save a new destination; it stays pending until the emailed link is opened
+ * POST /api/payout-destinations
+ */
+export async function createPayoutDestination(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { type, label, details, twoFactorCode } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return error(
+        res,
+        "Two-factor authentication must be enabled to add withdrawal destinations. Please enable 2FA in security settings.",
+        403
+      );
+    }
+
+    const is2FAValid = await verify2FACode(userId, twoFactorCode);
+    if (!is2FAValid) {
+      return error(res, "Invalid 2FA code. Please try again.", 401);
+    }
+
+    const destination = await addDestination(userId, { type, label, details });
+
+    return success(
+      res,
+      serializeDestination(destination),
+      "Destination added. Check your email to confirm it.",
+      201
+    );
+  } catch (err) {
+    if (err instanceof PayoutDestinationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("createPayoutDestination error:", err);
+    return error(res, "Failed to add withdrawal destination", 500);
+  }
+}
+
+/**
+ * Confirm from the emailed link (no session needed — the token is the proof)
+ * POST /api/payout-destinations/confirm
+ */
+export async function confirmPayoutDestination(req: Request, res: Response) {
+  try {
+    const destination = await confirmDestination(req.body.token);
+
+    return success(
+      res,
+      { id: destination.id, label: destination.label, availableAt: destination.availableAt },
+      "Withdrawal destination confirmed"
+    );
+  } catch (err) {
+    if (err instanceof PayoutDestinationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("confirmPayoutDestination error:", err);
+    return error(res, "Failed to confirm withdrawal destination", 500);
+  }
+}
+
+/**
+ * DELETE /api/payout-destinations/:id
+ */
+export async function deletePayoutDestination(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    await removeDestination(userId, id);
+
+    return success(res, null, "Withdrawal destination removed");
+  } catch (err) {
+    if (err instanceof PayoutDestinationError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("deletePayoutDestination error:", err);
+    return error(res, "Failed to remove withdrawal destination", 500);
+  }
+}
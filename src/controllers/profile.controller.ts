@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
 import { signAccessToken } from "../utils/jwt.js";
+import { getUserBalance } from "../services/ledger.service.js";
 
 export async function getProfile(req: Request, res: Response) {
   try {
@@ -39,7 +40,7 @@ export async function getProfile(req: Request, res: Response) {
       return error(res, "User not found", 404);
     }
 
-    return success(res, user);
+    return success(res, { ...user, balance: await getUserBalance(user.id) });
   } catch (err) {
     console.error("getProfile error:", err);
     return error(res, "Failed to fetch profile", 500);
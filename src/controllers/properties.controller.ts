@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
+import { reserveMet } from "../services/auction.service.js";
 
 const investmentInclude = {
   userInvestments: {
@@ -180,6 +181,12 @@ function mapProperty(p: any) {
     // ── Bid tracking (for_sale) ──
     bidCount: p.bidCount ?? 0,
     recentBidAmount: p.recentBidAmount ?? 0,
+    // ── Auction (for_sale) — reserve amount stays private, only whether it's met ──
+    startingBid: p.startingBid ?? 0,
+    minBidIncrement: p.minBidIncrement ?? 0,
+    auctionEndsAt: p.auctionEndsAt ?? null,
+    auctionStatus: p.auctionStatus || "open",
+    reserveMet: reserveMet(p),
     // ── Financial & Listing (for_sale) ──
     pricePerSqft: p.pricePerSqft || "",
     taxAssessedValue: p.taxAssessedValue || "",
@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import { prisma } from "../config/database.js";
+import { success, error } from "../utils/response.js";
+import { releasePurchaseOrder, PurchaseOrderError } from "../services/purchaseOrder.service.js";
+
+/**
+ * GET /api/purchase-orders
+ */
+export async function getMyPurchaseOrders(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+
+    const orders = await prisma.purchaseOrder.findMany({
+      where: { userId },
+      include: { property: { select: { id: true, title: true, images: true, location: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, orders);
+  } catch (err) {
+    console.error("getMyPurchaseOrders error:", err);
+    return error(res, "Failed to fetch purchase orders", 500);
+  }
+}
+
+/**
+ * Cancel a purchase request before it's accepted; the earnest money is refunded
+ * POST /api/purchase-orders/:id/cancel
+ */
+export async function cancelPurchaseOrder(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const id = req.params.id as string;
+
+    const order = await releasePurchaseOrder(id, { by: "user", userId });
+
+    return success(res, order, "Purchase request cancelled");
+  } catch (err) {
+    if (err instanceof PurchaseOrderError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("cancelPurchaseOrder error:", err);
+    return error(res, "Failed to cancel purchase request", 500);
+  }
+}
@@ -2,6 +2,9 @@ import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
 import { env } from "../config/env.js";
+import { getUserBalances } from "../services/ledger.service.js";
+import { isProgramOpen } from "../services/referralProgram.service.js";
+import { getAmbassadorProgress, getLeaderboard } from "../services/ambassador.service.js";
 
 export async function getInfo(req: Request, res: Response) {
   try {
@@ -20,9 +23,24 @@ export async function getInfo(req: Request, res: Response) {
     const appUrl = env.APP_URL || "http://localhost:3000";
     const referralLink = `${appUrl}/signup?ref=${user.referralCode}`;
 
+    // Running campaigns get their own links, which sign the new user up to that program
+    const campaigns = (await prisma.referralProgram.findMany({
+      where: { isActive: true, campaignCode: { not: null } },
+      orderBy: { createdAt: "desc" },
+    }))
+      .filter((p) => isProgramOpen(p))
+      .map((p) => ({
+        name: p.name,
+        description: p.description,
+        campaignCode: p.campaignCode,
+        endsAt: p.endsAt,
+        referralLink: `${referralLink}&campaign=${encodeURIComponent(p.campaignCode!)}`,
+      }));
+
     return success(res, {
       referralCode: user.referralCode,
       referralLink,
+      campaigns,
     });
   } catch (err) {
     return error(res, "Failed to fetch referral info", 500);
@@ -34,11 +52,8 @@ export async function getStats(req: Request, res: Response) {
     const userId = req.userId!;
 
     // Get total referrals and earnings
-    const [adminTxSum, totalCount, completedCount, pendingCount, totalRewards, completedRewards] = await Promise.all([
-      prisma.transaction.aggregate({
-        where: { userId, status: "completed", type: { in: ["referral", "admin_referralCommissions"] } },
-        _sum: { amount: true },
-      }),
+    const [ledger, totalCount, completedCount, pendingCount, totalRewards, completedRewards] = await Promise.all([
+      getUserBalances(userId),
       prisma.referral.count({
         where: { referrerId: userId },
       }),
@@ -70,8 +85,8 @@ export async function getStats(req: Request, res: Response) {
       },
     });
 
-    // Compute from transaction history (covers old records before model field fix)
-    const totalCommissions = adminTxSum._sum.amount ?? 0;
+    const totalCommissions = ledger.earned.referralCommissions;
+    const ambassador = await getAmbassadorProgress(userId);
 
     return success(res, {
       totalReferrals: totalCount,
@@ -81,6 +96,7 @@ export async function getStats(req: Request, res: Response) {
       completedEarnings: completedRewards._sum.reward || 0,
       pendingEarnings: (totalRewards._sum.reward || 0) - (completedRewards._sum.reward || 0),
       recentActivity: recentReferrals,
+      ambassador,
     });
   } catch (err) {
     return error(res, "Failed to fetch referral stats", 500);
@@ -147,3 +163,18 @@ export async function getList(req: Request, res: Response) {
     return error(res, "Failed to fetch referral list", 500);
   }
 }
+
+/**
+ * Public — top referrers who opted in, with masked names
+ * GET /api/referrals/leaderboard?limit=20
+ */
+export async function getPublicLeaderboard(req: Request, res: Response) {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const leaderboard = await getLeaderboard(limit);
+    return success(res, leaderboard);
+  } catch (err) {
+    console.error("getPublicLeaderboard error:", err);
+    return error(res, "Failed to fetch leaderboard", 500);
+  }
+}
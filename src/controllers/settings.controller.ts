@@ -38,6 +38,7 @@ export async function updateSettings(req: Request, res: Response) {
       "marketingEmails",
       "loginAlerts",
       "sessionTimeout",
+      "showOnLeaderboard",
     ];
 
     const data: Record<string, unknown> = {};
@@ -142,6 +143,10 @@ export async function changePassword(req: Request, res: Response) {
       where: { id: credentialsAccount.id },
       data: { passwordHash: newHash },
     });
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordChangedAt: new Date() },
+    });
 
     return success(res, null, "Password changed successfully");
   } catch (err) {
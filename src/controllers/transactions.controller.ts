@@ -1,16 +1,17 @@
 import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
-
+import { getUserBalances, roundCents } from "../services/ledger.service.js";
 
 export async function getBalanceSummary(req: Request, res: Response) {
   try {
     const userId = req.userId!;
 
-    const [transactions, pendingFundOps] = await Promise.all([
-      prisma.transaction.findMany({
-        where: { userId, status: "completed" },
-        select: { type: true, amount: true },
+    const [ledger, postings, pendingFundOps] = await Promise.all([
+      getUserBalances(userId),
+      prisma.ledgerPosting.findMany({
+        where: { userId },
+        select: { entryType: true, bucket: true, amount: true },
       }),
       prisma.fundOperation.findMany({
         where: { userId, status: "pending" },
@@ -19,51 +20,52 @@ export async function getBalanceSummary(req: Request, res: Response) {
     ]);
 
     let deposits = 0;
-    let txProfits = 0;
+    let profits = 0;
     let adminBonuses = 0;
     let referralBonuses = 0;
-    let adminReferralCommissions = 0;
-    let adminProfitsAdded = 0;
-    let adminBalanceAdjustments = 0;
     let transferIn = 0;
     let withdrawals = 0;
     let investedFunds = 0;
     let transferOut = 0;
-
-    for (const tx of transactions) {
-      switch (tx.type) {
-        case "deposit": deposits += tx.amount; break;
-        case "profit": txProfits += tx.amount; break;
-        case "admin_bonus": adminBonuses += tx.amount; break;
-        case "admin_profits": adminProfitsAdded += tx.amount; break;
-        case "admin_referralCommissions": adminReferralCommissions += tx.amount; break;
-        case "admin_balance": adminBalanceAdjustments += tx.amount; break;
-        case "referral": referralBonuses += tx.amount; break;
-        case "transfer_received": transferIn += tx.amount; break;
-        case "withdrawal": withdrawals += Math.abs(tx.amount); break;
-        case "investment": investedFunds += Math.abs(tx.amount); break;
-        case "transfer_sent": transferOut += Math.abs(tx.amount); break;
+    let escrowHeld = 0;
+    let fees = 0;
+
+    // Breakdown by what moved the money, from the user's side of each ledger entry
+    for (const p of postings) {
+      switch (p.entryType) {
+        case "deposit": deposits += p.amount; break;
+        case "profit": profits += p.amount; break;
+        case "withdrawal": withdrawals -= p.amount; break;
+        case "investment": investedFunds -= p.amount; break;
+        case "investment_return": investedFunds -= p.amount; break; // principal back from a closed position
+        case "share_trade": investedFunds -= p.amount; break; // stake bought (debit) or sold (credit) on the secondary market
+        case "referral_commission":
+        case "referral_bonus":
+          referralBonuses += p.amount;
+          break;
+        case "admin_adjustment":
+          if (p.bucket === "bonus") adminBonuses += p.amount;
+          break;
+        case "transfer":
+          if (p.amount > 0) transferIn += p.amount;
+          else transferOut -= p.amount;
+          break;
+        case "transfer_reversal": // nets against the transfer it undoes
+        case "transfer_refund":
+          if (p.amount > 0) transferOut -= p.amount;
+          else transferIn += p.amount;
+          break;
+        case "escrow_hold":
+        case "escrow_release":
+          escrowHeld -= p.amount;
+          break;
+        case "fee":
+        case "fee_refund":
+          fees -= p.amount;
+          break;
       }
     }
 
-    // Compute balance from transaction history — this is the only source that is
-    // always complete, including admin-credited profits added before the dual-increment fix.
-    const balance = deposits
-      + txProfits
-      + adminProfitsAdded
-      + adminBonuses
-      + adminReferralCommissions
-      + referralBonuses
-      + transferIn
-      + adminBalanceAdjustments
-      - withdrawals
-      - investedFunds
-      - transferOut;
-
-    const profits = txProfits + adminProfitsAdded;
-    const referralCommissions = referralBonuses + adminReferralCommissions;
-    const bonus = adminBonuses;
-
     // Pending amounts from fund operations awaiting admin approval
     const pendingDeposits = pendingFundOps
       .filter((op) => op.type === "deposit")
@@ -73,21 +75,24 @@ export async function getBalanceSummary(req: Request, res: Response) {
       .reduce((sum, op) => sum + op.amount, 0);
 
     return success(res, {
-      balance,
-      profits,
-      referralCommissions,
-      bonus,
+      balance: ledger.balance,
+      profits: ledger.earned.profits,
+      referralCommissions: ledger.earned.referralCommissions,
+      bonus: ledger.earned.bonus,
+      buckets: ledger.buckets,
       pendingDeposits,
       pendingWithdrawals,
       breakdown: {
-        deposits,
-        profits: txProfits,
-        adminBonuses,
-        referralBonuses,
-        transferIn,
-        withdrawals,
-        investedFunds,
-        transferOut,
+        deposits: roundCents(deposits),
+        profits: roundCents(profits),
+        adminBonuses: roundCents(adminBonuses),
+        referralBonuses: roundCents(referralBonuses),
+        transferIn: roundCents(transferIn),
+        withdrawals: roundCents(withdrawals),
+        investedFunds: roundCents(investedFunds),
+        transferOut: roundCents(transferOut),
+        escrowHeld: roundCents(escrowHeld),
+        fees: roundCents(fees),
       },
     });
   } catch (err) {
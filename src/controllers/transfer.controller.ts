@@ -1,11 +1,20 @@
 import { Request, Response } from "express";
 import { prisma } from "../config/database.js";
 import { success, error } from "../utils/response.js";
+import { CAPABILITY_LEVELS, KYC_LEVEL_LABELS, kycAllows, kycLevelOf, kycLevelSelect } from "../services/kyc.service.js";
 import { verify2FACode } from "./twoFactor.controller.js";
+import { getUserBalance, InsufficientBalanceError } from "../services/ledger.service.js";
+import { quoteFee } from "../services/fee.service.js";
+import { getLimitStatus, LimitExceededError } from "../services/limits.service.js";
+import { executeTransfer, TransferError } from "../services/transfer.service.js";
 import {
-  sendTransferSentNotification,
-  sendTransferReceivedNotification,
-} from "../services/notification.service.js";
+  createSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  cancelSchedule,
+  ScheduledTransferError,
+} from "../services/scheduledTransfer.service.js";
+import { openDispute, TransferDisputeError } from "../services/transferDispute.service.js";
 
 export async function getTransfers(req: Request, res: Response) {
   try {
@@ -19,39 +28,7 @@ export async function getTransfers(req: Request, res: Response) {
       return error(res, "User not found", 404);
     }
 
-    // Compute dynamic balance from transactions + completed fund operations
-    const [transactions, completedFundOps] = await Promise.all([
-      prisma.transaction.findMany({
-        where: { userId, status: "completed" },
-        select: { type: true, amount: true },
-      }),
-      prisma.fundOperation.findMany({
-        where: { userId, status: { in: ["completed", "approved"] } },
-        select: { type: true, amount: true },
-      }),
-    ]);
-
-    let balance = 0;
-    for (const tx of transactions) {
-      switch (tx.type) {
-        case "deposit":
-        case "profit":
-        case "admin_bonus":
-        case "referral":
-        case "transfer_received":
-          balance += tx.amount;
-          break;
-        case "withdrawal":
-        case "investment":
-        case "transfer_sent":
-          balance -= Math.abs(tx.amount);
-          break;
-      }
-    }
-    for (const op of completedFundOps) {
-      if (op.type === "deposit") balance += op.amount;
-      else if (op.type === "withdrawal") balance -= op.amount;
-    }
+    const balance = await getUserBalance(userId);
 
     const transfers = await prisma.transfer.findMany({
       where: {
@@ -74,7 +51,7 @@ export async function getTransferAuthorizationStatus(req: Request, res: Response
       where: { id: userId },
       select: {
         twoFactorEnabled: true,
-        kycStatus: true,
+        ...kycLevelSelect,
       },
     });
 
@@ -82,16 +59,23 @@ export async function getTransferAuthorizationStatus(req: Request, res: Response
       return error(res, "User not found", 404);
     }
 
+    const limits = await getLimitStatus(userId, "transfer");
+
     const twoFactorEnabled = user.twoFactorEnabled;
-    const kycVerified = user.kycStatus === "verified";
-    const canTransfer = twoFactorEnabled && kycVerified;
+    const kycLevel = kycLevelOf(user);
+    const kycVerified = kycAllows(user, "transfer");
+    const limitReached = limits.windows.some((w) => w.remaining <= 0);
+    const canTransfer = twoFactorEnabled && kycVerified && !limitReached;
 
     const reasons: string[] = [];
     if (!twoFactorEnabled) {
       reasons.push("Two-factor authentication must be enabled");
     }
     if (!kycVerified) {
-      reasons.push("KYC verification required");
+      reasons.push(`${KYC_LEVEL_LABELS[CAPABILITY_LEVELS.transfer]} KYC level required`);
+    }
+    if (kycVerified && limitReached) {
+      reasons.push("Transfer limit reached");
     }
 
     return success(res, {
@@ -99,13 +83,34 @@ export async function getTransferAuthorizationStatus(req: Request, res: Response
       twoFactorEnabled,
       kycVerified,
       kycStatus: user.kycStatus,
+      kycLevel,
       reasons,
+      limits,
     });
   } catch (err) {
     return error(res, "Failed to check authorization status", 500);
   }
 }
 
+/**
+ * Quote the fee for a transfer before confirming it
+ * GET /api/transfers/fee-quote?amount=250
+ */
+export async function getTransferFeeQuote(req: Request, res: Response) {
+  try {
+    const amount = parseFloat(req.query.amount as string);
+    if (isNaN(amount) || amount <= 0) {
+      return error(res, "Invalid amount", 400);
+    }
+
+    const quote = await quoteFee("transfer", "any", amount);
+    return success(res, quote);
+  } catch (err) {
+    console.error("getTransferFeeQuote error:", err);
+    return error(res, "Failed to quote fee", 500);
+  }
+}
+
 export async function createTransfer(req: Request, res: Response) {
   try {
     const userId = req.userId!;
@@ -114,12 +119,8 @@ export async function createTransfer(req: Request, res: Response) {
     const sender = await prisma.user.findUnique({
       where: { id: userId },
       select: {
-        email: true,
-        firstName: true,
-        lastName: true,
         twoFactorEnabled: true,
         twoFactorSecret: true,
-        kycStatus: true,
       },
     });
 
@@ -136,224 +137,180 @@ export async function createTransfer(req: Request, res: Response) {
       );
     }
 
-    // Check KYC verification status
-    if (sender.kycStatus !== "verified") {
+    // Verify 2FA code
+    const is2FAValid = await verify2FACode(userId, twoFactorCode);
+    if (!is2FAValid) {
+      return error(res, "Invalid 2FA code. Please try again.", 401);
+    }
+
+    const result = await executeTransfer(userId, { recipientEmail, amount, note });
+
+    return success(res, result, "Transfer successful", 201);
+  } catch (err) {
+    if (err instanceof TransferError) {
+      return error(res, err.message, err.status);
+    }
+    if (err instanceof InsufficientBalanceError) {
+      return error(res, "Insufficient balance");
+    }
+    if (err instanceof LimitExceededError) {
+      return error(res, err.message, 403);
+    }
+    return error(res, "Failed to create transfer", 500);
+  }
+}
+
+/**
+ * The user's scheduled and recurring transfers
+ * GET /api/transfers/scheduled
+ */
+export async function getScheduledTransfers(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { status } = req.query;
+
+    const schedules = await prisma.scheduledTransfer.findMany({
+      where: { userId, ...(status ? { status: status as string } : {}) },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return success(res, schedules);
+  } catch (err) {
+    console.error("getScheduledTransfers error:", err);
+    return error(res, "Failed to fetch scheduled transfers", 500);
+  }
+}
+
+/**
+ * Schedule a future-dated or recurring transfer. KYC, limits and balance are
+ * checked when each occurrence is sent.
+ * POST /api/transfers/scheduled
+ */
+export async function createScheduledTransfer(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
+    const { recipientEmail, amount, note, frequency, startAt, endAt, twoFactorCode } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return error(res, "User not found", 404);
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
       return error(
         res,
-        "KYC verification is required to send transfers. Please complete KYC verification in settings.",
+        "Two-factor authentication must be enabled to send transfers. Please enable 2FA in security settings.",
         403
       );
     }
 
-    // Verify 2FA code
     const is2FAValid = await verify2FACode(userId, twoFactorCode);
     if (!is2FAValid) {
       return error(res, "Invalid 2FA code. Please try again.", 401);
     }
 
-    if (sender.email === recipientEmail) {
-      return error(res, "Cannot transfer to yourself");
+    const schedule = await createSchedule(userId, { recipientEmail, amount, note, frequency, startAt, endAt });
+
+    return success(res, schedule, "Transfer scheduled", 201);
+  } catch (err) {
+    if (err instanceof ScheduledTransferError) {
+      return error(res, err.message, err.status);
     }
+    console.error("createScheduledTransfer error:", err);
+    return error(res, "Failed to schedule transfer", 500);
+  }
+}
+
+/**
+ * POST /api/transfers/scheduled/:id/pause
+ */
+export async function pauseScheduledTransfer(req: Request, res: Response) {
+  try {
+    const schedule = await pauseSchedule(req.userId!, req.params.id as string);
+    return success(res, schedule, "Scheduled transfer paused");
+  } catch (err) {
+    if (err instanceof ScheduledTransferError) {
+      return error(res, err.message, err.status);
+    }
+    console.error("pauseScheduledTransfer error:", err);
+    return error(res, "Failed to pause scheduled transfer", 500);
+  }
+}
 
-    // Compute dynamic balance from transactions + completed fund operations
-    const [transactions, completedFundOps] = await Promise.all([
-      prisma.transaction.findMany({
-        where: { userId, status: "completed" },
-        select: { type: true, amount: true },
-      }),
-      prisma.fundOperation.findMany({
-        where: { userId, status: { in: ["completed", "approved"] } },
-        select: { type: true, amount: true },
-      }),
-    ]);
-
-    let balance = 0;
-    for (const tx of transactions) {
-      switch (tx.type) {
-        case "deposit":
-        case "profit":
-        case "admin_bonus":
-        case "referral":
-        case "transfer_received":
-          balance += tx.amount;
-          break;
-        case "withdrawal":
-        case "investment":
-        case "transfer_sent":
-          balance -= Math.abs(tx.amount);
-          break;
-      }
+/**
+ * POST /api/transfers/scheduled/:id/resume
+ */
+export async function resumeScheduledTransfer(req: Request, res: Response) {
+  try {
+    const schedule = await resumeSchedule(req.userId!, req.params.id as string);
+    return success(res, schedule, "Scheduled transfer resumed");
+  } catch (err) {
+    if (err instanceof ScheduledTransferError) {
+      return error(res, err.message, err.status);
     }
-    for (const op of completedFundOps) {
-      if (op.type === "deposit") balance += op.amount;
-      else if (op.type === "withdrawal") balance -= op.amount;
+    console.error("resumeScheduledTransfer error:", err);
+    return error(res, "Failed to resume scheduled transfer", 500);
+  }
+}
+
+/**
+ * POST /api/transfers/scheduled/:id/cancel
+ */
+export async function cancelScheduledTransfer(req: Request, res: Response) {
+  try {
+    const schedule = await cancelSchedule(req.userId!, req.params.id as string);
+    return success(res, schedule, "Scheduled transfer cancelled");
+  } catch (err) {
+    if (err instanceof ScheduledTransferError) {
+      return error(res, err.message, err.status);
     }
+    console.error("cancelScheduledTransfer error:", err);
+    return error(res, "Failed to cancel scheduled transfer", 500);
+  }
+}
 
-    if (balance < amount) {
-      return error(res, "Insufficient balance");
+/**
+ * Dispute a transfer you sent (wrong recipient, unauthorised, duplicate...)
+ * POST /api/transfers/:id/disputes
+ */
+export async function openTransferDispute(req: Request, res: Response) {
+  try {
+    const dispute = await openDispute(req.params.id as string, req.userId!, req.body);
+    return success(res, dispute, "Dispute opened — our team will review it", 201);
+  } catch (err) {
+    if (err instanceof TransferDisputeError) {
+      return error(res, err.message, err.status);
     }
+    console.error("openTransferDispute error:", err);
+    return error(res, "Failed to open dispute", 500);
+  }
+}
 
-    const recipient = await prisma.user.findUnique({
-      where: { email: recipientEmail },
-      select: { id: true, email: true, firstName: true, lastName: true },
-    });
+/**
+ * Disputes on transfers the user sent
+ * GET /api/transfers/disputes
+ */
+export async function getTransferDisputes(req: Request, res: Response) {
+  try {
+    const userId = req.userId!;
 
-    const transfer = await prisma.$transaction(async (tx) => {
-      const newTransfer = await tx.transfer.create({
-        data: {
-          senderId: userId,
-          recipientId: recipient?.id || null,
-          recipientEmail,
-          amount,
-          note: note || "",
-          status: recipient ? "completed" : "pending",
-          completedAt: recipient ? new Date() : null,
-        },
-      });
-
-      await tx.user.update({
-        where: { id: userId },
-        data: { balance: { decrement: amount } },
-      });
-
-      await tx.transaction.create({
-        data: {
-          userId,
-          type: "transfer_sent",
-          amount: -amount,
-          status: "completed",
-          description: `Transfer to ${recipientEmail}`,
-          reference: newTransfer.id,
-        },
-      });
-
-      if (recipient) {
-        await tx.user.update({
-          where: { id: recipient.id },
-          data: { balance: { increment: amount } },
-        });
-
-        await tx.transaction.create({
-          data: {
-            userId: recipient.id,
-            type: "transfer_received",
-            amount,
-            status: "completed",
-            description: `Transfer from ${sender.email}`,
-            reference: newTransfer.id,
-          },
-        });
-      }
-
-      return newTransfer;
+    const transfers = await prisma.transfer.findMany({
+      where: { senderId: userId },
+      select: { id: true },
     });
 
-    // Recalculate sender's balance after transfer
-    const [updatedTransactions, updatedFundOps] = await Promise.all([
-      prisma.transaction.findMany({
-        where: { userId, status: "completed" },
-        select: { type: true, amount: true },
-      }),
-      prisma.fundOperation.findMany({
-        where: { userId, status: { in: ["completed", "approved"] } },
-        select: { type: true, amount: true },
-      }),
-    ]);
-
-    let updatedBalance = 0;
-    for (const tx of updatedTransactions) {
-      switch (tx.type) {
-        case "deposit":
-        case "profit":
-        case "admin_bonus":
-        case "referral":
-        case "transfer_received":
-          updatedBalance += tx.amount;
-          break;
-        case "withdrawal":
-        case "investment":
-        case "transfer_sent":
-          updatedBalance -= Math.abs(tx.amount);
-          break;
-      }
-    }
-    for (const op of updatedFundOps) {
-      if (op.type === "deposit") updatedBalance += op.amount;
-      else if (op.type === "withdrawal") updatedBalance -= op.amount;
-    }
-
-    // Send notifications asynchronously
-    setImmediate(async () => {
-      try {
-        await sendTransferSentNotification(
-          userId,
-          sender.email,
-          recipientEmail,
-          amount,
-          updatedBalance,
-          transfer.id
-        );
-
-        if (recipient) {
-          // Calculate recipient's updated balance
-          const [recipientTransactions, recipientFundOps] = await Promise.all([
-            prisma.transaction.findMany({
-              where: { userId: recipient.id, status: "completed" },
-              select: { type: true, amount: true },
-            }),
-            prisma.fundOperation.findMany({
-              where: { userId: recipient.id, status: { in: ["completed", "approved"] } },
-              select: { type: true, amount: true },
-            }),
-          ]);
-
-          let recipientBalance = 0;
-          for (const tx of recipientTransactions) {
-            switch (tx.type) {
-              case "deposit":
-              case "profit":
-              case "admin_bonus":
-              case "referral":
-              case "transfer_received":
-                recipientBalance += tx.amount;
-                break;
-              case "withdrawal":
-              case "investment":
-              case "transfer_sent":
-                recipientBalance -= Math.abs(tx.amount);
-                break;
-            }
-          }
-          for (const op of recipientFundOps) {
-            if (op.type === "deposit") recipientBalance += op.amount;
-            else if (op.type === "withdrawal") recipientBalance -= op.amount;
-          }
-
-          await sendTransferReceivedNotification(
-            recipient.id,
-            recipient.email,
-            sender.email,
-            amount,
-            recipientBalance,
-            transfer.id
-          );
-        }
-      } catch (notifError) {
-        console.error("Error sending transfer notifications:", notifError);
-      }
+    const disputes = await prisma.transferDispute.findMany({
+      where: { transferId: { in: transfers.map((t) => t.id) } },
+      orderBy: { createdAt: "desc" },
     });
 
-    return success(
-      res,
-      {
-        transfer,
-        balance: updatedBalance,
-        recipientExists: !!recipient,
-      },
-      "Transfer successful",
-      201
-    );
+    return success(res, disputes);
   } catch (err) {
-    return error(res, "Failed to create transfer", 500);
+    console.error("getTransferDisputes error:", err);
+    return error(res, "Failed to fetch disputes", 500);
   }
 }
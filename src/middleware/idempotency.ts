@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { error } from "../utils/response.js";
+
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A key still "processing" after this belongs to a request that died without
+// answering (crashed process, dropped connection); a retry may take it over
+const PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Single-use auth codes change on every retry, so they aren't part of the payload
+const VOLATILE_FIELDS = new Set(["twoFactorCode", "otp", "password", "currentPassword"]);
+
+function withoutVolatileFields(body: unknown) {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return body;
+  return Object.fromEntries(Object.entries(body).filter(([k]) => !VOLATILE_FIELDS.has(k)));
+}
+
+// Key order in the JSON body shouldn't make a retry look like a different request
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Optional `Idempotency-Key` header support for money-moving routes.
+ * Must be used AFTER the authenticate middleware.
+ *
+ * The first successful (2xx) response for a (user, key) pair is stored and
+ * replayed verbatim for retries with the same payload. Reusing a key with a
+ * different payload is rejected with 422 (one-time codes such as
+ * twoFactorCode are left out of the comparison); a retry that arrives while
+ * the first request is still running gets 409. Failed responses, and requests
+ * that end without a JSON response, release the key so the client can retry
+ * with it; a key left processing by a request that never answered can be
+ * taken over once PROCESSING_TIMEOUT_MS has passed.
+ */
+export function idempotency() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header("Idempotency-Key");
+    if (!key) return next();
+
+    if (!req.userId) {
+      return error(res, "Authentication required", 401);
+    }
+
+    if (key.length > 255) {
+      return error(res, "Idempotency-Key must be at most 255 characters", 400);
+    }
+
+    const userId = req.userId;
+    const path = req.baseUrl + req.path;
+    const requestHash = crypto
+      .createHash("sha256")
+      .update(`${req.method} ${path} ${canonicalJson(withoutVolatileFields(req.body))}`)
+      .digest("hex");
+
+    try {
+      await prisma.idempotencyKey.create({
+        data: { userId, key, method: req.method, path, requestHash },
+      });
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) {
+        console.error("Idempotency key error:", err);
+        return error(res, "Failed to process request", 500);
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+      if (!existing) {
+        return error(res, "A request with this Idempotency-Key is still being processed", 409);
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return error(res, "This Idempotency-Key was already used with a different request", 422);
+      }
+
+      if (existing.status !== "completed" || existing.responseStatus === null) {
+        // Take over a key abandoned mid-request; the conditional update lets only one retry win
+        const stale = Date.now() - existing.createdAt.getTime() > PROCESSING_TIMEOUT_MS;
+        const { count } = stale
+          ? await prisma.idempotencyKey.updateMany({
+              where: { id: existing.id, status: "processing", createdAt: existing.createdAt },
+              data: { createdAt: new Date() },
+            })
+          : { count: 0 };
+        if (count === 0) {
+          return error(res, "A request with this Idempotency-Key is still being processed", 409);
+        }
+      } else {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus).json(existing.responseBody);
+      }
+    }
+
+    const release = () =>
+      prisma.idempotencyKey
+        .deleteMany({ where: { userId, key, status: "processing" } })
+        .catch((err) => console.error("Idempotency key release error:", err));
+
+    // Capture the handler's response. The key is saved before the reply goes
+    // out, so a retry sent the moment the client sees it finds the stored body.
+    let answered = false;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      answered = true;
+      const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+      const save = succeeded
+        ? prisma.idempotencyKey
+            .update({
+              where: { userId_key: { userId, key } },
+              data: {
+                status: "completed",
+                responseStatus: res.statusCode,
+                responseBody: JSON.parse(JSON.stringify(body ?? null)),
+              },
+            })
+            .catch((err) => console.error("Idempotency key save error:", err))
+        : release();
+      save
+        .then(() => originalJson(body))
+        .catch((err) => console.error("Idempotent response error:", err));
+      return res;
+    };
+
+    // Answered without res.json (res.send, a redirect, an error page). A
+    // dropped connection doesn't release the key — the handler may still be
+    // running — and is left to the processing timeout instead.
+    res.on("finish", () => {
+      if (!answered) release();
+    });
+
+    next();
+  };
+}
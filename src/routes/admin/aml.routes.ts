@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import {
+  createAmlRuleSchema,
+  updateAmlRuleSchema,
+  assignAmlAlertSchema,
+  updateAmlAlertStatusSchema,
+  addAmlAlertNoteSchema,
+} from "../../validators/admin/aml.schema.js";
+import {
+  getAmlRules,
+  createAmlRule,
+  updateAmlRule,
+  deleteAmlRule,
+  getAmlAlerts,
+  getAmlAlert,
+  assignAmlAlert,
+  updateAmlAlertStatus,
+  addAmlAlertNote,
+} from "../../controllers/admin/aml.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/rules", getAmlRules);
+router.post("/rules", validate(createAmlRuleSchema), createAmlRule);
+router.patch("/rules/:id", validate(updateAmlRuleSchema), updateAmlRule);
+router.delete("/rules/:id", deleteAmlRule);
+
+router.get("/alerts", getAmlAlerts);
+router.get("/alerts/:id", getAmlAlert);
+router.post("/alerts/:id/assign", validate(assignAmlAlertSchema), assignAmlAlert);
+router.post("/alerts/:id/status", validate(updateAmlAlertStatusSchema), updateAmlAlertStatus);
+router.post("/alerts/:id/notes", validate(addAmlAlertNoteSchema), addAmlAlertNote);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { acceptBidSchema } from "../../validators/admin/auctions.schema.js";
+import { getAuctions, getPropertyBids, acceptBid } from "../../controllers/admin/auctions.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getAuctions);
+router.get("/:propertyId/bids", getPropertyBids);
+router.post("/:propertyId/accept", validate(acceptBidSchema), acceptBid);
+
+export default router;
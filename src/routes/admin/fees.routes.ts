@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { createFeeRuleSchema, updateFeeRuleSchema } from "../../validators/admin/fees.schema.js";
+import {
+  getFeeRules,
+  createFeeRule,
+  updateFeeRule,
+  deleteFeeRule,
+  previewFeeQuote,
+} from "../../controllers/admin/fees.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getFeeRules);
+router.get("/quote", previewFeeQuote);
+router.post("/", validate(createFeeRuleSchema), createFeeRule);
+router.patch("/:id", validate(updateFeeRuleSchema), updateFeeRule);
+router.delete("/:id", deleteFeeRule);
+
+export default router;
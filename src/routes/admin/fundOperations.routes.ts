@@ -5,6 +5,7 @@ import {
   getAllFundOperations,
   approveFundOperation,
   rejectFundOperation,
+  checkFundOperationChain,
 } from "../../controllers/admin/fundOperations.controller.js";
 
 const router = Router();
@@ -15,5 +16,6 @@ router.use(requireRole("admin", "superadmin"));
 router.get("/", getAllFundOperations);
 router.post("/:id/approve", approveFundOperation);
 router.post("/:id/reject", rejectFundOperation);
+router.post("/:id/check-chain", checkFundOperationChain);
 
 export default router;
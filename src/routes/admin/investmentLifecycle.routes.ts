@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import {
+  approveExitSchema,
+  rejectExitSchema,
+  cancelInvestmentSchema,
+  runMaturitiesSchema,
+} from "../../validators/admin/investmentLifecycle.schema.js";
+import {
+  getExitRequests,
+  approveExitRequest,
+  rejectExitRequest,
+  cancelInvestment,
+  previewMaturities,
+  runMaturitiesNow,
+} from "../../controllers/admin/investmentLifecycle.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/exit-requests", getExitRequests);
+router.post("/exit-requests/:id/approve", validate(approveExitSchema), approveExitRequest);
+router.post("/exit-requests/:id/reject", validate(rejectExitSchema), rejectExitRequest);
+router.post("/investments/:id/cancel", validate(cancelInvestmentSchema), cancelInvestment);
+router.get("/maturities/preview", previewMaturities);
+router.post("/maturities/run", validate(runMaturitiesSchema), runMaturitiesNow);
+
+export default router;
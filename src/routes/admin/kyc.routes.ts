@@ -1,12 +1,17 @@
 import { Router } from "express";
 import { authenticate } from "../../middleware/authenticate.js";
 import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { setKycLevelSchema, requestReverificationSchema } from "../../validators/admin/kyc.schema.js";
 import {
   getAllKYCSubmissions,
   getKYCSubmission,
   approveKYC,
   rejectKYC,
   getKYCStats,
+  getUserKYCLevels,
+  setUserKYCLevel,
+  requestUserReverification,
 } from "../../controllers/admin/kyc.controller.js";
 
 const router = Router();
@@ -30,4 +35,13 @@ router.post("/approve/:id", approveKYC);
 // POST /api/admin/kyc/reject/:id - Reject KYC
 router.post("/reject/:id", rejectKYC);
 
+// GET /api/admin/kyc/users/:userId/levels - Current level and level change history
+router.get("/users/:userId/levels", getUserKYCLevels);
+
+// POST /api/admin/kyc/users/:userId/level - Set a user's level directly
+router.post("/users/:userId/level", validate(setKycLevelSchema), setUserKYCLevel);
+
+// POST /api/admin/kyc/users/:userId/reverify - Require a verified user to re-verify
+router.post("/users/:userId/reverify", validate(requestReverificationSchema), requestUserReverification);
+
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { getAllListings, getAllTrades, cancelListing } from "../../controllers/admin/market.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/listings", getAllListings);
+router.post("/listings/:id/cancel", cancelListing);
+router.get("/trades", getAllTrades);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { runPayoutsSchema } from "../../validators/admin/payouts.schema.js";
+import {
+  previewPayouts,
+  runPayoutsNow,
+  getPayouts,
+} from "../../controllers/admin/payouts.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getPayouts);
+router.get("/preview", previewPayouts);
+router.post("/run", validate(runPayoutsSchema), runPayoutsNow);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { purchaseOrderNoteSchema, releasePurchaseOrderSchema } from "../../validators/admin/purchaseOrders.schema.js";
+import {
+  getPurchaseOrders,
+  acceptOrder,
+  completeOrder,
+  releaseOrder,
+} from "../../controllers/admin/purchaseOrders.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getPurchaseOrders);
+router.post("/:id/accept", validate(purchaseOrderNoteSchema), acceptOrder);
+router.post("/:id/complete", validate(purchaseOrderNoteSchema), completeOrder);
+router.post("/:id/release", validate(releasePurchaseOrderSchema), releaseOrder);
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import multer from "multer";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { matchStatementLineSchema, ignoreStatementLineSchema } from "../../validators/admin/reconciliation.schema.js";
+import {
+  importBankStatement,
+  getStatementImports,
+  getStatementLines,
+  matchStatementLine,
+  ignoreStatementLine,
+} from "../../controllers/admin/reconciliation.controller.js";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+});
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.post("/imports", upload.single("statement"), importBankStatement);
+router.get("/imports", getStatementImports);
+router.get("/lines", getStatementLines);
+router.post("/lines/:id/match", validate(matchStatementLineSchema), matchStatementLine);
+router.post("/lines/:id/ignore", validate(ignoreStatementLineSchema), ignoreStatementLine);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import {
+  releaseReferralCommissionSchema,
+  rejectReferralCommissionSchema,
+} from "../../validators/admin/referralPrograms.schema.js";
+import {
+  getReferralCommissions,
+  getReferralCommission,
+  checkReferralPair,
+  releaseReferralCommission,
+  rejectReferralCommission,
+} from "../../controllers/admin/referralCommissions.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getReferralCommissions);
+router.get("/check", checkReferralPair);
+router.get("/:id", getReferralCommission);
+router.post("/:id/release", validate(releaseReferralCommissionSchema), releaseReferralCommission);
+router.post("/:id/reject", validate(rejectReferralCommissionSchema), rejectReferralCommission);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import {
+  createReferralProgramSchema,
+  updateReferralProgramSchema,
+} from "../../validators/admin/referralPrograms.schema.js";
+import {
+  getReferralPrograms,
+  getReferralProgram,
+  createReferralProgram,
+  updateReferralProgram,
+  deleteReferralProgram,
+} from "../../controllers/admin/referralPrograms.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getReferralPrograms);
+router.get("/:id", getReferralProgram);
+router.post("/", validate(createReferralProgramSchema), createReferralProgram);
+router.patch("/:id", validate(updateReferralProgramSchema), updateReferralProgram);
+router.delete("/:id", deleteReferralProgram);
+
+export default router;
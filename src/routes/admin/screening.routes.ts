@@ -0,0 +1,34 @@
+import { Router } from "express";
+import multer from "multer";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import { resolveScreeningHitSchema } from "../../validators/admin/screening.schema.js";
+import {
+  importScreeningList,
+  getScreeningLists,
+  getScreeningHits,
+  getScreeningHit,
+  resolveScreeningHit,
+  screenUserNow,
+} from "../../controllers/admin/screening.controller.js";
+
+const router = Router();
+
+// Published sanctions lists run to tens of megabytes
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
+});
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.post("/lists", upload.single("list"), importScreeningList);
+router.get("/lists", getScreeningLists);
+router.get("/hits", getScreeningHits);
+router.get("/hits/:id", getScreeningHit);
+router.post("/hits/:id/resolve", validate(resolveScreeningHitSchema), resolveScreeningHit);
+router.post("/users/:userId/screen", screenUserNow);
+
+export default router;
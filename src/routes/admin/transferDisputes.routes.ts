@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { authenticate } from "../../middleware/authenticate.js";
+import { requireRole } from "../../middleware/requireRole.js";
+import { validate } from "../../middleware/validate.js";
+import {
+  adminOpenDisputeSchema,
+  reverseDisputeSchema,
+  rejectDisputeSchema,
+} from "../../validators/admin/transferDisputes.schema.js";
+import {
+  getTransferDisputes,
+  getTransferDispute,
+  createTransferDispute,
+  reverseTransferDispute,
+  rejectTransferDispute,
+} from "../../controllers/admin/transferDisputes.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole("admin", "superadmin"));
+
+router.get("/", getTransferDisputes);
+router.get("/:id", getTransferDispute);
+router.post("/", validate(adminOpenDisputeSchema), createTransferDispute);
+router.post("/:id/reverse", validate(reverseDisputeSchema), reverseTransferDispute);
+router.post("/:id/reject", validate(rejectDisputeSchema), rejectTransferDispute);
+
+export default router;
@@ -6,6 +6,7 @@ import {
   updateUserRoleSchema,
   updateUserStatusSchema,
   updateUserKycSchema,
+  setUserLimitSchema,
 } from "../../validators/admin/users.schema.js";
 import {
   getAllUsers,
@@ -17,6 +18,8 @@ import {
   assignReferral,
   getUserStats,
   resetUser,
+  getUserLimits,
+  setUserLimitOverride,
 } from "../../controllers/admin/users.controller.js";
 
 const router = Router();
@@ -32,6 +35,8 @@ router.patch("/:id/role", validate(updateUserRoleSchema), updateUserRole);
 router.patch("/:id/status", validate(updateUserStatusSchema), updateUserStatus);
 router.patch("/:id/kyc", validate(updateUserKycSchema), updateUserKyc);
 router.patch("/:id/balance", updateUserBalance);
+router.get("/:id/limits", getUserLimits);
+router.put("/:id/limits", validate(setUserLimitSchema), setUserLimitOverride);
 router.post("/:id/assign-referral", assignReferral);
 router.post("/:id/reset", resetUser);
 
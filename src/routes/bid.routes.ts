@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/authenticate.js";
-import { submitBid, submitBuyNow } from "../controllers/bid.controller.js";
+import { submitBid, submitBuyNow, getBidHistory } from "../controllers/bid.controller.js";
 
 const router = Router();
 
 router.use(authenticate);
 router.post("/:id/bid", submitBid);
+router.get("/:id/bids", getBidHistory);
 router.post("/:id/buy", submitBuyNow);
 
 export default router;
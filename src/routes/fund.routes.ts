@@ -1,15 +1,18 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/authenticate.js";
 import { validate } from "../middleware/validate.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { depositSchema, withdrawSchema } from "../validators/fund.schema.js";
-import { deposit, withdraw, getHistory } from "../controllers/fund.controller.js";
+import { deposit, getHistory } from "../controllers/fund.controller.js";
+import { createWithdrawal } from "../controllers/fundOperations.controller.js";
 
 const router = Router();
 
 router.use(authenticate);
 
 router.post("/deposit", validate(depositSchema), deposit);
-router.post("/withdraw", validate(withdrawSchema), withdraw);
+// A pending request like /fund-operations/withdrawal, with the same 2FA, KYC, limit and fee checks
+router.post("/withdraw", idempotency(), validate(withdrawSchema), createWithdrawal);
 router.get("/history", getHistory);
 
 export default router;
@@ -2,6 +2,7 @@ import { Router } from "express";
 import multer from "multer";
 import { authenticate } from "../middleware/authenticate.js";
 import { validate } from "../middleware/validate.js";
+import { idempotency } from "../middleware/idempotency.js";
 import { z } from "zod";
 import {
   createDeposit,
@@ -10,6 +11,9 @@ import {
   getFundOperations,
   getFundOperationById,
   getWithdrawalAuthorizationStatus,
+  getFundOperationFeeQuote,
+  submitCryptoTransaction,
+  getMyDepositReference,
 } from "../controllers/fundOperations.controller.js";
 
 const router = Router();
@@ -34,17 +38,27 @@ const depositSchema = z.object({
 const withdrawalSchema = z.object({
   method: z.enum(["bank", "crypto"]),
   amount: z.number().positive(),
-  details: z.record(z.unknown()).optional(),
+  destinationId: z.string().length(24, "Choose a saved withdrawal destination"),
   twoFactorCode: z
     .string()
     .length(6, "2FA code must be 6 digits")
     .regex(/^\d{6}$/, "2FA code must contain only digits"),
 });
 
+const cryptoTxSchema = z.object({
+  reference: z.string().min(1),
+  walletId: z.string().length(24),
+  txHash: z.string().trim().min(10).max(128).regex(/^[A-Za-z0-9]+$/, "Invalid transaction hash"),
+  cryptoAmount: z.number().positive(),
+});
+
 router.get("/withdrawal-authorization", getWithdrawalAuthorizationStatus);
-router.post("/deposit", validate(depositSchema), createDeposit);
-router.post("/withdrawal", validate(withdrawalSchema), createWithdrawal);
+router.get("/fee-quote", getFundOperationFeeQuote);
+router.get("/deposit-reference", getMyDepositReference);
+router.post("/deposit", idempotency(), validate(depositSchema), createDeposit);
+router.post("/withdrawal", idempotency(), validate(withdrawalSchema), createWithdrawal);
 router.post("/upload-receipt", upload.single("receipt"), uploadReceipt);
+router.post("/crypto-tx", validate(cryptoTxSchema), submitCryptoTransaction);
 router.get("/", getFundOperations);
 router.get("/:id", getFundOperationById);
 
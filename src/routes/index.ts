@@ -13,6 +13,8 @@ import supportRoutes from "./support.routes.js";
 import transferRoutes from "./transfer.routes.js";
 import transactionsRoutes from "./transactions.routes.js";
 import investmentsRoutes from "./investments.routes.js";
+import marketRoutes from "./market.routes.js";
+import purchaseOrdersRoutes from "./purchaseOrders.routes.js";
 import propertiesRoutes from "./properties.routes.js";
 import bidRoutes from "./bid.routes.js";
 import notificationsRoutes from "./notifications.routes.js";
@@ -20,6 +22,8 @@ import referralRoutes from "./referral.routes.js";
 import fundRoutes from "./fund.routes.js";
 import paymentMethodsRoutes from "./paymentMethods.routes.js";
 import fundOperationsRoutes from "./fundOperations.routes.js";
+import payoutDestinationsRoutes from "./payoutDestinations.routes.js";
+import paymentRequestsRoutes from "./paymentRequests.routes.js";
 import newsletterRoutes from "./newsletter.routes.js";
 import contactRoutes from "./contact.routes.js";
 import reviewsRoutes from "./reviews.routes.js";
@@ -38,6 +42,18 @@ import adminReviewsRoutes from "./admin/reviews.routes.js";
 import adminWhatsappRoutes from "./admin/whatsapp.routes.js";
 import adminChatRoutes from "./admin/chat.routes.js";
 import adminZillowRoutes from "./admin/zillow.routes.js";
+import adminPayoutsRoutes from "./admin/payouts.routes.js";
+import adminInvestmentLifecycleRoutes from "./admin/investmentLifecycle.routes.js";
+import adminMarketRoutes from "./admin/market.routes.js";
+import adminAuctionsRoutes from "./admin/auctions.routes.js";
+import adminPurchaseOrdersRoutes from "./admin/purchaseOrders.routes.js";
+import adminFeesRoutes from "./admin/fees.routes.js";
+import adminReconciliationRoutes from "./admin/reconciliation.routes.js";
+import adminTransferDisputesRoutes from "./admin/transferDisputes.routes.js";
+import adminReferralProgramsRoutes from "./admin/referralPrograms.routes.js";
+import adminReferralCommissionsRoutes from "./admin/referralCommissions.routes.js";
+import adminScreeningRoutes from "./admin/screening.routes.js";
+import adminAmlRoutes from "./admin/aml.routes.js";
 import documentsRoutes from "./documents.routes.js";
 import kycRoutes from "./kyc.routes.js";
 import forumRoutes from "./forum.routes.js";
@@ -67,8 +83,11 @@ router.use("/2fa", apiLimiter, twoFactorRoutes);
 router.use("/kyc", apiLimiter, kycRoutes);
 router.use("/support", apiLimiter, supportRoutes);
 router.use("/transfers", apiLimiter, transferRoutes);
+router.use("/payment-requests", apiLimiter, paymentRequestsRoutes);
 router.use("/transactions", apiLimiter, transactionsRoutes);
 router.use("/investments", apiLimiter, investmentsRoutes);
+router.use("/market", apiLimiter, marketRoutes);
+router.use("/purchase-orders", apiLimiter, purchaseOrdersRoutes);
 router.use("/properties", apiLimiter, propertiesRoutes);
 router.use("/properties", apiLimiter, bidRoutes);
 router.use("/notifications", apiLimiter, notificationsRoutes);
@@ -76,6 +95,7 @@ router.use("/referrals", apiLimiter, referralRoutes);
 router.use("/fund", apiLimiter, fundRoutes);
 router.use("/payment-methods", apiLimiter, paymentMethodsRoutes);
 router.use("/fund-operations", apiLimiter, fundOperationsRoutes);
+router.use("/payout-destinations", apiLimiter, payoutDestinationsRoutes);
 router.use("/reviews", apiLimiter, reviewsRoutes);
 router.use("/documents", apiLimiter, documentsRoutes);
 router.use("/forum", apiLimiter, forumRoutes);
@@ -96,5 +116,17 @@ router.use("/admin/reviews", adminReviewsRoutes);
 router.use("/admin/whatsapp", adminWhatsappRoutes);
 router.use("/admin/chat", adminChatRoutes);
 router.use("/admin/zillow", adminZillowRoutes);
+router.use("/admin/payouts", adminPayoutsRoutes);
+router.use("/admin/investment-lifecycle", adminInvestmentLifecycleRoutes);
+router.use("/admin/market", adminMarketRoutes);
+router.use("/admin/auctions", adminAuctionsRoutes);
+router.use("/admin/purchase-orders", adminPurchaseOrdersRoutes);
+router.use("/admin/fees", adminFeesRoutes);
+router.use("/admin/reconciliation", adminReconciliationRoutes);
+router.use("/admin/transfer-disputes", adminTransferDisputesRoutes);
+router.use("/admin/referral-programs", adminReferralProgramsRoutes);
+router.use("/admin/referral-commissions", adminReferralCommissionsRoutes);
+router.use("/admin/screening", adminScreeningRoutes);
+router.use("/admin/aml", adminAmlRoutes);
 
 export default router;
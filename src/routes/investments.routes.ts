@@ -1,14 +1,30 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/authenticate.js";
-import { getUserInvestments, createInvestment, createPropertyInvestment, checkUserPropertyInvestment } from "../controllers/investments.controller.js";
+import { validate } from "../middleware/validate.js";
+import { idempotency } from "../middleware/idempotency.js";
+import { exitRequestSchema } from "../validators/investments.schema.js";
+import {
+  getUserInvestments,
+  createInvestment,
+  createPropertyInvestment,
+  checkUserPropertyInvestment,
+  getExitQuote,
+  requestEarlyExit,
+  getMyExitRequests,
+  cancelExitRequest,
+} from "../controllers/investments.controller.js";
 
 const router = Router();
 
 router.use(authenticate);
 
 router.get("/", getUserInvestments);
-router.post("/", createInvestment);
+router.post("/", idempotency(), createInvestment);
 router.get("/property/:propertyId/check", checkUserPropertyInvestment);
-router.post("/property", createPropertyInvestment);
+router.post("/property", idempotency(), createPropertyInvestment);
+router.get("/exit-requests", getMyExitRequests);
+router.post("/exit-requests/:id/cancel", cancelExitRequest);
+router.get("/:id/exit-quote", getExitQuote);
+router.post("/:id/exit", validate(exitRequestSchema), requestEarlyExit);
 
 export default router;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/authenticate.js";
+import { validate } from "../middleware/validate.js";
+import { createListingSchema, buyListingSchema } from "../validators/market.schema.js";
+import {
+  getListings,
+  getMyListings,
+  createListing,
+  cancelListing,
+  buyListing,
+  getMyTrades,
+} from "../controllers/market.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/listings", getListings);
+router.get("/listings/mine", getMyListings);
+router.post("/listings", validate(createListingSchema), createListing);
+router.post("/listings/:id/cancel", cancelListing);
+router.post("/listings/:id/buy", validate(buyListingSchema), buyListing);
+router.get("/trades", getMyTrades);
+
+export default router;
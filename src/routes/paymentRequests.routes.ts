@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/authenticate.js";
+import { validate } from "../middleware/validate.js";
+import { idempotency } from "../middleware/idempotency.js";
+import { createPaymentRequestSchema, payPaymentRequestSchema } from "../validators/paymentRequests.schema.js";
+import {
+  getPaymentRequests,
+  createPaymentRequest,
+  getPaymentLink,
+  payPaymentRequest,
+  declinePaymentRequest,
+  cancelPaymentRequest,
+} from "../controllers/paymentRequests.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getPaymentRequests);
+router.post("/", validate(createPaymentRequestSchema), createPaymentRequest);
+router.get("/link/:token", getPaymentLink);
+router.post("/:id/pay", idempotency(), validate(payPaymentRequestSchema), payPaymentRequest);
+router.post("/:id/decline", declinePaymentRequest);
+router.post("/:id/cancel", cancelPaymentRequest);
+
+export default router;
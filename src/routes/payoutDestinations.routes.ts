@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/authenticate.js";
+import { validate } from "../middleware/validate.js";
+import { addPayoutDestinationSchema, confirmPayoutDestinationSchema } from "../validators/payoutDestinations.schema.js";
+import {
+  getPayoutDestinations,
+  createPayoutDestination,
+  confirmPayoutDestination,
+  deletePayoutDestination,
+} from "../controllers/payoutDestinations.controller.js";
+
+const router = Router();
+
+// Opened from the confirmation email, possibly without a session
+router.post("/confirm", validate(confirmPayoutDestinationSchema), confirmPayoutDestination);
+
+router.use(authenticate);
+
+router.get("/", getPayoutDestinations);
+router.post("/", validate(addPayoutDestinationSchema), createPayoutDestination);
+router.delete("/:id", deletePayoutDestination);
+
+export default router;
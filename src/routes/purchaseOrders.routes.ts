@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { authenticate } from "../middleware/authenticate.js";
+import { getMyPurchaseOrders, cancelPurchaseOrder } from "../controllers/purchaseOrders.controller.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getMyPurchaseOrders);
+router.post("/:id/cancel", cancelPurchaseOrder);
+
+export default router;
@@ -1,9 +1,12 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/authenticate.js";
-import { getInfo, getStats, getList } from "../controllers/referral.controller.js";
+import { getInfo, getStats, getList, getPublicLeaderboard } from "../controllers/referral.controller.js";
 
 const router = Router();
 
+// Public
+router.get("/leaderboard", getPublicLeaderboard);
+
 router.use(authenticate);
 
 router.get("/info", getInfo);
@@ -1,11 +1,20 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/authenticate.js";
 import { validate } from "../middleware/validate.js";
-import { createTransferSchema } from "../validators/transfer.schema.js";
+import { idempotency } from "../middleware/idempotency.js";
+import { createTransferSchema, createScheduledTransferSchema, openTransferDisputeSchema } from "../validators/transfer.schema.js";
 import {
   getTransfers,
   createTransfer,
   getTransferAuthorizationStatus,
+  getTransferFeeQuote,
+  getScheduledTransfers,
+  createScheduledTransfer,
+  pauseScheduledTransfer,
+  resumeScheduledTransfer,
+  cancelScheduledTransfer,
+  openTransferDispute,
+  getTransferDisputes,
 } from "../controllers/transfer.controller.js";
 
 const router = Router();
@@ -14,6 +23,14 @@ router.use(authenticate);
 
 router.get("/", getTransfers);
 router.get("/authorization-status", getTransferAuthorizationStatus);
-router.post("/", validate(createTransferSchema), createTransfer);
+router.get("/fee-quote", getTransferFeeQuote);
+router.post("/", idempotency(), validate(createTransferSchema), createTransfer);
+router.get("/scheduled", getScheduledTransfers);
+router.post("/scheduled", idempotency(), validate(createScheduledTransferSchema), createScheduledTransfer);
+router.post("/scheduled/:id/pause", pauseScheduledTransfer);
+router.post("/scheduled/:id/resume", resumeScheduledTransfer);
+router.post("/scheduled/:id/cancel", cancelScheduledTransfer);
+router.get("/disputes", getTransferDisputes);
+router.post("/:id/disputes", validate(openTransferDisputeSchema), openTransferDispute);
 
 export default router;
@@ -6,6 +6,16 @@ import { env } from "./config/env.js";
 import { prisma } from "./config/database.js";
 import { initSocket } from "./services/socket.service.js";
 import { startWhatsApp } from "./services/whatsapp.service.js";
+import { runPayouts } from "./services/payout.service.js";
+import { runMaturities } from "./services/investmentLifecycle.service.js";
+import { closeEndedAuctions } from "./services/auction.service.js";
+import { runCryptoDepositChecks } from "./services/chainWatcher.service.js";
+import { runScheduledTransfers } from "./services/scheduledTransfer.service.js";
+import { expirePaymentRequests, releaseStalePayingRequests } from "./services/paymentRequest.service.js";
+import { refundExpiredPendingTransfers } from "./services/pendingTransfer.service.js";
+import { runDocumentExpiryChecks } from "./services/kyc.service.js";
+import { ensureDefaultAmlRules, runAmlMonitoring } from "./services/aml.service.js";
+import { IDEMPOTENCY_TTL_MS } from "./middleware/idempotency.js";
 
 const PORT = env.PORT;
 
@@ -40,6 +50,150 @@ async function startServer() {
     cleanupOldChatSessions(); // run once on startup
     setInterval(cleanupOldChatSessions, 60 * 60 * 1000); // then every hour
 
+    // Idempotency keys only need to outlive client retries
+    async function cleanupIdempotencyKeys() {
+      try {
+        const cutoff = new Date(Date.now() - IDEMPOTENCY_TTL_MS);
+        const { count } = await prisma.idempotencyKey.deleteMany({
+          where: { createdAt: { lt: cutoff } },
+        });
+        if (count > 0) console.log(`🧹 Deleted ${count} expired idempotency key(s)`);
+      } catch (err) {
+        console.error("Idempotency key cleanup error:", err);
+      }
+    }
+    cleanupIdempotencyKeys(); // run once on startup
+    setInterval(cleanupIdempotencyKeys, 60 * 60 * 1000); // then every hour
+
+    // Monthly return payouts — credit every investment whose anniversary has passed
+    async function processDuePayouts() {
+      try {
+        const result = await runPayouts();
+        if (result.paid.length > 0) {
+          console.log(`💸 Paid ${result.paid.length} monthly return(s) totalling $${result.totalPaid}`);
+        }
+        if (result.failed.length > 0) {
+          console.error(`⚠️  ${result.failed.length} monthly return payout(s) failed`);
+        }
+      } catch (err) {
+        console.error("Payout job error:", err);
+      }
+    }
+    processDuePayouts(); // run once on startup
+    setInterval(processDuePayouts, 60 * 60 * 1000); // then every hour
+
+    // Investment maturity — close positions whose property term has ended and return principal
+    async function processMaturities() {
+      try {
+        const result = await runMaturities();
+        if (result.matured.length > 0) {
+          console.log(`🏁 Matured ${result.matured.length} investment(s)`);
+        }
+        if (result.failed.length > 0) {
+          console.error(`⚠️  ${result.failed.length} investment maturity(ies) failed`);
+        }
+      } catch (err) {
+        console.error("Maturity job error:", err);
+      }
+    }
+    processMaturities(); // run once on startup
+    setInterval(processMaturities, 60 * 60 * 1000); // then every hour
+
+    // Auctions — stop taking bids once a property's auction end time has passed
+    async function processEndedAuctions() {
+      try {
+        const closed = await closeEndedAuctions();
+        if (closed > 0) console.log(`🔨 Closed ${closed} ended auction(s)`);
+      } catch (err) {
+        console.error("Auction close job error:", err);
+      }
+    }
+    processEndedAuctions(); // run once on startup
+    setInterval(processEndedAuctions, 60 * 1000); // then every minute
+
+    // Crypto deposits — follow submitted transactions and approve them once confirmed
+    async function processCryptoDeposits() {
+      try {
+        const result = await runCryptoDepositChecks();
+        if (result.approved > 0) console.log(`⛓️  Approved ${result.approved} crypto deposit(s) confirmed on-chain`);
+        if (result.mismatched > 0) console.error(`⚠️  ${result.mismatched} crypto deposit(s) don't match their transaction`);
+      } catch (err) {
+        console.error("Crypto deposit job error:", err);
+      }
+    }
+    processCryptoDeposits(); // run once on startup
+    setInterval(processCryptoDeposits, 60 * 1000); // then every minute
+
+    // Scheduled transfers — send future-dated and recurring transfers that have come due
+    async function processScheduledTransfers() {
+      try {
+        const result = await runScheduledTransfers();
+        if (result.sent > 0) console.log(`🔁 Sent ${result.sent} scheduled transfer(s)`);
+        if (result.failed > 0) console.error(`⚠️  ${result.failed} scheduled transfer(s) failed`);
+      } catch (err) {
+        console.error("Scheduled transfer job error:", err);
+      }
+    }
+    processScheduledTransfers(); // run once on startup
+    setInterval(processScheduledTransfers, 60 * 1000); // then every minute
+
+    // Payment requests — expire unanswered requests and pay links, reopen abandoned payments
+    async function processExpiredPaymentRequests() {
+      try {
+        const released = await releaseStalePayingRequests();
+        if (released > 0) console.log(`↩️  Reopened ${released} payment request(s) stuck paying`);
+        const expired = await expirePaymentRequests();
+        if (expired > 0) console.log(`⌛ Expired ${expired} payment request(s)`);
+      } catch (err) {
+        console.error("Payment request expiry job error:", err);
+      }
+    }
+    processExpiredPaymentRequests(); // run once on startup
+    setInterval(processExpiredPaymentRequests, 60 * 60 * 1000); // then every hour
+
+    // Pending transfers — refund transfers to unregistered emails that were never claimed
+    async function processUnclaimedTransfers() {
+      try {
+        const result = await refundExpiredPendingTransfers();
+        if (result.refunded > 0) console.log(`↩️  Refunded ${result.refunded} unclaimed transfer(s)`);
+        if (result.failed > 0) console.error(`⚠️  ${result.failed} unclaimed transfer refund(s) failed`);
+      } catch (err) {
+        console.error("Unclaimed transfer job error:", err);
+      }
+    }
+    processUnclaimedTransfers(); // run once on startup
+    setInterval(processUnclaimedTransfers, 60 * 60 * 1000); // then every hour
+
+    // KYC documents — warn before ID documents expire, require re-verification once they have
+    async function processDocumentExpiry() {
+      try {
+        const result = await runDocumentExpiryChecks();
+        if (result.warned > 0) console.log(`🪪 Sent ${result.warned} KYC document expiry warning(s)`);
+        if (result.expired > 0) console.log(`🪪 ${result.expired} KYC document(s) expired, re-verification required`);
+        if (result.failed > 0) console.error(`⚠️  ${result.failed} KYC document expiry check(s) failed`);
+      } catch (err) {
+        console.error("KYC document expiry job error:", err);
+      }
+    }
+    processDocumentExpiry(); // run once on startup
+    setInterval(processDocumentExpiry, 60 * 60 * 1000); // then every hour
+
+    // AML monitoring — run the active rules over new transactions, transfers and fund operations
+    async function processAmlMonitoring() {
+      try {
+        const result = await runAmlMonitoring();
+        if (result.alerts > 0) console.log(`🕵️ ${result.alerts} AML alert(s) raised from ${result.events} event(s)`);
+        if (result.failed > 0) console.error(`⚠️  ${result.failed} AML check(s) failed`);
+      } catch (err) {
+        console.error("AML monitoring job error:", err);
+      }
+    }
+    ensureDefaultAmlRules()
+      .then((created) => created > 0 && console.log(`🕵️ Created ${created} default AML rule(s)`))
+      .catch((err) => console.error("AML default rules error:", err))
+      .finally(processAmlMonitoring); // run once on startup
+    setInterval(processAmlMonitoring, 60 * 1000); // then every minute
+
     httpServer.listen(PORT, () => {
       console.log(`\n🚀 Server running on http://localhost:${PORT}`);
       console.log(`   Health check: http://localhost:${PORT}/health`);
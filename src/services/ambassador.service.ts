@@ -0,0 +1,156 @@
+import { prisma } from "../config/database.js";
+import { createInAppNotification } from "./notification.service.js";
+
+/**
+ * Ambassador tiers.
+ *
+ * A referrer's tier comes from their completed referrals and the total their
+ * referred users have deposited; both thresholds have to be met. The tier's
+ * multiplier scales every referral commission they earn. Tiers are stored on
+ * the user and refreshed whenever one of the inputs changes, so the
+ * leaderboard and commission code can read them without recomputing.
+ */
+
+export const AMBASSADOR_TIERS = [
+  { tier: "none", minReferrals: 0, minVolume: 0, multiplier: 1 },
+  { tier: "bronze", minReferrals: 3, minVolume: 1_000, multiplier: 1.1 },
+  { tier: "silver", minReferrals: 10, minVolume: 10_000, multiplier: 1.25 },
+  { tier: "gold", minReferrals: 25, minVolume: 50_000, multiplier: 1.5 },
+] as const;
+
+export type AmbassadorTier = typeof AMBASSADOR_TIERS[number]["tier"];
+
+function tierIndex(tier: string) {
+  return Math.max(0, AMBASSADOR_TIERS.findIndex((t) => t.tier === tier));
+}
+
+export function tierMultiplier(tier: string): number {
+  return AMBASSADOR_TIERS[tierIndex(tier)].multiplier;
+}
+
+export function tierFor(completedReferrals: number, referredVolume: number): AmbassadorTier {
+  let reached: AmbassadorTier = "none";
+  for (const t of AMBASSADOR_TIERS) {
+    if (completedReferrals >= t.minReferrals && referredVolume >= t.minVolume) reached = t.tier;
+  }
+  return reached;
+}
+
+/**
+ * Completed referrals and completed deposits by referred users, per referrer.
+ */
+export async function getAmbassadorStats(userIds: string[]) {
+  const [referrals, referred] = await Promise.all([
+    prisma.referral.groupBy({
+      by: ["referrerId"],
+      where: { referrerId: { in: userIds }, status: "completed" },
+      _count: { _all: true },
+    }),
+    prisma.user.findMany({
+      where: { referredById: { in: userIds } },
+      select: { id: true, referredById: true },
+    }),
+  ]);
+
+  const deposits = referred.length
+    ? await prisma.fundOperation.groupBy({
+        by: ["userId"],
+        where: { userId: { in: referred.map((u) => u.id) }, type: "deposit", status: "completed" },
+        _sum: { amount: true },
+      })
+    : [];
+  const depositedBy = new Map(deposits.map((d) => [d.userId, d._sum.amount ?? 0]));
+
+  const stats = new Map<string, { completedReferrals: number; referredVolume: number }>();
+  for (const id of userIds) stats.set(id, { completedReferrals: 0, referredVolume: 0 });
+  for (const r of referrals) stats.get(r.referrerId)!.completedReferrals = r._count._all;
+  for (const u of referred) stats.get(u.referredById!)!.referredVolume += depositedBy.get(u.id) ?? 0;
+  return stats;
+}
+
+/**
+ * Where the user stands and what the next tier needs.
+ */
+export async function getAmbassadorProgress(userId: string) {
+  const { completedReferrals, referredVolume } = (await getAmbassadorStats([userId])).get(userId)!;
+  const tier = tierFor(completedReferrals, referredVolume);
+  const next = AMBASSADOR_TIERS[tierIndex(tier) + 1];
+
+  return {
+    tier,
+    multiplier: tierMultiplier(tier),
+    completedReferrals,
+    referredVolume,
+    nextTier: next
+      ? {
+          tier: next.tier,
+          multiplier: next.multiplier,
+          referralsNeeded: Math.max(0, next.minReferrals - completedReferrals),
+          volumeNeeded: Math.max(0, next.minVolume - referredVolume),
+        }
+      : null,
+  };
+}
+
+/**
+ * Recompute and store a referrer's tier, congratulating them on a move up.
+ */
+export async function refreshAmbassadorTier(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { ambassadorTier: true } });
+  if (!user) return null;
+
+  const { tier, multiplier } = await getAmbassadorProgress(userId);
+  if (tier === user.ambassadorTier) return tier;
+
+  // Conditional so two refreshes racing can't both announce the same move
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, ambassadorTier: user.ambassadorTier },
+    data: { ambassadorTier: tier, ambassadorTierAt: new Date() },
+  });
+
+  if (count > 0 && tierIndex(tier) > tierIndex(user.ambassadorTier)) {
+    const name = tier.charAt(0).toUpperCase() + tier.slice(1);
+    createInAppNotification(
+      userId,
+      "investment",
+      `You're now a ${name} Ambassador`,
+      `Thanks for spreading the word! Your referral commissions now earn a ${Math.round((multiplier - 1) * 100)}% bonus.`
+    ).catch(() => {});
+  }
+  return tier;
+}
+
+// "Jane Doe" → "J*** D."
+function maskName(firstName: string, lastName: string) {
+  const first = firstName.trim();
+  const last = lastName.trim();
+  return `${first.charAt(0).toUpperCase()}***${last ? ` ${last.charAt(0).toUpperCase()}.` : ""}`;
+}
+
+/**
+ * Top referrers among users who opted in to the public leaderboard.
+ */
+export async function getLeaderboard(limit: number) {
+  const optedIn = await prisma.userSettings.findMany({
+    where: { showOnLeaderboard: true },
+    select: { userId: true },
+  });
+  const users = await prisma.user.findMany({
+    where: { id: { in: optedIn.map((s) => s.userId) }, isActive: true },
+    select: { id: true, firstName: true, lastName: true, ambassadorTier: true },
+  });
+  if (users.length === 0) return [];
+
+  const stats = await getAmbassadorStats(users.map((u) => u.id));
+  return users
+    .map((u) => ({ user: u, ...stats.get(u.id)! }))
+    .filter((entry) => entry.completedReferrals > 0)
+    .sort((a, b) => b.completedReferrals - a.completedReferrals || b.referredVolume - a.referredVolume)
+    .slice(0, limit)
+    .map((entry, i) => ({
+      rank: i + 1,
+      name: maskName(entry.user.firstName, entry.user.lastName),
+      tier: entry.user.ambassadorTier,
+      completedReferrals: entry.completedReferrals,
+    }));
+}
@@ -0,0 +1,537 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { getLimitStatus, LimitOperation } from "./limits.service.js";
+import { notifyAdminAmlAlert } from "./notification.service.js";
+
+/**
+ * AML transaction monitoring.
+ *
+ * A background job reads every new Transaction, Transfer and FundOperation
+ * (each collection from its own AmlMonitorCursor, re-reading a short overlap
+ * so rows from slow transactions aren't skipped) and turns it into one or
+ * more events — a transfer is money out for the sender and money in for the
+ * recipient. Each active AmlRule whose type handles that kind of event checks
+ * it against the user's recent history; a rule that fires raises an AmlAlert
+ * in the admin case queue, or adds to the one already open for that rule and
+ * user.
+ *
+ * Money into a user from a held transfer only arrives when they claim it, long
+ * after the transfer row was created, so the claim queues that event itself
+ * (AmlQueuedEvent) and the job drains the queue after the scan.
+ *
+ * The checks are code; which rules run, their thresholds and severities live
+ * in AmlRule and are edited from the admin API.
+ */
+
+export class AmlError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AmlError";
+  }
+}
+
+export const AML_RULE_TYPES = [
+  "rapid_in_out",
+  "structuring",
+  "inbound_fan_in",
+  "new_destination_after_password_change",
+  "large_amount",
+] as const;
+export type AmlRuleType = typeof AML_RULE_TYPES[number];
+
+export const AML_EVENT_KINDS = ["deposit", "withdrawal", "transfer_out", "transfer_in", "transaction"] as const;
+export type AmlEventKind = typeof AML_EVENT_KINDS[number];
+
+export const ALERT_STATUSES = ["open", "investigating", "escalated", "closed"] as const;
+export const ALERT_RESOLUTIONS = ["false_positive", "no_action", "reported"] as const;
+export type AlertStatus = typeof ALERT_STATUSES[number];
+export type AlertResolution = typeof ALERT_RESOLUTIONS[number];
+
+// Thresholds each rule type uses unless the rule's params override them
+export const DEFAULT_RULE_PARAMS = {
+  // Money withdrawn soon after it was deposited
+  rapid_in_out: { windowHours: 48, minDeposited: 1_000, minWithdrawnPercent: 80 },
+  // Repeated amounts just under a reporting threshold or the user's daily limit
+  structuring: {
+    windowHours: 7 * 24,
+    thresholds: [10_000],
+    useUserLimits: true,
+    marginPercent: 10,
+    minCount: 3,
+    kinds: ["deposit", "withdrawal", "transfer_out"] as AmlEventKind[],
+  },
+  // Transfers in from many different senders
+  inbound_fan_in: { windowHours: 24, minSenders: 5 },
+  // First withdrawal to a destination shortly after the password changed
+  new_destination_after_password_change: { passwordChangeHours: 72 },
+  // Any single event at or above an amount
+  large_amount: {
+    minAmount: 10_000,
+    kinds: ["deposit", "withdrawal", "transfer_out", "transfer_in"] as AmlEventKind[],
+  },
+};
+
+type RuleParams<T extends AmlRuleType> = (typeof DEFAULT_RULE_PARAMS)[T];
+
+export const DEFAULT_RULES: { name: string; type: AmlRuleType; severity: string; description: string }[] = [
+  { name: "Rapid deposit then withdrawal", type: "rapid_in_out", severity: "high", description: "Most of a recent deposit withdrawn within two days" },
+  { name: "Structuring under limits", type: "structuring", severity: "high", description: "Three or more amounts within 10% under $10,000 or the user's daily limit in a week" },
+  { name: "Many inbound senders", type: "inbound_fan_in", severity: "medium", description: "Transfers in from five or more different senders in a day" },
+  { name: "New destination after password change", type: "new_destination_after_password_change", severity: "high", description: "First withdrawal to a destination within 72 hours of a password change" },
+  { name: "Large amount", type: "large_amount", severity: "low", description: "A single deposit, withdrawal or transfer of $10,000 or more" },
+];
+
+export interface AmlEvent {
+  source: "transaction" | "transfer" | "fund_operation";
+  id: string;
+  kind: AmlEventKind;
+  userId: string;
+  amount: number;
+  at: Date;
+  counterpartyId?: string | null;
+  destinationId?: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function paramsOf<T extends AmlRuleType>(type: T, params: Prisma.JsonValue): RuleParams<T> {
+  const overrides = params && typeof params === "object" && !Array.isArray(params) ? params : {};
+  return { ...DEFAULT_RULE_PARAMS[type], ...overrides } as RuleParams<T>;
+}
+
+function money(amount: number) {
+  return `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+// Amounts of the user's own events of one kind since `since`
+async function recentAmounts(userId: string, kind: AmlEventKind, since: Date): Promise<number[]> {
+  const createdAt = { gte: since };
+  let rows: { amount: number }[] = [];
+  if (kind === "deposit" || kind === "withdrawal") {
+    rows = await prisma.fundOperation.findMany({ where: { userId, type: kind, createdAt, status: { not: "failed" } }, select: { amount: true } });
+  } else if (kind === "transfer_out") {
+    rows = await prisma.transfer.findMany({ where: { senderId: userId, createdAt, status: { not: "failed" } }, select: { amount: true } });
+  } else if (kind === "transfer_in") {
+    // Held transfers count from when they were claimed
+    rows = await prisma.transfer.findMany({ where: { recipientId: userId, completedAt: createdAt, status: "completed" }, select: { amount: true } });
+  } else {
+    rows = await prisma.transaction.findMany({ where: { userId, createdAt, status: { not: "failed" } }, select: { amount: true } });
+  }
+  return rows.map((r) => r.amount);
+}
+
+const LIMIT_OPERATION: Partial<Record<AmlEventKind, LimitOperation>> = {
+  deposit: "deposit",
+  withdrawal: "withdrawal",
+  transfer_out: "transfer",
+};
+
+type Check<T extends AmlRuleType> = {
+  kinds: (params: RuleParams<T>) => readonly AmlEventKind[];
+  // A summary of what was found, or null when the event is fine
+  evaluate: (event: AmlEvent, params: RuleParams<T>) => Promise<string | null>;
+};
+
+const CHECKS: { [T in AmlRuleType]: Check<T> } = {
+  rapid_in_out: {
+    kinds: () => ["withdrawal"],
+    async evaluate(event, params) {
+      const since = new Date(event.at.getTime() - params.windowHours * HOUR_MS);
+      const deposits = await prisma.fundOperation.aggregate({
+        where: { userId: event.userId, type: "deposit", status: "completed", completedAt: { gte: since, lte: event.at } },
+        _sum: { amount: true },
+      });
+      const deposited = deposits._sum.amount ?? 0;
+      if (deposited < params.minDeposited || event.amount < (deposited * params.minWithdrawnPercent) / 100) return null;
+      return `Withdrawal of ${money(event.amount)} within ${params.windowHours}h of depositing ${money(deposited)}`;
+    },
+  },
+
+  structuring: {
+    kinds: (params) => params.kinds,
+    async evaluate(event, params) {
+      const thresholds = [...params.thresholds];
+      const operation = LIMIT_OPERATION[event.kind];
+      if (params.useUserLimits && operation) {
+        const limits = await getLimitStatus(event.userId, operation);
+        thresholds.push(limits.windows.find((w) => w.period === "daily")!.limit);
+      }
+      const justUnder = (amount: number) =>
+        thresholds.some((t) => amount < t && amount >= t * (1 - params.marginPercent / 100));
+      if (!justUnder(event.amount)) return null;
+
+      const since = new Date(event.at.getTime() - params.windowHours * HOUR_MS);
+      const count = (await recentAmounts(event.userId, event.kind, since)).filter(justUnder).length;
+      if (count < params.minCount) return null;
+      return `${count} ${event.kind.replace("_", " ")}s within ${params.marginPercent}% under a threshold (${thresholds.map(money).join(", ")}) in ${params.windowHours}h`;
+    },
+  },
+
+  inbound_fan_in: {
+    kinds: () => ["transfer_in"],
+    async evaluate(event, params) {
+      const since = new Date(event.at.getTime() - params.windowHours * HOUR_MS);
+      const senders = await prisma.transfer.findMany({
+        where: { recipientId: event.userId, status: "completed", completedAt: { gte: since } },
+        select: { senderId: true },
+        distinct: ["senderId"],
+      });
+      if (senders.length < params.minSenders) return null;
+      return `Transfers in from ${senders.length} different senders in ${params.windowHours}h`;
+    },
+  },
+
+  new_destination_after_password_change: {
+    kinds: () => ["withdrawal"],
+    async evaluate(event, params) {
+      if (!event.destinationId) return null;
+      const user = await prisma.user.findUnique({ where: { id: event.userId }, select: { passwordChangedAt: true } });
+      const changedAt = user?.passwordChangedAt;
+      if (!changedAt || changedAt > event.at || event.at.getTime() - changedAt.getTime() > params.passwordChangeHours * HOUR_MS) {
+        return null;
+      }
+
+      const earlier = await prisma.fundOperation.count({
+        where: { userId: event.userId, type: "withdrawal", destinationId: event.destinationId, id: { not: event.id }, createdAt: { lt: event.at } },
+      });
+      if (earlier > 0) return null;
+
+      const hours = Math.round((event.at.getTime() - changedAt.getTime()) / HOUR_MS);
+      return `First withdrawal (${money(event.amount)}) to a destination, ${hours}h after a password change`;
+    },
+  },
+
+  large_amount: {
+    kinds: (params) => params.kinds,
+    async evaluate(event, params) {
+      if (event.amount < params.minAmount) return null;
+      return `Single ${event.kind.replace("_", " ")} of ${money(event.amount)}`;
+    },
+  },
+};
+
+// ─── Alerts ──────────────────────────────────────────────────────────────────
+
+type AlertSubject = { source: string; id: string; kind: string; amount: number; at: string };
+
+async function raiseAlert(
+  rule: { id: string; name: string; type: string; severity: string },
+  event: AmlEvent,
+  summary: string
+) {
+  const subject: AlertSubject = { source: event.source, id: event.id, kind: event.kind, amount: event.amount, at: event.at.toISOString() };
+
+  const open = await prisma.amlAlert.findFirst({
+    where: { ruleId: rule.id, userId: event.userId, status: { not: "closed" } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (open) {
+    const subjects = open.subjects as AlertSubject[];
+    if (subjects.some((s) => s.id === subject.id && s.kind === subject.kind)) return null;
+    return prisma.amlAlert.update({
+      where: { id: open.id },
+      data: {
+        summary,
+        subjects: [...subjects, subject],
+        triggerCount: { increment: 1 },
+        lastTriggeredAt: new Date(),
+      },
+    });
+  }
+
+  const alert = await prisma.amlAlert.create({
+    data: {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.type,
+      severity: rule.severity,
+      userId: event.userId,
+      summary,
+      subjects: [subject],
+    },
+  });
+
+  if (alert.severity === "high") {
+    const user = await prisma.user.findUnique({ where: { id: event.userId }, select: { email: true } });
+    notifyAdminAmlAlert(user?.email ?? event.userId, alert.ruleName, summary).catch(() => {});
+  }
+  return alert;
+}
+
+/**
+ * Run every active rule that handles this kind of event; returns how many
+ * alerts were raised or added to.
+ */
+export async function evaluateEvent(
+  event: AmlEvent,
+  rules: { id: string; name: string; type: string; severity: string; params: Prisma.JsonValue }[]
+) {
+  let raised = 0;
+  for (const rule of rules) {
+    if (!AML_RULE_TYPES.includes(rule.type as AmlRuleType)) continue;
+    const type = rule.type as AmlRuleType;
+    const check = CHECKS[type] as Check<AmlRuleType>;
+    const params = paramsOf(type, rule.params);
+    if (!check.kinds(params).includes(event.kind)) continue;
+
+    const summary = await check.evaluate(event, params);
+    if (summary && (await raiseAlert(rule, event, summary))) raised++;
+  }
+  return raised;
+}
+
+// ─── Monitor ─────────────────────────────────────────────────────────────────
+
+// Each run re-reads this far behind the newest row it has seen. A row written
+// inside a transaction becomes visible when that commits, which can be after
+// newer rows; write transactions time out at 15s, so this comfortably covers
+// them. AmlSeenEvent keeps rows in the overlap from being checked twice.
+const OVERLAP_MS = 5 * 60 * 1000;
+// Seen-marks are only needed while their row can still fall in the overlap
+const SEEN_RETENTION_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 200;
+const NO_ID = "000000000000000000000000";
+
+type Source = AmlEvent["source"];
+
+async function readSource(source: Source, after: { createdAt: Date; id: string }) {
+  const where = {
+    OR: [
+      { createdAt: { gt: after.createdAt } },
+      { createdAt: after.createdAt, id: { gt: after.id } },
+    ],
+  };
+  const orderBy = [{ createdAt: "asc" as const }, { id: "asc" as const }];
+
+  if (source === "fund_operation") {
+    const rows = await prisma.fundOperation.findMany({ where, orderBy, take: BATCH_SIZE });
+    return rows.map((r) => ({
+      row: r,
+      events: [{ source, id: r.id, kind: r.type as AmlEventKind, userId: r.userId, amount: r.amount, at: r.createdAt, destinationId: r.destinationId }],
+    }));
+  }
+  if (source === "transfer") {
+    const rows = await prisma.transfer.findMany({ where, orderBy, take: BATCH_SIZE });
+    return rows.map((r) => ({
+      row: r,
+      events: [
+        { source, id: r.id, kind: "transfer_out" as const, userId: r.senderId, amount: r.amount, at: r.createdAt, counterpartyId: r.recipientId },
+        ...(r.recipientId && r.status === "completed"
+          ? [{ source, id: r.id, kind: "transfer_in" as const, userId: r.recipientId, amount: r.amount, at: r.createdAt, counterpartyId: r.senderId }]
+          : []),
+      ],
+    }));
+  }
+  const rows = await prisma.transaction.findMany({ where, orderBy, take: BATCH_SIZE });
+  return rows.map((r) => ({
+    row: r,
+    events: [{ source, id: r.id, kind: "transaction" as const, userId: r.userId, amount: Math.abs(r.amount), at: r.createdAt }],
+  }));
+}
+
+/**
+ * Queue an event the collection scan can't see — money into a user from a
+ * held transfer they claim long after it was created. Written in the caller's
+ * transaction so the event exists exactly when the claim does.
+ */
+export async function queueAmlEvent(tx: Prisma.TransactionClient, event: AmlEvent) {
+  await tx.amlQueuedEvent.create({
+    data: {
+      source: event.source,
+      sourceId: event.id,
+      kind: event.kind,
+      userId: event.userId,
+      amount: event.amount,
+      occurredAt: event.at,
+      counterpartyId: event.counterpartyId ?? null,
+      destinationId: event.destinationId ?? null,
+    },
+  });
+}
+
+/**
+ * Check one event unless it already has been. The mark is taken first so two
+ * overlapping runs can't both check it, and dropped again if the check fails
+ * so the next run retries it.
+ */
+async function monitorEvent(event: AmlEvent, rules: Parameters<typeof evaluateEvent>[1]) {
+  const mark = { source: event.source, sourceId: event.id, kind: event.kind };
+  try {
+    await prisma.amlSeenEvent.create({ data: mark });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return null;
+    throw err;
+  }
+
+  try {
+    return await evaluateEvent(event, rules);
+  } catch (err) {
+    await prisma.amlSeenEvent.deleteMany({ where: mark }).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Create the built-in rules on a fresh install. Rules an admin has deleted
+ * aren't brought back once any exist.
+ */
+export async function ensureDefaultAmlRules() {
+  if ((await prisma.amlRule.count()) > 0) return 0;
+  const { count } = await prisma.amlRule.createMany({ data: DEFAULT_RULES.map((r) => ({ ...r, params: {} })) });
+  return count;
+}
+
+/**
+ * Evaluate everything written since the last run. The first run starts from
+ * now rather than replaying history.
+ */
+export async function runAmlMonitoring() {
+  const result = { events: 0, alerts: 0, failed: 0 };
+  const rules = await prisma.amlRule.findMany({ where: { isActive: true } });
+
+  for (const source of ["fund_operation", "transfer", "transaction"] as Source[]) {
+    const cursor = await prisma.amlMonitorCursor.findUnique({ where: { source } });
+    if (!cursor) {
+      await prisma.amlMonitorCursor.create({ data: { source, lastCreatedAt: new Date() } });
+      continue;
+    }
+
+    let after = { createdAt: new Date(cursor.lastCreatedAt.getTime() - OVERLAP_MS), id: NO_ID };
+    let newest = cursor.lastCreatedAt;
+    for (;;) {
+      const batch = await readSource(source, after);
+      const seen = new Set(
+        (
+          await prisma.amlSeenEvent.findMany({
+            where: { source, sourceId: { in: batch.map((b) => b.row.id) } },
+            select: { sourceId: true, kind: true },
+          })
+        ).map((m) => `${m.sourceId}:${m.kind}`)
+      );
+      for (const { row, events } of batch) {
+        for (const event of events) {
+          if (seen.has(`${event.id}:${event.kind}`)) continue;
+          try {
+            const raised = await monitorEvent(event, rules);
+            if (raised === null) continue;
+            result.alerts += raised;
+            result.events++;
+          } catch (err) {
+            console.error(`AML check failed for ${source} ${row.id}:`, err);
+            result.failed++;
+          }
+        }
+        after = { createdAt: row.createdAt, id: row.id };
+        if (row.createdAt > newest) newest = row.createdAt;
+      }
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    await prisma.amlMonitorCursor.update({ where: { source }, data: { lastCreatedAt: newest } });
+  }
+
+  const queued = await prisma.amlQueuedEvent.findMany({ orderBy: { createdAt: "asc" }, take: BATCH_SIZE * 5 });
+  for (const q of queued) {
+    const event: AmlEvent = {
+      source: q.source as Source,
+      id: q.sourceId,
+      kind: q.kind as AmlEventKind,
+      userId: q.userId,
+      amount: q.amount,
+      at: q.occurredAt,
+      counterpartyId: q.counterpartyId,
+      destinationId: q.destinationId,
+    };
+    try {
+      const raised = await monitorEvent(event, rules);
+      if (raised !== null) {
+        result.alerts += raised;
+        result.events++;
+      }
+      await prisma.amlQueuedEvent.delete({ where: { id: q.id } });
+    } catch (err) {
+      // Left queued for the next run
+      console.error(`AML check failed for queued ${q.kind} ${q.sourceId}:`, err);
+      result.failed++;
+    }
+  }
+
+  await prisma.amlSeenEvent.deleteMany({ where: { createdAt: { lt: new Date(Date.now() - SEEN_RETENTION_MS) } } });
+
+  return result;
+}
+
+// ─── Case handling ───────────────────────────────────────────────────────────
+
+async function findAlert(alertId: string) {
+  const alert = await prisma.amlAlert.findUnique({ where: { id: alertId } });
+  if (!alert) throw new AmlError("Alert not found", 404);
+  return alert;
+}
+
+/**
+ * Assign a case to an admin, or unassign it with null.
+ */
+export async function assignAlert(alertId: string, assigneeId: string | null, actorId: string) {
+  const alert = await findAlert(alertId);
+  if (assigneeId) {
+    const assignee = await prisma.user.findUnique({ where: { id: assigneeId }, select: { role: true } });
+    if (!assignee || !["admin", "superadmin"].includes(assignee.role)) {
+      throw new AmlError("Cases can only be assigned to admins");
+    }
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.amlAlert.update({
+      where: { id: alert.id },
+      data: { assignedTo: assigneeId, assignedAt: assigneeId ? new Date() : null },
+    }),
+    prisma.amlAlertNote.create({
+      data: { alertId: alert.id, authorId: actorId, body: assigneeId ? `Assigned to ${assigneeId}` : "Unassigned" },
+    }),
+  ]);
+  return updated;
+}
+
+/**
+ * Move a case through the queue. Closing needs a resolution; reopening clears it.
+ */
+export async function setAlertStatus(
+  alertId: string,
+  actorId: string,
+  status: AlertStatus,
+  resolution: AlertResolution | undefined,
+  note: string | undefined
+) {
+  const alert = await findAlert(alertId);
+  if (alert.status === status) throw new AmlError(`Alert is already ${status}`);
+  if (status === "closed" && !resolution) throw new AmlError("A resolution is required to close an alert");
+
+  const closing = status === "closed";
+  const [updated] = await prisma.$transaction([
+    prisma.amlAlert.update({
+      where: { id: alert.id },
+      data: {
+        status,
+        resolution: closing ? resolution : null,
+        closedBy: closing ? actorId : null,
+        closedAt: closing ? new Date() : null,
+      },
+    }),
+    prisma.amlAlertNote.create({
+      data: {
+        alertId: alert.id,
+        authorId: actorId,
+        body: `Status ${alert.status} → ${status}${closing ? ` (${resolution})` : ""}${note ? `: ${note}` : ""}`,
+      },
+    }),
+  ]);
+  return updated;
+}
+
+export async function addAlertNote(alertId: string, authorId: string, body: string) {
+  const alert = await findAlert(alertId);
+  return prisma.amlAlertNote.create({ data: { alertId: alert.id, authorId, body } });
+}
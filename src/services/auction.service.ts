@@ -0,0 +1,265 @@
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { createInAppNotification } from "./notification.service.js";
+import { emitToAll, emitToUser } from "./socket.service.js";
+import { sendOutbidEmail, sendBidAcceptedEmail } from "./email.service.js";
+import { assertCanInvest, KycLevelError } from "./kyc.service.js";
+
+/**
+ * Auctions for for-sale properties.
+ *
+ * Every bid is stored; the property keeps the current high bid in
+ * `recentBidAmount` and the count in `bidCount`. A bid is accepted only if the
+ * property still has the high bid it was validated against, so two bidders
+ * racing for the same increment can't both lead.
+ *
+ * Bids inside the last AUCTION_SNIPE_WINDOW_MINUTES push `auctionEndsAt` out to
+ * AUCTION_SNIPE_EXTENSION_MINUTES from now. Ended auctions wait for an admin
+ * to accept the winning bid.
+ */
+
+export class BidRejectedError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "BidRejectedError";
+  }
+}
+
+interface AuctionState {
+  bidCount: number;
+  recentBidAmount: number;
+  startingBid: number;
+  minBidIncrement: number;
+  reservePrice: number;
+}
+
+export function minimumNextBid(p: AuctionState): number {
+  if (p.bidCount > 0 && p.recentBidAmount > 0) {
+    return p.recentBidAmount + p.minBidIncrement;
+  }
+  return p.startingBid;
+}
+
+export function reserveMet(p: AuctionState): boolean {
+  return p.reservePrice <= 0 || (p.bidCount > 0 && p.recentBidAmount >= p.reservePrice);
+}
+
+export async function placeBid(userId: string, propertyId: string, amount: number) {
+  const now = new Date();
+
+  // A bid is a commitment to invest the full amount if it wins
+  await assertCanInvest(userId, amount);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const property = await tx.property.findUnique({ where: { id: propertyId, isActive: true } });
+
+    if (!property) throw new BidRejectedError("Property not found.", 404);
+    if (property.category !== "for_sale") throw new BidRejectedError("Bidding is only available for for-sale properties.");
+    if (property.investmentStatus !== "available" || property.auctionStatus !== "open") {
+      throw new BidRejectedError("This property is not currently accepting bids.");
+    }
+    if (property.auctionEndsAt && property.auctionEndsAt <= now) {
+      throw new BidRejectedError("This auction has ended.");
+    }
+
+    const minimum = minimumNextBid(property);
+    if (amount < minimum || amount <= 0) {
+      throw new BidRejectedError(`Your bid must be at least $${minimum.toLocaleString()}.`);
+    }
+
+    let auctionEndsAt = property.auctionEndsAt;
+    const windowMs = env.AUCTION_SNIPE_WINDOW_MINUTES * 60 * 1000;
+    const extended = !!auctionEndsAt && windowMs > 0 && auctionEndsAt.getTime() - now.getTime() <= windowMs;
+    if (extended) {
+      auctionEndsAt = new Date(Math.max(auctionEndsAt!.getTime(), now.getTime() + env.AUCTION_SNIPE_EXTENSION_MINUTES * 60 * 1000));
+    }
+
+    const claimed = await tx.property.updateMany({
+      where: {
+        id: propertyId,
+        auctionStatus: "open",
+        // A buy-now order taking the property under contract wins over a racing bid
+        investmentStatus: "available",
+        bidCount: property.bidCount,
+        recentBidAmount: property.recentBidAmount,
+      },
+      data: { bidCount: { increment: 1 }, recentBidAmount: amount, auctionEndsAt },
+    });
+    if (claimed.count === 0) {
+      throw new BidRejectedError("A higher bid was just placed. Please refresh and try again.", 409);
+    }
+
+    const previousLeader = await tx.bid.findFirst({ where: { propertyId, status: "leading" } });
+    if (previousLeader) {
+      await tx.bid.update({ where: { id: previousLeader.id }, data: { status: "outbid" } });
+    }
+
+    const bid = await tx.bid.create({
+      data: { propertyId, userId, amount, status: "leading", extendedAuction: extended },
+    });
+
+    return { bid, property, previousLeader, auctionEndsAt, bidCount: property.bidCount + 1 };
+  }, { timeout: 15000 });
+
+  emitToAll("auction:bid", {
+    propertyId,
+    amount,
+    bidCount: result.bidCount,
+    auctionEndsAt: result.auctionEndsAt,
+    minimumNextBid: amount + result.property.minBidIncrement,
+  });
+
+  const outbid = result.previousLeader;
+  if (outbid && outbid.userId !== userId) {
+    notifyOutbid(outbid.userId, result.property.title, propertyId, outbid.amount, amount, result.auctionEndsAt)
+      .catch((err) => console.error("Outbid notification error:", err));
+  }
+
+  return result;
+}
+
+async function notifyOutbid(
+  userId: string,
+  propertyTitle: string,
+  propertyId: string,
+  yourBid: number,
+  newHighBid: number,
+  auctionEndsAt: Date | null
+) {
+  emitToUser(userId, "auction:outbid", { propertyId, propertyTitle, yourBid, newHighBid, auctionEndsAt });
+
+  await createInAppNotification(
+    userId,
+    "bid",
+    "You've Been Outbid",
+    `Your bid of $${yourBid.toLocaleString()} on "${propertyTitle}" was outbid. The highest bid is now $${newHighBid.toLocaleString()}.`
+  );
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true, firstName: true } });
+  if (user) {
+    await sendOutbidEmail(user.email, user.firstName || user.email.split("@")[0], propertyTitle, yourBid, newHighBid, auctionEndsAt);
+  }
+}
+
+/**
+ * Move auctions whose end time has passed to "ended" so no more bids are taken.
+ */
+export async function closeEndedAuctions(now: Date = new Date()): Promise<number> {
+  const expired = await prisma.property.findMany({
+    where: { auctionStatus: "open", auctionEndsAt: { lte: now } },
+    select: { id: true, title: true, bidCount: true, recentBidAmount: true, reservePrice: true, startingBid: true, minBidIncrement: true },
+  });
+
+  let closed = 0;
+  for (const property of expired) {
+    const { count } = await prisma.property.updateMany({
+      where: { id: property.id, auctionStatus: "open" },
+      data: { auctionStatus: "ended" },
+    });
+    if (count === 0) continue;
+    closed++;
+
+    emitToAll("auction:ended", { propertyId: property.id, amount: property.recentBidAmount, bidCount: property.bidCount });
+
+    const leader = await prisma.bid.findFirst({ where: { propertyId: property.id, status: "leading" } });
+    if (leader) {
+      await createInAppNotification(
+        leader.userId,
+        "bid",
+        "Auction Ended",
+        reserveMet(property)
+          ? `The auction for "${property.title}" has ended and your bid of $${leader.amount.toLocaleString()} is the highest. We'll be in touch once it's accepted.`
+          : `The auction for "${property.title}" has ended. Your bid of $${leader.amount.toLocaleString()} was the highest but did not meet the reserve price; our team will follow up.`
+      );
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Accept the leading bid: it becomes "accepted", every other bid "lost", and
+ * the property stops taking bids or investments.
+ */
+export async function acceptWinningBid(propertyId: string, options: { overrideReserve?: boolean } = {}) {
+  const result = await prisma.$transaction(async (tx) => {
+    const property = await tx.property.findUnique({ where: { id: propertyId } });
+    if (!property) throw new BidRejectedError("Property not found", 404);
+    if (property.auctionStatus === "accepted") throw new BidRejectedError("A bid has already been accepted for this property");
+
+    const winner = await tx.bid.findFirst({ where: { propertyId, status: "leading" } });
+    if (!winner) throw new BidRejectedError("This property has no bids to accept");
+
+    // The bidder may have been downgraded (e.g. re-verification) since bidding
+    try {
+      await assertCanInvest(winner.userId, winner.amount);
+    } catch (err) {
+      if (!(err instanceof KycLevelError)) throw err;
+      throw new BidRejectedError(
+        `The highest bidder's KYC level doesn't allow a $${winner.amount.toLocaleString()} investment — they need to complete verification first`
+      );
+    }
+
+    const activeOrder = await tx.purchaseOrder.findFirst({
+      where: { propertyId, status: { in: ["requested", "deposit_held", "accepted"] } },
+      select: { id: true, status: true },
+    });
+    if (activeOrder) {
+      throw new BidRejectedError(`This property is under contract (purchase order ${activeOrder.id} is ${activeOrder.status.replace("_", " ")})`, 409);
+    }
+
+    if (!reserveMet(property) && !options.overrideReserve) {
+      throw new BidRejectedError(`The highest bid ($${winner.amount.toLocaleString()}) is below the reserve price`);
+    }
+
+    const claimed = await tx.property.updateMany({
+      where: {
+        id: propertyId,
+        auctionStatus: property.auctionStatus,
+        recentBidAmount: winner.amount,
+        investmentStatus: { not: "under-contract" },
+      },
+      data: { auctionStatus: "accepted", winningBidId: winner.id, investmentStatus: "closed" },
+    });
+    if (claimed.count === 0) throw new BidRejectedError("The auction changed — please refresh and try again", 409);
+
+    await tx.bid.update({ where: { id: winner.id }, data: { status: "accepted" } });
+    await tx.bid.updateMany({
+      where: { propertyId, id: { not: winner.id }, status: { in: ["leading", "outbid"] } },
+      data: { status: "lost" },
+    });
+
+    const losers = await tx.bid.findMany({
+      where: { propertyId, status: "lost", userId: { not: winner.userId } },
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+
+    return { property, winner, loserIds: losers.map((l) => l.userId) };
+  }, { timeout: 15000 });
+
+  const { property, winner } = result;
+  emitToAll("auction:accepted", { propertyId, amount: winner.amount });
+
+  await createInAppNotification(
+    winner.userId,
+    "bid",
+    "Bid Accepted",
+    `Congratulations! Your bid of $${winner.amount.toLocaleString()} on "${property.title}" has been accepted.`
+  );
+  const user = await prisma.user.findUnique({ where: { id: winner.userId }, select: { email: true, firstName: true } });
+  if (user) {
+    sendBidAcceptedEmail(user.email, user.firstName || user.email.split("@")[0], property.title, winner.amount).catch(() => {});
+  }
+
+  for (const loserId of result.loserIds) {
+    await createInAppNotification(
+      loserId,
+      "bid",
+      "Auction Closed",
+      `The auction for "${property.title}" has closed and another bid was accepted.`
+    );
+  }
+
+  return winner;
+}
@@ -0,0 +1,269 @@
+import fs from "fs/promises";
+import path from "path";
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { completeFundOperation, FundOperationError } from "./fundOperation.service.js";
+
+/**
+ * On-chain tracking of crypto deposits.
+ *
+ * A user sends funds to one of the admin PaymentWallets and submits the tx
+ * hash on their pending deposit. The watcher looks the transaction up through
+ * the configured ChainProvider and, once it pays the right address with enough
+ * confirmations for the network, approves the deposit through the same path
+ * an admin approval takes.
+ *
+ * The USD amount on the deposit is what the user typed, so it is only credited
+ * when the on-chain amount, valued at a rate the server knows, covers it.
+ * Without a usable rate the deposit waits for an admin.
+ *
+ *   submitted ──→ confirming ──→ verified
+ *       │  ↑           │
+ *       └→ not_found   ├──→ mismatch  (left pending for an admin)
+ *                      └──→ review    (no rate to value it; left pending)
+ */
+
+export interface ChainTransaction {
+  txHash: string;
+  toAddress: string;
+  amount: number;
+  confirmations: number;
+}
+
+export interface ChainProvider {
+  name: string;
+  /** The transaction on `network`, or null if the provider can't see it (yet). */
+  getTransaction(network: string, txHash: string): Promise<ChainTransaction | null>;
+}
+
+export type ChainStatus = "submitted" | "confirming" | "verified" | "mismatch" | "not_found" | "review";
+
+/** Statuses the background job keeps re-checking; `review` clears once an admin sets a rate. */
+const WATCHED_STATUSES: ChainStatus[] = ["submitted", "confirming", "not_found", "review"];
+
+// Confirmations before a deposit is treated as final, matched on the wallet's network label
+const NETWORK_CONFIRMATIONS: [RegExp, number][] = [
+  [/bitcoin|btc/i, 3],
+  [/erc-?20|ethereum|eth/i, 12],
+  [/trc-?20|tron|trx/i, 20],
+  [/bep-?20|bsc|binance/i, 15],
+  [/polygon|matic/i, 128],
+  [/solana|sol/i, 32],
+];
+const DEFAULT_CONFIRMATIONS = 6;
+
+// Tolerance for float noise when comparing on-chain and expected amounts
+const AMOUNT_EPSILON = 1e-8;
+
+// USD-pegged assets are valued 1:1; anything else needs a fresh admin-set rate
+const USD_STABLECOINS = /^(USDT|USDC|DAI|BUSD|TUSD|USDP)$/i;
+const RATE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** USD per unit of the wallet's asset, or null when there's no rate to trust. */
+export function walletUsdRate(
+  wallet: { method: string; usdRate: number | null; usdRateUpdatedAt: Date | null },
+  now = new Date()
+): number | null {
+  if (USD_STABLECOINS.test(wallet.method.trim())) return 1;
+  if (!wallet.usdRate || wallet.usdRate <= 0 || !wallet.usdRateUpdatedAt) return null;
+  if (now.getTime() - wallet.usdRateUpdatedAt.getTime() > RATE_MAX_AGE_MS) return null;
+  return wallet.usdRate;
+}
+
+export function requiredConfirmations(wallet: { network: string; method: string; requiredConfirmations: number }): number {
+  if (wallet.requiredConfirmations > 0) return wallet.requiredConfirmations;
+  const label = `${wallet.network} ${wallet.method}`;
+  return NETWORK_CONFIRMATIONS.find(([pattern]) => pattern.test(label))?.[1] ?? DEFAULT_CONFIRMATIONS;
+}
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+/**
+ * Reads transactions from a JSON file keyed by tx hash. The file is re-read on
+ * every lookup so confirmations can be bumped by hand while testing.
+ */
+function fileProvider(file: string): ChainProvider {
+  return {
+    name: "file",
+    async getTransaction(_network, txHash) {
+      let entries: Record<string, Omit<ChainTransaction, "txHash">>;
+      try {
+        entries = JSON.parse(await fs.readFile(path.resolve(file), "utf8"));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+      const key = Object.keys(entries).find((k) => k.toLowerCase() === txHash.toLowerCase());
+      if (!key) return null;
+      const entry = entries[key];
+      return {
+        txHash: key,
+        toAddress: String(entry.toAddress ?? ""),
+        amount: Number(entry.amount ?? 0),
+        confirmations: Number(entry.confirmations ?? 0),
+      };
+    },
+  };
+}
+
+const providerFactories: Record<string, () => ChainProvider> = {
+  file: () => fileProvider(env.CHAIN_WATCHER_FILE),
+};
+
+let activeProvider: ChainProvider | null | undefined;
+
+/**
+ * Make a provider selectable through CHAIN_WATCHER_PROVIDER, e.g. a block
+ * explorer API client.
+ */
+export function registerChainProvider(name: string, factory: () => ChainProvider) {
+  providerFactories[name] = factory;
+  activeProvider = undefined;
+}
+
+/** The configured provider, or null when on-chain checks are switched off. */
+export function getChainProvider(): ChainProvider | null {
+  if (activeProvider !== undefined) return activeProvider;
+
+  const name = env.CHAIN_WATCHER_PROVIDER;
+  if (name === "none") {
+    activeProvider = null;
+  } else if (providerFactories[name]) {
+    activeProvider = providerFactories[name]();
+  } else {
+    console.error(`Unknown CHAIN_WATCHER_PROVIDER "${name}" — crypto deposits will need manual approval`);
+    activeProvider = null;
+  }
+  return activeProvider;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+export interface CryptoDepositCheck {
+  fundOperationId: string;
+  status: ChainStatus | "unavailable";
+  confirmations: number;
+  required: number;
+  note: string;
+  approved: boolean;
+}
+
+/**
+ * Look up a pending crypto deposit's transaction and record what was found.
+ * Approves the deposit once it has enough confirmations.
+ */
+export async function checkCryptoDeposit(id: string): Promise<CryptoDepositCheck> {
+  const op = await prisma.fundOperation.findUnique({ where: { id } });
+  if (!op) throw new FundOperationError("Fund operation not found", 404);
+  if (op.type !== "deposit" || op.method !== "crypto") {
+    throw new FundOperationError("Only crypto deposits can be checked on-chain");
+  }
+  if (!op.txHash || !op.walletId) {
+    throw new FundOperationError("No transaction has been submitted for this deposit");
+  }
+
+  const wallet = await prisma.paymentWallet.findUnique({ where: { id: op.walletId } });
+  if (!wallet) throw new FundOperationError("The wallet this deposit was sent to no longer exists", 404);
+
+  const required = requiredConfirmations(wallet);
+  const result: CryptoDepositCheck = {
+    fundOperationId: op.id,
+    status: (op.chainStatus as ChainStatus) ?? "submitted",
+    confirmations: op.confirmations,
+    required,
+    note: op.chainNote,
+    approved: false,
+  };
+
+  if (op.status !== "pending") return result;
+
+  const provider = getChainProvider();
+  if (!provider) {
+    return { ...result, status: "unavailable", note: "On-chain checks are disabled" };
+  }
+
+  const chainTx = await provider.getTransaction(wallet.network || wallet.method, op.txHash);
+  const rate = walletUsdRate(wallet);
+
+  if (!chainTx) {
+    result.status = "not_found";
+    result.note = `Transaction not found on ${wallet.network || wallet.method} yet`;
+  } else if (chainTx.toAddress.trim().toLowerCase() !== wallet.address.trim().toLowerCase()) {
+    result.status = "mismatch";
+    result.confirmations = chainTx.confirmations;
+    result.note = `Transaction pays ${chainTx.toAddress}, not the ${wallet.name} address`;
+  } else if (op.cryptoAmount != null && chainTx.amount + AMOUNT_EPSILON < op.cryptoAmount) {
+    result.status = "mismatch";
+    result.confirmations = chainTx.confirmations;
+    result.note = `Transaction sends ${chainTx.amount} ${wallet.method}, expected ${op.cryptoAmount}`;
+  } else if (rate === null) {
+    result.status = "review";
+    result.confirmations = chainTx.confirmations;
+    result.note = `No current USD rate for ${wallet.method} — an admin needs to value ${chainTx.amount} ${wallet.method}`;
+  } else if (chainTx.amount * rate + 0.005 < op.amount) {
+    result.status = "mismatch";
+    result.confirmations = chainTx.confirmations;
+    result.note = `Transaction is worth $${(chainTx.amount * rate).toFixed(2)} (${chainTx.amount} ${wallet.method} at $${rate}), deposit is for $${op.amount.toLocaleString()}`;
+  } else if (chainTx.confirmations < required) {
+    result.status = "confirming";
+    result.confirmations = chainTx.confirmations;
+    result.note = `${chainTx.confirmations} of ${required} confirmations`;
+  } else {
+    result.status = "verified";
+    result.confirmations = chainTx.confirmations;
+    result.note = `Confirmed on-chain with ${chainTx.confirmations} confirmations`;
+  }
+
+  await prisma.fundOperation.update({
+    where: { id: op.id },
+    data: {
+      chainStatus: result.status,
+      confirmations: result.confirmations,
+      chainNote: result.note,
+      chainCheckedAt: new Date(),
+    },
+  });
+
+  if (result.status === "verified") {
+    await completeFundOperation(op.id, {
+      note: `Crypto deposit of $${op.amount.toLocaleString()} confirmed on-chain (ref: ${op.reference}, tx: ${op.txHash})`,
+    });
+    result.approved = true;
+  }
+
+  return result;
+}
+
+/**
+ * Re-check every pending crypto deposit that is still waiting on the chain.
+ */
+export async function runCryptoDepositChecks() {
+  const pending = await prisma.fundOperation.findMany({
+    where: {
+      type: "deposit",
+      method: "crypto",
+      status: "pending",
+      txHash: { not: null },
+      chainStatus: { in: WATCHED_STATUSES },
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const result = { checked: 0, approved: 0, mismatched: 0, failed: 0 };
+  if (pending.length === 0 || !getChainProvider()) return result;
+
+  // Sequential — providers are usually rate-limited APIs
+  for (const { id } of pending) {
+    try {
+      const check = await checkCryptoDeposit(id);
+      result.checked++;
+      if (check.approved) result.approved++;
+      if (check.status === "mismatch") result.mismatched++;
+    } catch (err) {
+      result.failed++;
+      console.error(`Crypto deposit check failed for ${id}:`, err);
+    }
+  }
+  return result;
+}
@@ -311,6 +311,91 @@ ${emailConfig.appName} Team
   }
 }
 
+/**
+ * Warn a user that the ID document on their verified KYC is about to expire
+ */
+export async function sendKYCDocumentExpiryEmail(email: string, firstName: string, expiresAt: Date, daysLeft: number) {
+  const when = daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`;
+
+  const body = `
+    ${sectionHeading("Your ID Document Is Expiring")}
+    ${paragraph(`Hello <strong>${escapeHtml(firstName)}</strong>,`)}
+    ${paragraph(`The identity document on your verified account expires <strong>${when}</strong> (${expiresAt.toDateString()}).`)}
+    ${warningBox(`<p style="margin:0; font-size:14px; color:#92400e;">Once it expires, withdrawals are paused until you re-verify with a valid document.</p>`)}
+    ${ctaButton("Update My Documents", `${emailConfig.appUrl}/dashboard/security/kyc`)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+  `;
+
+  const textContent = `
+Hello ${firstName},
+
+The identity document on your verified account expires ${when} (${expiresAt.toDateString()}).
+Once it expires, withdrawals are paused until you re-verify with a valid document.
+
+Update your documents: ${emailConfig.appUrl}/dashboard/security/kyc
+
+---
+${emailConfig.appName} Team
+  `.trim();
+
+  try {
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: email,
+      subject: `Your ID document expires ${when} | ${emailConfig.appName}`,
+      text: textContent,
+      html: emailWrapper({ preheader: `Your ID document expires ${when}. Re-verify to keep withdrawals enabled.`, body }),
+    });
+    console.log(`✅ KYC document expiry email sent to ${email}`);
+  } catch (err) {
+    console.error(`❌ Failed to send KYC document expiry email to ${email}:`, err);
+  }
+}
+
+/**
+ * Tell a user they need to re-verify their identity before withdrawing again
+ */
+export async function sendKYCReverificationEmail(email: string, firstName: string, reason: string) {
+  const body = `
+    ${sectionHeading("Please Re-verify Your Identity")}
+    ${paragraph(`Hello <strong>${escapeHtml(firstName)}</strong>,`)}
+    ${paragraph("We need you to confirm your identity again. Until you do, withdrawals from your account are paused.")}
+    ${dangerBox(`
+      <p style="margin:0 0 8px; font-size:14px; font-weight:600; color:#b91c1c;">Reason:</p>
+      <p style="margin:0; font-size:14px; color:#7f1d1d;">${escapeHtml(reason)}</p>
+    `)}
+    ${paragraph("Submit a valid, unexpired document from your dashboard. Everything else on your account keeps working in the meantime.")}
+    ${ctaButton("Re-verify Now", `${emailConfig.appUrl}/dashboard/security/kyc`)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+  `;
+
+  const textContent = `
+Hello ${firstName},
+
+We need you to confirm your identity again. Until you do, withdrawals from your account are paused.
+
+Reason: ${reason}
+
+Submit a valid, unexpired document from your dashboard: ${emailConfig.appUrl}/dashboard/security/kyc
+
+---
+${emailConfig.appName} Team
+  `.trim();
+
+  try {
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: email,
+      subject: `Action required: Re-verify your identity — ${emailConfig.appName}`,
+      text: textContent,
+      html: emailWrapper({ preheader: "Withdrawals are paused until you re-verify your identity.", body }),
+    });
+    console.log(`✅ KYC re-verification email sent to ${email}`);
+  } catch (err) {
+    console.error(`❌ Failed to send KYC re-verification email to ${email}:`, err);
+  }
+}
+
 /**
  * Send fund operation approved email (deposit or withdrawal)
  */
@@ -566,6 +651,93 @@ ${emailConfig.appName} Team
   }
 }
 
+export async function sendOutbidEmail(
+  email: string,
+  firstName: string,
+  propertyTitle: string,
+  yourBid: number,
+  newHighBid: number,
+  auctionEndsAt: Date | null
+) {
+  const fmt = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+  const endsText = auctionEndsAt ? `The auction ends on ${auctionEndsAt.toUTCString()}.` : "";
+
+  const body = `
+    ${paragraph(`Hello <strong>${firstName}</strong>,`)}
+    ${paragraph(`Your bid of <strong>${fmt(yourBid)}</strong> on <strong>${propertyTitle}</strong> has been outbid.`)}
+    ${bigAmount(fmt(newHighBid))}
+    ${warningBox(`
+      <p style="margin:0; font-size:14px;">The current highest bid is <strong>${fmt(newHighBid)}</strong>. ${endsText}</p>
+    `)}
+    ${ctaButton("Place a Higher Bid", `${emailConfig.appUrl}/dashboard/property-market/properties`, BRAND_PRIMARY)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+  `;
+
+  const textContent = `
+Hello ${firstName},
+
+Your bid of ${fmt(yourBid)} on ${propertyTitle} has been outbid. The current highest bid is ${fmt(newHighBid)}. ${endsText}
+
+Best regards,
+${emailConfig.appName} Team
+  `.trim();
+
+  try {
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: email,
+      subject: `You've been outbid — ${propertyTitle} | ${emailConfig.appName}`,
+      text: textContent,
+      html: emailWrapper({ preheader: `A higher bid of ${fmt(newHighBid)} was placed on ${propertyTitle}.`, body }),
+    });
+    console.log(`✅ Outbid email sent to ${email}`);
+  } catch (err) {
+    console.error(`❌ Failed to send outbid email to ${email}:`, err);
+  }
+}
+
+export async function sendBidAcceptedEmail(
+  email: string,
+  firstName: string,
+  propertyTitle: string,
+  amount: number
+) {
+  const formattedAmount = `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  const body = `
+    ${paragraph(`Hello <strong>${firstName}</strong>,`)}
+    ${paragraph(`Congratulations — your winning bid of <strong>${formattedAmount}</strong> on <strong>${propertyTitle}</strong> has been accepted.`)}
+    ${bigAmount(formattedAmount)}
+    ${successBox(`
+      <p style="margin:0 0 6px; font-size:14px; font-weight:600; color:#166534;">What happens next?</p>
+      <p style="margin:0; font-size:14px; color:#14532d;">A property manager will contact you via email to complete the purchase and documentation.</p>
+    `)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+  `;
+
+  const textContent = `
+Hello ${firstName},
+
+Your winning bid of ${formattedAmount} on ${propertyTitle} has been accepted. A property manager will contact you with next steps.
+
+Best regards,
+${emailConfig.appName} Team
+  `.trim();
+
+  try {
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: email,
+      subject: `Bid accepted — ${propertyTitle} | ${emailConfig.appName}`,
+      text: textContent,
+      html: emailWrapper({ preheader: `Your bid of ${formattedAmount} on ${propertyTitle} was accepted.`, body }),
+    });
+    console.log(`✅ Bid accepted email sent to ${email}`);
+  } catch (err) {
+    console.error(`❌ Failed to send bid accepted email to ${email}:`, err);
+  }
+}
+
 // ─── Buy Now Emails ────────────────────────────────────────────────────────────
 
 export async function sendBuyNowEmailToAdmin(
@@ -676,10 +848,13 @@ export async function sendReferralCommissionEmail(
   firstName: string,
   referredName: string,
   commission: number,
-  depositAmount: number
+  baseAmount: number,
+  event: string, // e.g. "first deposit", "deposit", "investment"
+  level = 1
 ) {
   const formattedCommission = `$${commission.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
-  const formattedDeposit = `$${depositAmount.toLocaleString()}`;
+  const formattedBase = `$${baseAmount.toLocaleString()}`;
+  const relation = level > 1 ? `a member of your referral network (level ${level})` : "your referral";
 
   const body = `
     <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-bottom:24px;">
@@ -687,15 +862,15 @@ export async function sendReferralCommissionEmail(
         <td align="center" style="padding:24px; background:linear-gradient(135deg, #8b5cf6 0%, #6d28d9 100%); border-radius:10px;">
           <div style="width:60px;height:60px;background:rgba(255,255,255,0.2);border-radius:50%;display:inline-block;line-height:60px;text-align:center;font-size:28px;margin-bottom:12px;">&#127775;</div>
           <h2 style="margin:0; font-size:22px; font-weight:700; color:#ffffff;">Referral Commission Earned!</h2>
-          <p style="margin:8px 0 0; font-size:14px; color:rgba(255,255,255,0.9);">Your referral just made their first deposit</p>
+          <p style="margin:8px 0 0; font-size:14px; color:rgba(255,255,255,0.9);">${level > 1 ? "Someone in your network" : "Your referral"} just made a ${event}</p>
         </td>
       </tr>
     </table>
     ${paragraph(`Hello <strong>${firstName}</strong>,`)}
-    ${paragraph(`Great news! <strong>${referredName}</strong>, who joined Alvarado through your referral link, has just made their first deposit of <strong>${formattedDeposit}</strong>. As a thank-you, you've earned a 5% referral commission:`)}
+    ${paragraph(`Great news! <strong>${referredName}</strong>, ${relation}, has just made a ${event} of <strong>${formattedBase}</strong>. As a thank-you, you've earned a referral commission:`)}
     ${bigAmount(formattedCommission, '#6d28d9')}
     ${successBox(`<p style="margin:0; font-size:14px; color:#065f46;"><strong>&#10003; Commission credited:</strong> ${formattedCommission} has been added to your account balance.</p>`)}
-    ${paragraph('Keep sharing your referral link to earn more commissions every time a new member makes their first deposit!')}
+    ${paragraph('Keep sharing your referral link to earn more commissions!')}
     ${ctaButton(`${emailConfig.appUrl}/dashboard/my-referral`, 'View My Referrals')}
     <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
   `;
@@ -705,8 +880,8 @@ Hello ${firstName},
 
 You earned a referral commission!
 
-${referredName} made their first deposit of ${formattedDeposit}.
-Your 5% commission: ${formattedCommission} has been credited to your account balance.
+${referredName} made a ${event} of ${formattedBase}.
+Your commission: ${formattedCommission} has been credited to your account balance.
 
 Log in to view your referral earnings: ${emailConfig.appUrl}/dashboard/my-referral
 
@@ -721,10 +896,109 @@ This is an automated message. Do not reply.
       to: email,
       subject: `You earned ${formattedCommission} referral commission! | ${emailConfig.appName}`,
       text: textContent,
-      html: emailWrapper({ preheader: `${referredName} made their first deposit — you earned ${formattedCommission} referral commission!`, body }),
+      html: emailWrapper({ preheader: `${referredName} made a ${event} — you earned ${formattedCommission} referral commission!`, body }),
     });
     console.log(`✅ Referral commission email sent to ${email}`);
   } catch (err) {
     console.error(`❌ Failed to send referral commission email to ${email}:`, err);
   }
 }
+
+/**
+ * Send the link that confirms a newly added withdrawal destination
+ */
+export async function sendPayoutDestinationConfirmEmail(
+  email: string,
+  firstName: string,
+  label: string,
+  confirmUrl: string,
+  coolingHours: number
+) {
+  const body = `
+    ${sectionHeading("Confirm Your Withdrawal Destination")}
+    ${paragraph(`Hello <strong>${firstName}</strong>,`)}
+    ${paragraph(`A new withdrawal destination, <strong>${escapeHtml(label)}</strong>, was added to your account. Click below to confirm it.`)}
+    ${ctaButton("Confirm Destination", confirmUrl)}
+    ${infoBox(`
+      <p style="margin:0 0 8px; font-size:13px; color:#6b7280;">Or copy and paste this link into your browser:</p>
+      <p style="margin:0; font-size:12px; color:#4a6cf7; word-break:break-all; font-family:'Courier New',monospace;">${confirmUrl}</p>
+    `)}
+    ${warningBox(`
+      <ul style="margin:0; padding-left:18px; font-size:14px; color:#92400e;">
+        <li style="margin-bottom:4px;">This link expires in <strong>1 hour</strong></li>
+        ${coolingHours > 0 ? `<li style="margin-bottom:4px;">Once confirmed, the destination can receive withdrawals after <strong>${coolingHours} hours</strong></li>` : ""}
+        <li>If you didn't add this destination, do not confirm it — change your password immediately</li>
+      </ul>
+    `)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Security Team</strong></p>
+  `;
+
+  const textContent = `
+Hello ${firstName},
+
+A new withdrawal destination, ${label}, was added to your ${emailConfig.appName} account.
+
+Confirm it using this link (expires in 1 hour):
+${confirmUrl}
+
+If you didn't add this destination, do not confirm it and change your password immediately.
+
+---
+${emailConfig.appName} Security Team
+  `.trim();
+
+  await transporter.sendMail({
+    from: emailConfig.from,
+    to: email,
+    subject: `Confirm your new withdrawal destination | ${emailConfig.appName}`,
+    text: textContent,
+    html: emailWrapper({ preheader: `Confirm ${label} as a withdrawal destination.`, body }),
+  });
+
+  console.log(`✅ Payout destination confirmation email sent to ${email}`);
+}
+
+/**
+ * Invite someone without an account to claim a transfer sent to their email
+ */
+export async function sendTransferInvitationEmail(
+  email: string,
+  senderName: string,
+  amount: number,
+  note: string,
+  signupUrl: string,
+  expiresAt: Date
+) {
+  const body = `
+    ${sectionHeading("You've Been Sent Money")}
+    ${paragraph(`<strong>${escapeHtml(senderName)}</strong> sent you money on ${emailConfig.appName}.`)}
+    ${bigAmount(`$${amount.toFixed(2)}`)}
+    ${note ? infoBox(`<p style="margin:0; font-size:14px; color:#374151;">“${escapeHtml(note)}”</p>`) : ""}
+    ${paragraph(`Create a free account with <strong>${escapeHtml(email)}</strong> and verify your email to receive it.`)}
+    ${ctaButton("Claim Your Money", signupUrl)}
+    ${warningBox(`<p style="margin:0; font-size:14px; color:#92400e;">If it isn't claimed by <strong>${expiresAt.toDateString()}</strong>, the money goes back to ${escapeHtml(senderName)}.</p>`)}
+    <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+  `;
+
+  const textContent = `
+${senderName} sent you $${amount.toFixed(2)} on ${emailConfig.appName}.${note ? `\n\n"${note}"` : ""}
+
+Create an account with ${email} and verify your email to receive it:
+${signupUrl}
+
+If it isn't claimed by ${expiresAt.toDateString()}, the money goes back to ${senderName}.
+
+---
+${emailConfig.appName} Team
+  `.trim();
+
+  await transporter.sendMail({
+    from: emailConfig.from,
+    to: email,
+    subject: `${senderName} sent you $${amount.toFixed(2)} | ${emailConfig.appName}`,
+    text: textContent,
+    html: emailWrapper({ preheader: `${senderName} sent you $${amount.toFixed(2)}. Sign up to claim it.`, body }),
+  });
+
+  console.log(`✅ Transfer invitation email sent to ${email}`);
+}
@@ -0,0 +1,104 @@
+import { Prisma, FeeRule } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { debitUser, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+
+/**
+ * Fee schedule for deposits, withdrawals and transfers.
+ *
+ * Admins keep FeeRules per operation, method and amount tier. A quote uses the
+ * most specific active rule that covers the amount — an exact method beats
+ * "any", then the highest tier — and no matching rule means no fee.
+ *
+ * The quoted fee is stored on the FundOperation / Transfer when it's requested
+ * and is what gets charged later, so editing the schedule never changes a fee
+ * the user has already seen. Fees are their own "fee" ledger entry from the
+ * user into `platform:fee_revenue`.
+ */
+
+export const FEE_OPERATIONS = ["deposit", "withdrawal", "transfer"] as const;
+export type FeeOperation = typeof FEE_OPERATIONS[number];
+
+export interface FeeQuote {
+  operation: FeeOperation;
+  method: string;
+  amount: number;
+  fee: number;
+  total: number; // what leaves the user's balance
+  net: number; // what arrives (the recipient, the user's bank, or the user's balance for deposits)
+  ruleId: string | null;
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export function computeFee(rule: Pick<FeeRule, "flatFee" | "percentFee" | "minFee" | "maxFee">, amount: number): number {
+  let fee = rule.flatFee + amount * (rule.percentFee / 100);
+  fee = Math.max(fee, rule.minFee);
+  if (rule.maxFee !== null) fee = Math.min(fee, rule.maxFee);
+  // Never more than the amount itself
+  return roundCents(Math.min(Math.max(fee, 0), amount));
+}
+
+export async function findFeeRule(operation: FeeOperation, method: string, amount: number, db: Db = prisma) {
+  const rules = await db.feeRule.findMany({
+    where: {
+      operation,
+      isActive: true,
+      method: { in: [method, "any"] },
+      minAmount: { lte: amount },
+      OR: [{ maxAmount: null }, { maxAmount: { gt: amount } }],
+    },
+  });
+
+  rules.sort((a, b) =>
+    (a.method === "any" ? 1 : 0) - (b.method === "any" ? 1 : 0) || b.minAmount - a.minAmount
+  );
+  return rules[0] ?? null;
+}
+
+export async function quoteFee(operation: FeeOperation, method: string, amount: number, db: Db = prisma): Promise<FeeQuote> {
+  const rule = await findFeeRule(operation, method, amount, db);
+  const fee = rule ? computeFee(rule, amount) : 0;
+
+  // Deposit fees come out of the credited amount; the others are paid on top
+  const isDeposit = operation === "deposit";
+  return {
+    operation,
+    method,
+    amount,
+    fee,
+    total: isDeposit ? amount : roundCents(amount + fee),
+    net: isDeposit ? roundCents(amount - fee) : amount,
+    ruleId: rule?.id ?? null,
+  };
+}
+
+/**
+ * Charge a stored fee: a "fee" ledger entry into fee revenue plus a matching
+ * transaction row. Throws InsufficientBalanceError like any other debit.
+ */
+export async function chargeFee(
+  tx: Prisma.TransactionClient,
+  params: { userId: string; fee: number; reference: string; description: string }
+) {
+  if (params.fee <= 0) return;
+
+  await debitUser(tx, {
+    userId: params.userId,
+    amount: params.fee,
+    to: PLATFORM_ACCOUNTS.feeRevenue,
+    type: "fee",
+    reference: params.reference,
+    description: params.description,
+  });
+
+  await tx.transaction.create({
+    data: {
+      userId: params.userId,
+      type: "fee",
+      amount: -params.fee,
+      status: "completed",
+      description: params.description,
+      reference: params.reference,
+    },
+  });
+}
@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import { prisma } from "../config/database.js";
+import { sendFundOperationApprovedEmail } from "./email.service.js";
+import { createInAppNotification } from "./notification.service.js";
+import { chargeFee, quoteFee } from "./fee.service.js";
+import { assertWithinLimits } from "./limits.service.js";
+import { processReferralCommissions } from "./referralProgram.service.js";
+import { refreshAmbassadorTier } from "./ambassador.service.js";
+import {
+  creditUser,
+  debitUser,
+  getUserBalance,
+  InsufficientBalanceError,
+  PLATFORM_ACCOUNTS,
+} from "./ledger.service.js";
+import { StaleWriteError, withConflictRetry } from "../utils/retry.js";
+
+export class FundOperationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "FundOperationError";
+  }
+}
+
+/**
+ * Record a pending withdrawal to a destination the caller has already checked
+ * (along with 2FA and KYC). Withdrawals are only debited on approval, so
+ * pending requests count against the balance. Bumping the user's version
+ * makes two requests checked against the same balance conflict instead of
+ * both passing.
+ *
+ * Throws InsufficientBalanceError or LimitExceededError.
+ */
+export async function requestWithdrawal(
+  userId: string,
+  input: { method: string; amount: number; destination: { id: string; details: string } }
+) {
+  const { method, amount, destination } = input;
+  const reference = `WTH-${Date.now()}-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+  const { fee, total } = await quoteFee("withdrawal", method, amount);
+
+  return withConflictRetry(() => prisma.$transaction(async (tx) => {
+    const { version } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { version: true } });
+
+    const [balance, pending] = await Promise.all([
+      getUserBalance(userId, tx),
+      tx.fundOperation.aggregate({
+        where: { userId, type: "withdrawal", status: "pending" },
+        _sum: { amount: true, fee: true },
+      }),
+    ]);
+
+    const available = balance - (pending._sum.amount ?? 0) - (pending._sum.fee ?? 0);
+    if (available < total) {
+      throw new InsufficientBalanceError(available, total);
+    }
+
+    await assertWithinLimits(userId, "withdrawal", amount, tx);
+
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, version },
+      data: { version: { increment: 1 } },
+    });
+    if (count === 0) throw new StaleWriteError("Balance");
+
+    return tx.fundOperation.create({
+      data: {
+        userId,
+        type: "withdrawal",
+        method,
+        amount,
+        fee,
+        status: "pending",
+        details: destination.details,
+        destinationId: destination.id,
+        reference,
+      },
+    });
+  }, { timeout: 15000 }));
+}
+
+/**
+ * Approve a pending deposit or withdrawal: post it to the ledger, charge the
+ * stored fee, and notify the user. Shared by admin approval and automatic
+ * approval (e.g. crypto deposits confirmed on-chain).
+ */
+export async function completeFundOperation(id: string, options: { note?: string } = {}) {
+  const { note } = options;
+
+  const op = await prisma.fundOperation.findUnique({ where: { id } });
+  if (!op) throw new FundOperationError("Fund operation not found", 404);
+  if (op.status !== "pending") throw new FundOperationError("Only pending operations can be approved");
+
+  const isDeposit = op.type === "deposit";
+
+  const userRecord = await prisma.user.findUnique({
+    where: { id: op.userId },
+    select: { email: true, firstName: true, referredById: true },
+  });
+
+  if (!isDeposit) {
+    const balance = await getUserBalance(op.userId);
+    if (!userRecord || balance < op.amount + op.fee) {
+      throw new InsufficientBalanceError(balance, op.amount + op.fee);
+    }
+  }
+
+  const defaultDesc = isDeposit
+    ? `Deposit of $${op.amount.toLocaleString()} approved (ref: ${op.reference})`
+    : `Withdrawal of $${op.amount.toLocaleString()} approved (ref: ${op.reference})`;
+
+  const feeNote = op.fee > 0 ? ` A fee of $${op.fee.toLocaleString()} was applied.` : "";
+  const defaultMsg = isDeposit
+    ? `Your deposit of $${op.amount.toLocaleString()} has been approved and credited to your account.${feeNote}`
+    : `Your withdrawal of $${op.amount.toLocaleString()} has been processed.${feeNote}`;
+
+  // Claim the operation so two admins (or a double click) can't apply it twice
+  const applied = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.fundOperation.updateMany({
+      where: { id, status: "pending" },
+      data: { status: "completed", completedAt: new Date() },
+    });
+    if (count === 0) return false;
+
+    if (isDeposit) {
+      await creditUser(tx, {
+        userId: op.userId,
+        bucket: "cash",
+        amount: op.amount,
+        from: PLATFORM_ACCOUNTS.deposits,
+        type: "deposit",
+        reference: op.reference,
+        description: note || defaultDesc,
+      });
+    } else {
+      await debitUser(tx, {
+        userId: op.userId,
+        amount: op.amount,
+        to: PLATFORM_ACCOUNTS.withdrawals,
+        type: "withdrawal",
+        reference: op.reference,
+        description: note || defaultDesc,
+      });
+    }
+
+    await tx.transaction.create({
+      data: {
+        userId: op.userId,
+        type: isDeposit ? "deposit" : "withdrawal",
+        amount: isDeposit ? op.amount : -op.amount,
+        status: "completed",
+        description: note || defaultDesc,
+        reference: op.reference,
+      },
+    });
+
+    // The fee quoted when the request was made
+    await chargeFee(tx, {
+      userId: op.userId,
+      fee: op.fee,
+      reference: op.reference,
+      description: `${isDeposit ? "Deposit" : "Withdrawal"} fee (ref: ${op.reference})`,
+    });
+
+    return true;
+  }, { timeout: 15000 });
+
+  if (!applied) throw new FundOperationError("Only pending operations can be approved", 409);
+
+  await createInAppNotification(
+    op.userId,
+    "investment",
+    isDeposit ? "Deposit Approved" : "Withdrawal Approved",
+    note || defaultMsg
+  );
+
+  // Send email notification (non-blocking)
+  if (userRecord?.email && userRecord?.firstName) {
+    sendFundOperationApprovedEmail(
+      userRecord.email,
+      userRecord.firstName,
+      op.type as "deposit" | "withdrawal",
+      op.amount,
+      op.reference
+    ).catch((err) => console.error("Failed to send fund operation approved email:", err));
+  }
+
+  // Referral commissions under the user's program (non-blocking). The deposit
+  // counts towards the referrer's ambassador tier before its commission is paid.
+  if (isDeposit && userRecord?.referredById) {
+    refreshAmbassadorTier(userRecord.referredById)
+      .then(() => processReferralCommissions(op.userId, { trigger: "deposit", sourceId: id, amount: op.amount }))
+      .catch((e: unknown) => console.error("Referral commission processing error:", e));
+  }
+
+  return op;
+}
@@ -0,0 +1,148 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { debitUser, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { processReferralCommissions } from "./referralProgram.service.js";
+import { StaleWriteError, withConflictRetry } from "../utils/retry.js";
+
+export class InvestmentRejectedError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "InvestmentRejectedError";
+  }
+}
+
+/**
+ * Invest `amount` in a property (or top up the user's active position).
+ *
+ * All limits are checked inside the transaction, and the property and
+ * position writes are conditional on the values they were checked against:
+ * a concurrent investment that lands first turns this attempt into a
+ * StaleWriteError, and the whole transaction is retried against fresh data.
+ * The balance debit is conditional in the ledger itself.
+ */
+export async function investInProperty(userId: string, propertyId: string, amount: number) {
+  const result = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+    const property = await tx.property.findUnique({ where: { id: propertyId, isActive: true } });
+
+    if (!property) {
+      throw new InvestmentRejectedError("Property not found", 404);
+    }
+
+    const { currentFunded, targetAmount } = property;
+    if (property.investmentStatus !== "available" || (currentFunded >= targetAmount && targetAmount > 0)) {
+      throw new InvestmentRejectedError("Property is not available for investment");
+    }
+
+    if (amount < property.minInvestment) {
+      throw new InvestmentRejectedError(`Minimum investment is $${property.minInvestment}`);
+    }
+
+    // Check if user already has an active investment in this property
+    const existing = await tx.userInvestment.findFirst({
+      where: { userId, propertyId, status: "active" },
+    });
+    const isTopUp = !!existing;
+
+    // For max investment, check against new total
+    const newTotal = isTopUp ? existing.amount + amount : amount;
+    if (newTotal > property.maxInvestment) {
+      throw new InvestmentRejectedError(
+        `Maximum investment is $${property.maxInvestment}${isTopUp ? ` (current: $${existing.amount})` : ""}`
+      );
+    }
+
+    if (property.investmentType === "pooled") {
+      const remaining = targetAmount - currentFunded;
+      if (amount > remaining) {
+        throw new InvestmentRejectedError(`Only $${remaining} remaining in this pool`);
+      }
+    }
+
+    const newFunded = currentFunded + amount;
+    const newStatus = newFunded >= targetAmount && targetAmount > 0 ? "fully-funded" : property.investmentStatus;
+
+    // Only increment investorCount for new investors
+    const claimed = await tx.property.updateMany({
+      where: { id: propertyId, investmentStatus: "available", currentFunded },
+      data: {
+        currentFunded: { increment: amount },
+        ...(isTopUp ? {} : { investorCount: { increment: 1 } }),
+        investmentStatus: newStatus,
+      },
+    });
+    if (claimed.count === 0) throw new StaleWriteError("Property funding");
+
+    let investment;
+    if (isTopUp) {
+      try {
+        investment = await tx.userInvestment.update({
+          where: { id: existing.id, status: "active", amount: existing.amount },
+          data: { amount: { increment: amount } },
+        });
+      } catch (err) {
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {
+          throw new StaleWriteError("Investment");
+        }
+        throw err;
+      }
+    } else {
+      investment = await tx.userInvestment.create({
+        data: {
+          userId,
+          propertyId,
+          amount,
+          expectedROI: property.expectedROI,
+          monthlyReturn: property.monthlyReturn,
+          status: "active",
+        },
+      });
+    }
+
+    const description = isTopUp
+      ? `Top-up investment: ${property.title}`
+      : `Property investment: ${property.title}`;
+
+    // Always record transaction history
+    await tx.transaction.create({
+      data: {
+        userId,
+        type: "investment",
+        amount: -amount,
+        status: "completed",
+        description,
+        reference: propertyId,
+      },
+    });
+
+    // Throws InsufficientBalanceError if the balance no longer covers it
+    await debitUser(tx, {
+      userId,
+      amount,
+      to: PLATFORM_ACCOUNTS.investments,
+      type: "investment",
+      reference: investment.id,
+      description,
+    });
+
+    await tx.notification.create({
+      data: {
+        userId,
+        type: "investment",
+        title: isTopUp ? "Top-Up Confirmed" : "Investment Confirmed",
+        message: isTopUp
+          ? `Your top-up of $${amount.toLocaleString()} in "${property.title}" has been confirmed. Total investment: $${newTotal.toLocaleString()}.`
+          : `Your investment of $${amount.toLocaleString()} in "${property.title}" has been confirmed.`,
+      },
+    });
+
+    return { investment, isTopUp };
+  }, { timeout: 15000 }));
+
+  // A top-up reuses the position's id, so it's keyed by the new total as well
+  const sourceId = result.isTopUp ? `${result.investment.id}:${result.investment.amount}` : result.investment.id;
+  processReferralCommissions(userId, { trigger: "investment", sourceId, amount }).catch((e: unknown) =>
+    console.error("Referral commission processing error:", e)
+  );
+
+  return result;
+}
@@ -0,0 +1,246 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { postLedgerEntry, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { addMonths, runPayouts } from "./payout.service.js";
+import { createInAppNotification } from "./notification.service.js";
+
+/**
+ * Investment lifecycle: active → matured | exited | cancelled.
+ *
+ * - matured:   the property's duration has elapsed; remaining monthly returns
+ *              are paid and the full principal goes back to the user's cash.
+ * - exited:    an admin approved the user's early-exit request; principal is
+ *              returned minus the early-exit penalty (kept as platform revenue).
+ * - cancelled: an admin unwound the position; full principal is refunded.
+ *
+ * Every close releases the principal held in `platform:investments` and takes
+ * the position out of the property's `currentFunded` / `investorCount`.
+ */
+
+export type ClosedInvestmentStatus = "matured" | "exited" | "cancelled";
+
+export interface ExitQuote {
+  principal: number;
+  penaltyRate: number;
+  penaltyAmount: number;
+  payoutAmount: number;
+}
+
+export interface DueMaturity {
+  investmentId: string;
+  userId: string;
+  propertyId: string;
+  propertyTitle: string;
+  principal: number;
+  maturesAt: Date;
+}
+
+export interface MaturityRunResult {
+  asOf: Date;
+  dryRun: boolean;
+  due: DueMaturity[];
+  matured: DueMaturity[];
+  failed: Array<DueMaturity & { reason: string }>;
+  totalPrincipal: number;
+}
+
+export class InvestmentNotActiveError extends Error {
+  constructor() {
+    super("Investment is no longer active");
+    this.name = "InvestmentNotActiveError";
+  }
+}
+
+export function maturityDate(startedAt: Date, durationMonths: number): Date {
+  return addMonths(startedAt, durationMonths);
+}
+
+export function quoteEarlyExit(principal: number, penaltyRate: number = env.EARLY_EXIT_PENALTY_PERCENT): ExitQuote {
+  const penaltyAmount = roundCents(principal * (penaltyRate / 100));
+  return {
+    principal: roundCents(principal),
+    penaltyRate,
+    penaltyAmount,
+    payoutAmount: roundCents(principal - penaltyAmount),
+  };
+}
+
+const CLOSE_LABELS: Record<ClosedInvestmentStatus, string> = {
+  matured: "Principal returned at maturity",
+  exited: "Early exit",
+  cancelled: "Investment cancelled — principal refunded",
+};
+
+/**
+ * Close an active investment inside the caller's transaction. The status
+ * update is conditional on "active", so two closes racing each other (job vs.
+ * admin) can only release the principal once — the loser gets
+ * InvestmentNotActiveError.
+ */
+export async function closeInvestment(
+  tx: Prisma.TransactionClient,
+  params: { investmentId: string; status: ClosedInvestmentStatus; penaltyAmount?: number; reference?: string }
+) {
+  const current = await tx.userInvestment.findUnique({
+    where: { id: params.investmentId },
+    include: {
+      property: { select: { id: true, title: true, investmentStatus: true } },
+      investmentOption: { select: { title: true } },
+    },
+  });
+  if (!current || current.status !== "active") throw new InvestmentNotActiveError();
+
+  const penaltyAmount = roundCents(params.penaltyAmount ?? 0);
+  const principalReturned = roundCents(current.amount - penaltyAmount);
+  const title = current.property?.title ?? current.investmentOption?.title ?? "investment";
+  const description = `${CLOSE_LABELS[params.status]}: ${title}`;
+
+  try {
+    await tx.userInvestment.update({
+      where: { id: current.id, status: "active" },
+      data: { status: params.status, closedAt: new Date(), principalReturned },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025") {
+      throw new InvestmentNotActiveError();
+    }
+    throw err;
+  }
+
+  await postLedgerEntry(tx, {
+    type: "investment_return",
+    reference: params.reference ?? current.id,
+    description,
+    postings: [
+      { account: { platform: PLATFORM_ACCOUNTS.investments }, amount: -current.amount },
+      { account: { userId: current.userId, bucket: "cash" }, amount: principalReturned },
+      { account: { platform: PLATFORM_ACCOUNTS.feeRevenue }, amount: penaltyAmount },
+    ],
+  });
+
+  await tx.transaction.create({
+    data: {
+      userId: current.userId,
+      type: "investment_return",
+      amount: principalReturned,
+      status: "completed",
+      description: penaltyAmount > 0
+        ? `${description} (early exit penalty $${penaltyAmount.toLocaleString()})`
+        : description,
+      reference: current.propertyId ?? current.investmentOptionId ?? current.id,
+    },
+  });
+
+  if (current.property) {
+    // A matured property has run its course; an exit or cancellation frees room in a funded one
+    const reopen = params.status !== "matured" && current.property.investmentStatus === "fully-funded";
+    // A stake bought on the secondary market can leave the user holding more than one position
+    const stillHolds = await tx.userInvestment.count({
+      where: { userId: current.userId, propertyId: current.property.id, status: "active" },
+    });
+    await tx.property.update({
+      where: { id: current.property.id },
+      data: {
+        currentFunded: { decrement: current.amount },
+        ...(stillHolds > 0 ? {} : { investorCount: { decrement: 1 } }),
+        ...(reopen ? { investmentStatus: "available" } : {}),
+      },
+    });
+  }
+
+  // Secondary market listings can't be filled once the position is closed
+  await tx.shareListing.updateMany({
+    where: { investmentId: current.id, status: "open" },
+    data: { status: "cancelled", cancelledAt: new Date() },
+  });
+
+  // Any exit request still open for this position is moot now
+  if (params.status !== "exited") {
+    await tx.investmentExitRequest.updateMany({
+      where: { investmentId: current.id, status: "pending" },
+      data: { status: "cancelled", adminNote: `Investment ${params.status}`, reviewedAt: new Date() },
+    });
+  }
+
+  return { investment: current, title, principalReturned, penaltyAmount };
+}
+
+export async function findDueMaturities(asOf: Date = new Date()): Promise<DueMaturity[]> {
+  const investments = await prisma.userInvestment.findMany({
+    where: { status: "active", propertyId: { not: null } },
+    include: { property: { select: { title: true, duration: true } } },
+  });
+
+  const due: DueMaturity[] = [];
+  for (const inv of investments) {
+    if (!inv.property || !inv.propertyId) continue;
+
+    const maturesAt = maturityDate(inv.createdAt, inv.property.duration);
+    if (maturesAt > asOf) continue;
+
+    due.push({
+      investmentId: inv.id,
+      userId: inv.userId,
+      propertyId: inv.propertyId,
+      propertyTitle: inv.property.title,
+      principal: inv.amount,
+      maturesAt,
+    });
+  }
+
+  return due.sort((a, b) => a.maturesAt.getTime() - b.maturesAt.getTime());
+}
+
+/**
+ * Mature every investment whose term has ended as of `asOf`. Outstanding
+ * monthly returns (including the final one) are paid first; an investment
+ * whose payouts fail is left active and retried on the next run.
+ */
+export async function runMaturities(options: { asOf?: Date; dryRun?: boolean } = {}): Promise<MaturityRunResult> {
+  const asOf = options.asOf ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const due = await findDueMaturities(asOf);
+
+  const result: MaturityRunResult = {
+    asOf,
+    dryRun,
+    due,
+    matured: [],
+    failed: [],
+    totalPrincipal: roundCents(due.reduce((sum, m) => sum + m.principal, 0)),
+  };
+
+  if (dryRun) return result;
+
+  for (const maturity of due) {
+    try {
+      const payouts = await runPayouts({ asOf, investmentId: maturity.investmentId });
+      if (payouts.failed.length > 0) {
+        result.failed.push({ ...maturity, reason: "Outstanding monthly returns could not be paid" });
+        continue;
+      }
+
+      await prisma.$transaction(
+        (tx) => closeInvestment(tx, { investmentId: maturity.investmentId, status: "matured" }),
+        { timeout: 15000 }
+      );
+      result.matured.push(maturity);
+    } catch (err) {
+      if (err instanceof InvestmentNotActiveError) continue;
+      console.error(`Maturity failed for investment ${maturity.investmentId}:`, err);
+      result.failed.push({ ...maturity, reason: err instanceof Error ? err.message : "Unknown error" });
+    }
+  }
+
+  for (const maturity of result.matured) {
+    await createInAppNotification(
+      maturity.userId,
+      "investment",
+      "Investment Matured",
+      `Your investment in "${maturity.propertyTitle}" has matured. Your principal of $${maturity.principal.toLocaleString()} has been returned to your balance.`
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,333 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { createInAppNotification } from "./notification.service.js";
+import { sendKYCDocumentExpiryEmail, sendKYCReverificationEmail } from "./email.service.js";
+
+/**
+ * KYC levels and what each one unlocks.
+ *
+ *   none → email_verified → basic (identity) → enhanced (address + source of funds)
+ *
+ * `email_verified` follows from User.emailVerified and is never stored; basic
+ * and enhanced are granted by an admin approving a submission for that level
+ * (or setting it directly) and every change is written to KycLevelChange.
+ * `User.kycStatus` is kept in step for older clients: "verified" means at
+ * least basic.
+ *
+ * A verified user whose ID document expires, or whom an admin asks to
+ * re-verify, keeps their level but moves to kycStatus
+ * "reverification_required" until a new submission is approved. In that
+ * state the capabilities in REVERIFICATION_BLOCKS are off.
+ */
+
+export const KYC_LEVELS = ["none", "email_verified", "basic", "enhanced"] as const;
+export type KycLevel = typeof KYC_LEVELS[number];
+
+// Levels a user can apply for with a submission
+export const SUBMITTABLE_LEVELS = ["basic", "enhanced"] as const;
+export type SubmittableLevel = typeof SUBMITTABLE_LEVELS[number];
+
+export const KYC_LEVEL_LABELS: Record<KycLevel, string> = {
+  none: "Unverified",
+  email_verified: "Email verified",
+  basic: "Identity verified",
+  enhanced: "Enhanced verification",
+};
+
+export type KycCapability = "withdraw" | "transfer" | "trade";
+
+// The lowest level that unlocks each capability
+export const CAPABILITY_LEVELS: Record<KycCapability, KycLevel> = {
+  withdraw: "basic",
+  transfer: "basic",
+  trade: "basic",
+};
+
+// Capabilities suspended while a user has to re-verify
+export const REVERIFICATION_BLOCKS: KycCapability[] = ["withdraw"];
+
+// Days before a document expires that the user is warned, largest first
+export const EXPIRY_WARNING_DAYS = [30, 7, 1];
+
+// Largest single investment per level (null = no threshold)
+export const INVESTMENT_THRESHOLDS: Record<KycLevel, number | null> = {
+  none: 0,
+  email_verified: 1_000,
+  basic: 50_000,
+  enhanced: null,
+};
+
+export class KycLevelError extends Error {
+  constructor(message: string, public status: number = 403) {
+    super(message);
+    this.name = "KycLevelError";
+  }
+}
+
+type LevelFields = { kycLevel: string; kycStatus: string; emailVerified: boolean };
+
+export const kycLevelSelect = { kycLevel: true, kycStatus: true, emailVerified: true } as const;
+
+export function levelRank(level: string): number {
+  return Math.max(0, KYC_LEVELS.indexOf(level as KycLevel));
+}
+
+/**
+ * A user's effective level. Accounts verified before levels existed count as basic.
+ */
+export function kycLevelOf(user: LevelFields): KycLevel {
+  let level: KycLevel = user.emailVerified ? "email_verified" : "none";
+  if (user.kycStatus === "verified" && levelRank("basic") > levelRank(level)) level = "basic";
+  if (levelRank(user.kycLevel) > levelRank(level)) level = user.kycLevel as KycLevel;
+  return level;
+}
+
+export function needsReverification(user: { kycStatus: string }): boolean {
+  return user.kycStatus === "reverification_required";
+}
+
+export function kycAllows(user: LevelFields, capability: KycCapability): boolean {
+  if (needsReverification(user) && REVERIFICATION_BLOCKS.includes(capability)) return false;
+  return levelRank(kycLevelOf(user)) >= levelRank(CAPABILITY_LEVELS[capability]);
+}
+
+/**
+ * Everything a level unlocks, for the status endpoints.
+ */
+export function levelCapabilities(level: KycLevel, reverificationRequired = false) {
+  const allows = (capability: KycCapability) =>
+    levelRank(level) >= levelRank(CAPABILITY_LEVELS[capability]) &&
+    !(reverificationRequired && REVERIFICATION_BLOCKS.includes(capability));
+  return {
+    withdraw: allows("withdraw"),
+    transfer: allows("transfer"),
+    trade: allows("trade"),
+    maxInvestment: INVESTMENT_THRESHOLDS[level],
+  };
+}
+
+/**
+ * Throws KycLevelError when a single investment of `amount` is above the
+ * user's level threshold.
+ */
+export async function assertCanInvest(userId: string, amount: number) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: kycLevelSelect });
+  if (!user) throw new KycLevelError("User not found", 404);
+
+  const level = kycLevelOf(user);
+  const threshold = INVESTMENT_THRESHOLDS[level];
+  if (threshold === null || amount <= threshold) return;
+
+  const next = KYC_LEVELS.find((l) => {
+    const t = INVESTMENT_THRESHOLDS[l];
+    return levelRank(l) > levelRank(level) && (t === null || amount <= t);
+  });
+  throw new KycLevelError(
+    threshold <= 0
+      ? "Please verify your email before investing."
+      : `Investments above $${threshold.toLocaleString()} require ${KYC_LEVEL_LABELS[next ?? "enhanced"].toLowerCase()}. Please complete KYC verification in settings.`
+  );
+}
+
+/**
+ * The fields a submission for `level` must include; returns the first problem,
+ * or null when complete.
+ */
+export function missingForLevel(level: SubmittableLevel, input: Record<string, any>): string | null {
+  if (!input.fullName || !input.dateOfBirth || !input.nationality || !input.country) {
+    return "Full name, date of birth, nationality, and country are required";
+  }
+  if (!input.documentType || !input.documentNumber) {
+    return "Document type and number are required";
+  }
+  if (!input.idFrontUrl || !input.selfieUrl) {
+    return "ID front and selfie uploads are required";
+  }
+  // ID back is only required for driver's licenses
+  if (input.documentType === "drivers_license" && !input.idBackUrl) {
+    return "Driver's license requires both front and back images";
+  }
+  if (!input.documentExpiresAt) {
+    return "Document expiry date is required";
+  }
+  const expiryProblem = documentExpiryProblem(input.documentExpiresAt);
+  if (expiryProblem) {
+    return expiryProblem;
+  }
+  if (level === "enhanced") {
+    if (!input.address || !input.city || !input.postalCode || !input.proofOfAddressUrl) {
+      return "Enhanced verification requires your full address and a proof of address document";
+    }
+    if (!input.sourceOfFunds || !input.sourceOfFundsDocUrl) {
+      return "Enhanced verification requires a source of funds declaration and supporting document";
+    }
+  }
+  return null;
+}
+
+/**
+ * Why an ID document expiry date can't be accepted, or null when it's a valid
+ * future date.
+ */
+export function documentExpiryProblem(value: unknown): string | null {
+  const expiresAt = new Date(value as string);
+  if (isNaN(expiresAt.getTime())) {
+    return "Document expiry date is invalid";
+  }
+  if (expiresAt.getTime() <= Date.now()) {
+    return "Your document has expired. Please use a valid document.";
+  }
+  return null;
+}
+
+/**
+ * Move a user to `toLevel` and record who did it. `changedBy` is an admin id,
+ * or null for changes the system makes.
+ */
+export async function setKycLevel(
+  userId: string,
+  toLevel: KycLevel,
+  changedBy: string | null,
+  details: { kycId?: string; reason?: string } = {},
+  db: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  const user = await db.user.findUniqueOrThrow({ where: { id: userId }, select: kycLevelSelect });
+  const fromLevel = kycLevelOf(user);
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      kycLevel: toLevel,
+      kycStatus: levelRank(toLevel) >= levelRank("basic") ? "verified" : user.kycStatus === "verified" ? "none" : user.kycStatus,
+    },
+  });
+
+  return db.kycLevelChange.create({
+    data: {
+      userId,
+      fromLevel,
+      toLevel,
+      kycId: details.kycId,
+      changedBy,
+      reason: details.reason ?? "",
+    },
+  });
+}
+
+/**
+ * Suspend a verified user's withdrawals until they re-verify. `requestedBy` is
+ * an admin id, or null when the job finds an expired document. Users below
+ * basic only get their submission marked.
+ */
+export async function requireReverification(userId: string, requestedBy: string | null, reason: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { ...kycLevelSelect, email: true, firstName: true },
+  });
+  if (!user) throw new KycLevelError("User not found", 404);
+  if (needsReverification(user)) throw new KycLevelError("Re-verification has already been requested", 400);
+
+  const level = kycLevelOf(user);
+  const kyc = await prisma.$transaction(async (tx) => {
+    // A submission under review stays pending; approving it ends the re-verification
+    const existing = await tx.kYC.findUnique({ where: { userId }, select: { status: true } });
+    const request = {
+      status: existing?.status === "pending" ? "pending" : "reverification_required",
+      reverificationReason: reason,
+      reverificationRequestedAt: new Date(),
+      reverificationRequestedBy: requestedBy,
+    };
+    const marked = await tx.kYC.upsert({
+      where: { userId },
+      create: { userId, ...request },
+      update: request,
+      select: { id: true, status: true },
+    });
+
+    if (levelRank(level) >= levelRank("basic")) {
+      // Store the level so a legacy "verified" user keeps it while kycStatus says otherwise
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, kycStatus: user.kycStatus },
+        data: { kycLevel: level, kycStatus: "reverification_required" },
+      });
+      if (count === 0) throw new KycLevelError("KYC status changed, please try again", 409);
+    }
+    return marked;
+  }, { timeout: 15000 });
+
+  if (levelRank(level) >= levelRank("basic")) {
+    createInAppNotification(
+      userId,
+      "security",
+      "Identity Re-verification Required",
+      `Withdrawals are paused until you re-verify your identity. Reason: ${reason}`
+    ).catch(() => {});
+    sendKYCReverificationEmail(user.email, user.firstName, reason).catch(() => {});
+  }
+
+  console.log(`🪪 Re-verification required for user ${userId} (${requestedBy ? `admin ${requestedBy}` : "system"}): ${reason}`);
+  return kyc;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Warn users whose approved document expires within EXPIRY_WARNING_DAYS, and
+ * require re-verification once it has expired.
+ */
+export async function runDocumentExpiryChecks(now = new Date()) {
+  const result = { warned: 0, expired: 0, failed: 0 };
+
+  const due = await prisma.kYC.findMany({
+    where: {
+      status: "approved",
+      documentExpiresAt: { lte: new Date(now.getTime() + EXPIRY_WARNING_DAYS[0] * DAY_MS) },
+    },
+    select: {
+      id: true,
+      userId: true,
+      documentExpiresAt: true,
+      expiryWarningDays: true,
+      user: { select: { email: true, firstName: true } },
+    },
+  });
+
+  for (const kyc of due) {
+    try {
+      const expiresAt = kyc.documentExpiresAt!;
+      if (expiresAt <= now) {
+        await requireReverification(kyc.userId, null, `Your ID document expired on ${expiresAt.toDateString()}.`);
+        result.expired++;
+        continue;
+      }
+
+      const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+      const threshold = EXPIRY_WARNING_DAYS.filter((d) => daysLeft <= d).pop()!;
+      if (kyc.expiryWarningDays !== null && kyc.expiryWarningDays <= threshold) continue;
+
+      // Conditional so overlapping runs send each warning once. The field is
+      // unset rather than null before the first warning (see submitKYC).
+      const { count } = await prisma.kYC.updateMany({
+        where: { id: kyc.id, expiryWarningDays: kyc.expiryWarningDays ?? { isSet: false } },
+        data: { expiryWarningDays: threshold },
+      });
+      if (count === 0) continue;
+
+      createInAppNotification(
+        kyc.userId,
+        "security",
+        "ID Document Expiring",
+        `Your ID document expires ${daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`}. Re-verify with a valid document to keep withdrawals enabled.`
+      ).catch(() => {});
+      if (kyc.user) {
+        sendKYCDocumentExpiryEmail(kyc.user.email, kyc.user.firstName, expiresAt, daysLeft).catch(() => {});
+      }
+      result.warned++;
+    } catch (err) {
+      console.error(`Document expiry check failed for KYC ${kyc.id}:`, err);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
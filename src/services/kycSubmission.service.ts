@@ -0,0 +1,142 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * KYC submission history.
+ *
+ * The KYC row is the user's working copy: it is edited between submissions
+ * and overwritten on resubmit. Every submit also freezes the application into
+ * a KycSubmissionVersion, and the review writes its decision onto that
+ * version, so admins can see exactly what was sent each time and compare.
+ */
+
+// The submitted fields copied into every version, in display order
+export const SUBMISSION_FIELDS = [
+  "level",
+  "fullName",
+  "dateOfBirth",
+  "nationality",
+  "address",
+  "city",
+  "state",
+  "postalCode",
+  "country",
+  "documentType",
+  "documentNumber",
+  "documentExpiresAt",
+  "idFrontUrl",
+  "idBackUrl",
+  "proofOfAddressUrl",
+  "selfieUrl",
+  "sourceOfFunds",
+  "sourceOfFundsDocUrl",
+] as const;
+
+type SubmissionField = typeof SUBMISSION_FIELDS[number];
+
+const submissionSelect = Object.fromEntries(SUBMISSION_FIELDS.map((f) => [f, true])) as Record<SubmissionField, true>;
+
+/**
+ * Freeze the KYC row as just submitted into the next version.
+ */
+export async function recordSubmissionVersion(tx: Prisma.TransactionClient, kycId: string) {
+  const kyc = await tx.kYC.findUniqueOrThrow({
+    where: { id: kycId },
+    select: { ...submissionSelect, userId: true, submittedAt: true },
+  });
+  const version = (await tx.kycSubmissionVersion.count({ where: { kycId } })) + 1;
+
+  return tx.kycSubmissionVersion.create({
+    data: {
+      kycId,
+      version,
+      ...kyc,
+      submittedAt: kyc.submittedAt ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Before a resubmit overwrites a KYC row reviewed before versions existed,
+ * keep what was reviewed as version 1.
+ */
+export async function archiveUnversionedSubmission(tx: Prisma.TransactionClient, userId: string) {
+  const kyc = await tx.kYC.findUnique({
+    where: { userId },
+    select: {
+      ...submissionSelect,
+      id: true,
+      status: true,
+      submittedAt: true,
+      reviewedAt: true,
+      reviewedBy: true,
+      rejectionReason: true,
+      adminNotes: true,
+    },
+  });
+  if (!kyc?.submittedAt || !["approved", "rejected"].includes(kyc.status)) return null;
+  if (await tx.kycSubmissionVersion.count({ where: { kycId: kyc.id } })) return null;
+
+  const { id, status, ...fields } = kyc;
+  return tx.kycSubmissionVersion.create({
+    data: {
+      ...fields,
+      kycId: id,
+      userId,
+      version: 1,
+      submittedAt: kyc.submittedAt,
+      status,
+      approvedLevel: status === "approved" ? kyc.level : null,
+    },
+  });
+}
+
+/**
+ * Write the review decision onto the version under review. Only a pending
+ * version is updated, so a decided version never changes.
+ */
+export async function recordReviewDecision(
+  tx: Prisma.TransactionClient,
+  kycId: string,
+  decision: {
+    status: "approved" | "rejected";
+    reviewedBy: string;
+    approvedLevel?: string;
+    rejectionReason?: string;
+    adminNotes?: string;
+  }
+) {
+  // Submitted before versions existed: the row under review becomes version 1
+  const latest =
+    (await tx.kycSubmissionVersion.findFirst({
+      where: { kycId },
+      orderBy: { version: "desc" },
+      select: { id: true },
+    })) ?? (await recordSubmissionVersion(tx, kycId));
+
+  await tx.kycSubmissionVersion.updateMany({
+    where: { id: latest.id, status: "pending" },
+    data: {
+      status: decision.status,
+      approvedLevel: decision.approvedLevel ?? null,
+      reviewedAt: new Date(),
+      reviewedBy: decision.reviewedBy,
+      rejectionReason: decision.rejectionReason ?? "",
+      adminNotes: decision.adminNotes ?? "",
+    },
+  });
+}
+
+function comparable(value: unknown) {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/**
+ * The submitted fields that differ between two versions, side by side.
+ */
+export function diffVersions(from: Record<SubmissionField, unknown>, to: Record<SubmissionField, unknown>) {
+  return SUBMISSION_FIELDS.filter((field) => comparable(from[field]) !== comparable(to[field])).map((field) => ({
+    field,
+    from: from[field] ?? null,
+    to: to[field] ?? null,
+  }));
+}
@@ -0,0 +1,313 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { StaleWriteError } from "../utils/retry.js";
+
+/**
+ * Double-entry ledger.
+ *
+ * Every movement of money posts a balanced LedgerEntry: the signed amounts of
+ * its postings always sum to 0 (positive = credit, negative = debit). Each user
+ * owns one account per bucket; the platform owns the other side of every entry.
+ *
+ * A user's spendable balance is the sum of their bucket accounts. The legacy
+ * `User.balance` / `profits` / `referralCommissions` / `bonus` fields are kept
+ * as a mirror of the ledger and are updated in the same write as the postings.
+ */
+
+export const USER_BUCKETS = ["cash", "profits", "referralCommissions", "bonus"] as const;
+export type UserBucket = typeof USER_BUCKETS[number];
+
+// Order in which a spend draws down a user's buckets
+const DRAWDOWN_ORDER: UserBucket[] = ["cash", "bonus", "referralCommissions", "profits"];
+
+export const PLATFORM_ACCOUNTS = {
+  deposits: "platform:deposits",
+  withdrawals: "platform:withdrawals",
+  investments: "platform:investments",
+  profitExpense: "platform:profit_expense",
+  referralExpense: "platform:referral_expense",
+  adjustments: "platform:adjustments",
+  pendingTransfers: "platform:pending_transfers",
+  openingBalances: "platform:opening_balances",
+  feeRevenue: "platform:fee_revenue",
+  escrow: "platform:escrow",
+  propertySales: "platform:property_sales",
+} as const;
+export type PlatformAccount = typeof PLATFORM_ACCOUNTS[keyof typeof PLATFORM_ACCOUNTS];
+
+export type LedgerAccountRef =
+  | { userId: string; bucket: UserBucket }
+  | { platform: PlatformAccount };
+
+export interface LedgerPostingInput {
+  account: LedgerAccountRef;
+  amount: number;
+  drawdown?: boolean;
+}
+
+export interface LedgerEntryInput {
+  type: string;
+  reference?: string;
+  description?: string;
+  postings: LedgerPostingInput[];
+}
+
+export interface UserLedgerBalances {
+  balance: number;
+  buckets: Record<UserBucket, number>;
+  earned: Record<Exclude<UserBucket, "cash">, number>;
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export class InsufficientBalanceError extends Error {
+  constructor(public available: number, public requested: number) {
+    super("Insufficient balance");
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+// Amounts are stored as floats; round every posting to whole cents so entries balance exactly.
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function userAccountCode(userId: string, bucket: UserBucket): string {
+  return `user:${userId}:${bucket}`;
+}
+
+function accountCode(ref: LedgerAccountRef): string {
+  return "platform" in ref ? ref.platform : userAccountCode(ref.userId, ref.bucket);
+}
+
+async function ensureAccount(db: Db, ref: LedgerAccountRef) {
+  const code = accountCode(ref);
+  const existing = await db.ledgerAccount.findUnique({ where: { code } });
+  if (existing) return existing;
+
+  try {
+    return await db.ledgerAccount.create({
+      data: "platform" in ref
+        ? { code, kind: "platform", bucket: ref.platform.slice("platform:".length) }
+        : { code, kind: "user", userId: ref.userId, bucket: ref.bucket },
+    });
+  } catch (err) {
+    if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+    // A concurrent first posting created it. Inside a transaction the
+    // duplicate key has aborted it, so withConflictRetry runs it again and
+    // finds the account; outside one it can just be read.
+    if (db === prisma) return prisma.ledgerAccount.findUniqueOrThrow({ where: { code } });
+    throw new StaleWriteError(`Ledger account ${code}`);
+  }
+}
+
+/**
+ * Post a balanced entry. Must be called with the interactive transaction client
+ * of the surrounding business write so the entry commits or rolls back with it.
+ */
+export async function postLedgerEntry(db: Db, input: LedgerEntryInput) {
+  const postings = input.postings
+    .map((p) => ({ ...p, amount: roundCents(p.amount) }))
+    .filter((p) => p.amount !== 0);
+
+  if (postings.length < 2) {
+    throw new Error(`Ledger entry "${input.type}" needs at least two non-zero postings`);
+  }
+
+  const total = roundCents(postings.reduce((sum, p) => sum + p.amount, 0));
+  if (total !== 0) {
+    throw new Error(`Ledger entry "${input.type}" is unbalanced by ${total}`);
+  }
+
+  const entry = await db.ledgerEntry.create({
+    data: {
+      type: input.type,
+      reference: input.reference ?? "",
+      description: input.description ?? "",
+    },
+  });
+
+  // Net change per user, mirrored onto the legacy User balance fields below
+  const userDeltas = new Map<string, Record<string, number>>();
+
+  for (const posting of postings) {
+    const account = await ensureAccount(db, posting.account);
+
+    await db.ledgerPosting.create({
+      data: {
+        entryId: entry.id,
+        accountId: account.id,
+        userId: account.userId,
+        bucket: account.bucket,
+        entryType: input.type,
+        amount: posting.amount,
+        drawdown: posting.drawdown ?? false,
+      },
+    });
+
+    if (account.kind === "user" && posting.amount < 0) {
+      // Debits are conditional on the balance still covering them, so a spend
+      // validated against a stale read can't take a user account below zero
+      const { count } = await db.ledgerAccount.updateMany({
+        where: { id: account.id, balance: { gte: -posting.amount - 0.001 } },
+        data: { balance: { increment: posting.amount } },
+      });
+      if (count === 0) {
+        const current = await db.ledgerAccount.findUnique({ where: { id: account.id }, select: { balance: true } });
+        throw new InsufficientBalanceError(roundCents(current?.balance ?? 0), -posting.amount);
+      }
+    } else {
+      await db.ledgerAccount.update({
+        where: { id: account.id },
+        data: { balance: { increment: posting.amount } },
+      });
+    }
+
+    if (account.userId) {
+      const delta = userDeltas.get(account.userId) ?? {};
+      delta.balance = (delta.balance ?? 0) + posting.amount;
+      if (account.bucket !== "cash" && !posting.drawdown) {
+        delta[account.bucket] = (delta[account.bucket] ?? 0) + posting.amount;
+      }
+      userDeltas.set(account.userId, delta);
+    }
+  }
+
+  for (const [userId, delta] of userDeltas) {
+    const data: Record<string, { increment: number }> = {};
+    for (const [field, amount] of Object.entries(delta)) {
+      data[field] = { increment: roundCents(amount) };
+    }
+    await db.user.update({ where: { id: userId }, data });
+  }
+
+  return entry;
+}
+
+/**
+ * Build the debit postings for a spend of `amount` from a user's balance,
+ * drawing down buckets in DRAWDOWN_ORDER. Throws InsufficientBalanceError
+ * when the user's buckets do not cover the amount.
+ */
+export async function drawFromUser(db: Db, userId: string, amount: number): Promise<LedgerPostingInput[]> {
+  const requested = roundCents(amount);
+  const accounts = await db.ledgerAccount.findMany({
+    where: { userId, kind: "user" },
+    select: { bucket: true, balance: true },
+  });
+
+  const available = roundCents(accounts.reduce((sum, a) => sum + Math.max(a.balance, 0), 0));
+  if (available < requested) {
+    throw new InsufficientBalanceError(available, requested);
+  }
+
+  const postings: LedgerPostingInput[] = [];
+  let remaining = requested;
+  for (const bucket of DRAWDOWN_ORDER) {
+    if (remaining <= 0) break;
+    const balance = roundCents(accounts.find((a) => a.bucket === bucket)?.balance ?? 0);
+    if (balance <= 0) continue;
+
+    const take = Math.min(balance, remaining);
+    postings.push({ account: { userId, bucket }, amount: -take, drawdown: true });
+    remaining = roundCents(remaining - take);
+  }
+
+  return postings;
+}
+
+/**
+ * Current bucket balances plus lifetime earnings per non-cash bucket.
+ * `earned` excludes drawdowns, so spending profits doesn't reduce "profits earned".
+ */
+export async function getUserBalances(userId: string, db: Db = prisma): Promise<UserLedgerBalances> {
+  const [accounts, earnedRows] = await Promise.all([
+    db.ledgerAccount.findMany({
+      where: { userId, kind: "user" },
+      select: { bucket: true, balance: true },
+    }),
+    db.ledgerPosting.groupBy({
+      by: ["bucket"],
+      where: { userId, drawdown: false, bucket: { not: "cash" } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const buckets = { cash: 0, profits: 0, referralCommissions: 0, bonus: 0 } as Record<UserBucket, number>;
+  for (const account of accounts) {
+    if ((USER_BUCKETS as readonly string[]).includes(account.bucket)) {
+      buckets[account.bucket as UserBucket] = roundCents(account.balance);
+    }
+  }
+
+  const earned = { profits: 0, referralCommissions: 0, bonus: 0 };
+  for (const row of earnedRows) {
+    if (row.bucket in earned) {
+      earned[row.bucket as keyof typeof earned] = roundCents(row._sum.amount ?? 0);
+    }
+  }
+
+  const balance = roundCents(USER_BUCKETS.reduce((sum, b) => sum + buckets[b], 0));
+
+  return { balance, buckets, earned };
+}
+
+/**
+ * Spendable balance only — shorthand for the many call sites that just need the total.
+ */
+export async function getUserBalance(userId: string, db: Db = prisma): Promise<number> {
+  const accounts = await db.ledgerAccount.findMany({
+    where: { userId, kind: "user" },
+    select: { balance: true },
+  });
+  return roundCents(accounts.reduce((sum, a) => sum + a.balance, 0));
+}
+
+/**
+ * Credit a user bucket from a platform account (deposit, profit, commission, admin credit).
+ */
+export async function creditUser(
+  db: Db,
+  params: {
+    userId: string;
+    bucket: UserBucket;
+    amount: number;
+    from: PlatformAccount;
+    type: string;
+    reference?: string;
+    description?: string;
+  }
+) {
+  return postLedgerEntry(db, {
+    type: params.type,
+    reference: params.reference,
+    description: params.description,
+    postings: [
+      { account: { userId: params.userId, bucket: params.bucket }, amount: params.amount },
+      { account: { platform: params.from }, amount: -params.amount },
+    ],
+  });
+}
+
+/**
+ * Debit a user's spendable balance into a platform account (withdrawal, investment).
+ */
+export async function debitUser(
+  db: Db,
+  params: {
+    userId: string;
+    amount: number;
+    to: PlatformAccount;
+    type: string;
+    reference?: string;
+    description?: string;
+  }
+) {
+  const draws = await drawFromUser(db, params.userId, params.amount);
+  return postLedgerEntry(db, {
+    type: params.type,
+    reference: params.reference,
+    description: params.description,
+    postings: [...draws, { account: { platform: params.to }, amount: params.amount }],
+  });
+}
@@ -0,0 +1,147 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { roundCents } from "./ledger.service.js";
+import { KycLevel, kycLevelOf, kycLevelSelect } from "./kyc.service.js";
+
+/**
+ * Rolling daily / weekly / monthly limits on deposits, withdrawals and
+ * transfers.
+ *
+ * Defaults come from the user's KYC level, scaled down for accounts younger
+ * than NEW_ACCOUNT_DAYS. An admin override (TransactionLimitOverride) replaces
+ * the default for one operation and period. Usage counts everything that is
+ * pending or done — a rejected, failed, refunded or reversed request frees its
+ * allowance again.
+ */
+
+export const LIMIT_OPERATIONS = ["deposit", "withdrawal", "transfer"] as const;
+export type LimitOperation = typeof LIMIT_OPERATIONS[number];
+
+export const LIMIT_PERIODS = ["daily", "weekly", "monthly"] as const;
+export type LimitPeriod = typeof LIMIT_PERIODS[number];
+
+export type LimitTier = KycLevel;
+
+const PERIOD_DAYS: Record<LimitPeriod, number> = { daily: 1, weekly: 7, monthly: 30 };
+
+export const NEW_ACCOUNT_DAYS = 30;
+const NEW_ACCOUNT_FACTOR = 0.5;
+
+export const DEFAULT_LIMITS: Record<LimitTier, Record<LimitOperation, Record<LimitPeriod, number>>> = {
+  none: {
+    deposit: { daily: 1000, weekly: 2500, monthly: 5000 },
+    withdrawal: { daily: 0, weekly: 0, monthly: 0 },
+    transfer: { daily: 0, weekly: 0, monthly: 0 },
+  },
+  email_verified: {
+    deposit: { daily: 10000, weekly: 25000, monthly: 50000 },
+    withdrawal: { daily: 0, weekly: 0, monthly: 0 },
+    transfer: { daily: 0, weekly: 0, monthly: 0 },
+  },
+  basic: {
+    deposit: { daily: 100000, weekly: 250000, monthly: 1000000 },
+    withdrawal: { daily: 25000, weekly: 100000, monthly: 250000 },
+    transfer: { daily: 10000, weekly: 50000, monthly: 100000 },
+  },
+  enhanced: {
+    deposit: { daily: 500000, weekly: 1000000, monthly: 5000000 },
+    withdrawal: { daily: 100000, weekly: 250000, monthly: 1000000 },
+    transfer: { daily: 50000, weekly: 100000, monthly: 250000 },
+  },
+};
+
+export interface LimitWindow {
+  period: LimitPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  overridden: boolean;
+}
+
+export interface LimitStatus {
+  operation: LimitOperation;
+  tier: LimitTier;
+  newAccount: boolean;
+  windows: LimitWindow[];
+}
+
+export class LimitExceededError extends Error {
+  constructor(public operation: LimitOperation, public window: LimitWindow) {
+    super(
+      window.limit <= 0
+        ? `Your account is not permitted to make ${operation}s.`
+        : `This ${operation} exceeds your ${window.period} limit of $${window.limit.toLocaleString()} ($${window.remaining.toLocaleString()} remaining).`
+    );
+    this.name = "LimitExceededError";
+  }
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+
+/**
+ * Totals of the user's `operation` over each rolling period.
+ */
+async function usage(userId: string, operation: LimitOperation, now: Date, db: Db): Promise<Record<LimitPeriod, number>> {
+  const since = new Date(now.getTime() - PERIOD_DAYS.monthly * 24 * 60 * 60 * 1000);
+
+  // Money a refund or dispute returned to the sender frees its allowance again
+  const rows = operation === "transfer"
+    ? (
+        await db.transfer.findMany({
+          where: { senderId: userId, status: { in: ["pending", "completed"] }, createdAt: { gte: since } },
+          select: { amount: true, reversedAmount: true, createdAt: true },
+        })
+      ).map((t) => ({ amount: t.amount - t.reversedAmount, createdAt: t.createdAt }))
+    : await db.fundOperation.findMany({
+        where: { userId, type: operation, status: { in: ["pending", "processing", "completed"] }, createdAt: { gte: since } },
+        select: { amount: true, createdAt: true },
+      });
+
+  const totals = { daily: 0, weekly: 0, monthly: 0 };
+  for (const period of LIMIT_PERIODS) {
+    const start = now.getTime() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000;
+    totals[period] = roundCents(
+      rows.filter((r) => r.createdAt.getTime() >= start).reduce((sum, r) => sum + r.amount, 0)
+    );
+  }
+  return totals;
+}
+
+export async function getLimitStatus(userId: string, operation: LimitOperation, db: Db = prisma): Promise<LimitStatus> {
+  const now = new Date();
+  const [user, overrides, used] = await Promise.all([
+    db.user.findUniqueOrThrow({ where: { id: userId }, select: { ...kycLevelSelect, createdAt: true } }),
+    db.transactionLimitOverride.findMany({ where: { userId, operation } }),
+    usage(userId, operation, now, db),
+  ]);
+
+  const tier = kycLevelOf(user);
+  const newAccount = now.getTime() - user.createdAt.getTime() < NEW_ACCOUNT_DAYS * 24 * 60 * 60 * 1000;
+
+  const windows = LIMIT_PERIODS.map((period) => {
+    const override = overrides.find((o) => o.period === period);
+    const limit = override
+      ? override.amount
+      : roundCents(DEFAULT_LIMITS[tier][operation][period] * (newAccount ? NEW_ACCOUNT_FACTOR : 1));
+    return {
+      period,
+      limit,
+      used: used[period],
+      remaining: roundCents(Math.max(limit - used[period], 0)),
+      overridden: !!override,
+    };
+  });
+
+  return { operation, tier, newAccount, windows };
+}
+
+/**
+ * Throws LimitExceededError for the first period `amount` doesn't fit in.
+ */
+export async function assertWithinLimits(userId: string, operation: LimitOperation, amount: number, db: Db = prisma) {
+  const status = await getLimitStatus(userId, operation, db);
+  const exceeded = status.windows.find((w) => amount > w.remaining);
+  if (exceeded) throw new LimitExceededError(operation, exceeded);
+  return status;
+}
@@ -224,6 +224,70 @@ export async function sendLoginAlert(
   }
 }
 
+/**
+ * Alert the user that their payout destinations changed. Goes out on the
+ * login-alert channel, since an attacker adding a wallet looks like one.
+ */
+export async function sendPayoutDestinationAlert(
+  userId: string,
+  action: "added" | "confirmed" | "removed",
+  label: string,
+  availableAt?: Date | null
+): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, firstName: true, lastName: true },
+    });
+    if (!user) return;
+
+    const userName = `${user.firstName} ${user.lastName}`;
+    const headline = {
+      added: "New Withdrawal Destination Added",
+      confirmed: "Withdrawal Destination Confirmed",
+      removed: "Withdrawal Destination Removed",
+    }[action];
+    const summary = action === "confirmed" && availableAt
+      ? `Your withdrawal destination "${label}" was confirmed and can receive funds from ${availableAt.toLocaleString()}.`
+      : `Your withdrawal destination "${label}" was ${action}.`;
+
+    const body = `
+      ${sectionHeading(headline)}
+      ${paragraph(`Hello <strong>${escapeHtml(userName)}</strong>,`)}
+      ${paragraph(escapeHtml(summary))}
+      ${detailTable(
+        detailRow("Destination", escapeHtml(label)) +
+        detailRow("Change", action) +
+        detailRow("Time", new Date().toLocaleString())
+      )}
+      ${warningBox(`<p style="margin:0; font-size:14px; color:#92400e;"><strong>Wasn't you?</strong> Remove the destination, change your password and review your active sessions immediately.</p>`)}
+      ${ctaButton("Review Withdrawal Settings", `${emailConfig.appUrl}/dashboard/settings?tab=security`)}
+      <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Security Team</strong></p>
+    `;
+
+    await sendEmailNotification(
+      userId,
+      {
+        to: user.email,
+        subject: `${headline} — ${emailConfig.appName}`,
+        html: emailWrapper({ preheader: summary, body }),
+        text: `Hello ${userName},\n\n${summary}\n\nIf this wasn't you, secure your account immediately.\n\n${emailConfig.appUrl}/dashboard/settings?tab=security`,
+      },
+      NotificationType.LOGIN_ALERT
+    );
+
+    await createInAppNotification(userId, "security", headline, summary);
+
+    emitToUser(userId, "security_alert", {
+      type: `payout_destination_${action}`,
+      label,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error sending payout destination alert:", error);
+  }
+}
+
 /**
  * Send account deactivation farewell email
  */
@@ -756,6 +820,61 @@ export async function sendTransferFailedNotification(
   }
 }
 
+/**
+ * Send notification when another user requests money from you
+ */
+export async function sendPaymentRequestNotification(
+  userId: string,
+  userEmail: string,
+  requesterName: string,
+  amount: number,
+  note: string,
+  payUrl: string,
+  expiresAt: Date
+): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { firstName: true },
+    });
+
+    const body = `
+      ${sectionHeading("Payment Requested")}
+      ${paragraph(`Hello <strong>${user?.firstName || "there"}</strong>,`)}
+      ${paragraph(`<strong>${escapeHtml(requesterName)}</strong> has requested a payment from you.`)}
+      ${bigAmount(`$${amount.toFixed(2)}`)}
+      ${detailTable(
+        detailRow("From", escapeHtml(requesterName)) +
+        (note ? detailRow("Note", escapeHtml(note)) : "") +
+        detailRow("Expires", expiresAt.toLocaleString())
+      )}
+      ${ctaButton("Review Request", payUrl)}
+      ${paragraph("Only pay requests from people you know. You can decline this request from your dashboard.")}
+      <p style="margin:20px 0 0; font-size:14px; color:#9ca3af;">Regards,<br><strong style="color:#374151;">${emailConfig.appName} Team</strong></p>
+    `;
+
+    await sendEmailNotification(
+      userId,
+      {
+        to: userEmail,
+        subject: `${requesterName} requested $${amount.toFixed(2)}`,
+        html: emailWrapper({ preheader: `${requesterName} requested $${amount.toFixed(2)} from you.`, body }),
+        text: `Hello ${user?.firstName || "there"},\n\n${requesterName} requested $${amount.toFixed(2)} from you.${note ? `\nNote: ${note}` : ""}\n\nReview it: ${payUrl}`,
+      },
+      NotificationType.EMAIL
+    );
+
+    await createInAppNotification(
+      userId,
+      "transfer",
+      "Payment Requested",
+      `${requesterName} requested $${amount.toFixed(2)}${note ? ` — ${note}` : ""}`
+    );
+  } catch (error) {
+    console.error("Error sending payment request notification:", error);
+  }
+}
+
 /**
  * Send notification when someone uses your referral code
  */
@@ -1059,6 +1178,110 @@ export async function notifyAdminNewUserSignup(
   }
 }
 
+/**
+ * Send email to admin when a referral commission is held for fraud review
+ */
+export async function notifyAdminReferralCommissionHeld(
+  beneficiaryEmail: string,
+  referredEmail: string,
+  amount: number,
+  signals: string[]
+): Promise<void> {
+  try {
+    const adminEmail = env.ADMIN_EMAIL;
+    if (!adminEmail || !process.env.SMTP_USER || !process.env.SMTP_PASS) return;
+
+    const body = `
+      ${badge("Review Needed", "#f59e0b")}
+      <br><br>
+      ${sectionHeading("Referral Commission Held")}
+      ${paragraph("A referral commission was held because the two accounts look linked. It will not be credited until it is released from the admin dashboard.")}
+      ${detailTable(
+        detailRow("Beneficiary", beneficiaryEmail) +
+        detailRow("Referred User", referredEmail) +
+        detailRow("Amount", `$${amount.toFixed(2)}`) +
+        signals.map((signal, i) => detailRow(i === 0 ? "Signals" : "", signal)).join("")
+      )}
+      <p style="margin:20px 0 0; font-size:13px; color:#9ca3af;">${emailConfig.appName} Admin Panel</p>
+    `;
+
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: adminEmail,
+      subject: `Referral Commission Held: ${beneficiaryEmail} ← ${referredEmail}`,
+      html: emailWrapper({ preheader: `A $${amount.toFixed(2)} referral commission needs review.`, body }),
+      text: `Referral commission held for review\n\nBeneficiary: ${beneficiaryEmail}\nReferred User: ${referredEmail}\nAmount: $${amount.toFixed(2)}\n\nSignals:\n${signals.map((s) => `- ${s}`).join("\n")}`,
+    });
+  } catch (error) {
+    console.error("Error sending admin referral hold notification:", error);
+  }
+}
+
+/**
+ * Send email to admin when a user's KYC details match a sanctions or PEP list
+ */
+export async function notifyAdminScreeningHits(userEmail: string, hits: string[]): Promise<void> {
+  try {
+    const adminEmail = env.ADMIN_EMAIL;
+    if (!adminEmail || !process.env.SMTP_USER || !process.env.SMTP_PASS) return;
+
+    const body = `
+      ${badge("Screening Hit", "#ef4444")}
+      <br><br>
+      ${sectionHeading("Watchlist Match")}
+      ${paragraph("A user's KYC details matched one or more watchlist entries. Their KYC can't be approved until each hit is confirmed or dismissed.")}
+      ${detailTable(
+        detailRow("User", userEmail) +
+        hits.map((hit, i) => detailRow(i === 0 ? "Matches" : "", hit)).join("")
+      )}
+      <p style="margin:20px 0 0; font-size:13px; color:#9ca3af;">${emailConfig.appName} Admin Panel</p>
+    `;
+
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: adminEmail,
+      subject: `Screening Hit: ${userEmail}`,
+      html: emailWrapper({ preheader: `${userEmail} matched ${hits.length} watchlist entr${hits.length === 1 ? "y" : "ies"}.`, body }),
+      text: `Watchlist match\n\nUser: ${userEmail}\n\nMatches:\n${hits.map((h) => `- ${h}`).join("\n")}`,
+    });
+  } catch (error) {
+    console.error("Error sending admin screening hit notification:", error);
+  }
+}
+
+/**
+ * Send email to admin when a high-severity AML alert opens
+ */
+export async function notifyAdminAmlAlert(userEmail: string, ruleName: string, summary: string): Promise<void> {
+  try {
+    const adminEmail = env.ADMIN_EMAIL;
+    if (!adminEmail || !process.env.SMTP_USER || !process.env.SMTP_PASS) return;
+
+    const body = `
+      ${badge("AML Alert", "#ef4444")}
+      <br><br>
+      ${sectionHeading("Suspicious Activity")}
+      ${paragraph("A transaction monitoring rule fired. The alert is waiting in the AML case queue.")}
+      ${detailTable(
+        detailRow("User", userEmail) +
+        detailRow("Rule", ruleName) +
+        detailRow("Details", summary)
+      )}
+      <p style="margin:20px 0 0; font-size:13px; color:#9ca3af;">${emailConfig.appName} Admin Panel</p>
+    `;
+
+    await transporter.sendMail({
+      from: emailConfig.from,
+      to: adminEmail,
+      subject: `AML Alert: ${ruleName} — ${userEmail}`,
+      html: emailWrapper({ preheader: `${ruleName}: ${summary}`, body }),
+      text: `AML alert\n\nUser: ${userEmail}\nRule: ${ruleName}\nDetails: ${summary}`,
+    });
+  } catch (error) {
+    console.error("Error sending admin AML alert notification:", error);
+  }
+}
+
 /**
  * Send email to admin when a user signs in
  */
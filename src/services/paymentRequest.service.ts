@@ -0,0 +1,234 @@
+import crypto from "crypto";
+import { PaymentRequest } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { createInAppNotification, sendPaymentRequestNotification } from "./notification.service.js";
+import { executeTransfer } from "./transfer.service.js";
+
+/**
+ * Payment requests and pay links.
+ *
+ *   pending ──→ paying ──→ paid
+ *      ├──→ declined   (by the addressed payer)
+ *      ├──→ cancelled  (by the requester)
+ *      └──→ expired
+ *
+ * "paying" holds the request while its transfer runs so it can't be paid
+ * twice; a failed transfer puts it back to pending. The request is marked
+ * paid inside the transfer's transaction, so one still "paying" after
+ * PAYING_TIMEOUT_MS was never paid and the expiry job reopens it.
+ */
+
+export class PaymentRequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PaymentRequestError";
+  }
+}
+
+export const DEFAULT_EXPIRY_DAYS = 14;
+
+// Well past a transfer's transaction timeout and its conflict retries
+const PAYING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function payUrl(token: string) {
+  return `${env.FRONTEND_URL}/pay/${token}`;
+}
+
+export function serializeRequest(request: PaymentRequest, requester?: { firstName: string; lastName: string; email: string }) {
+  return {
+    ...request,
+    // Stale rows may not have been swept by the expiry job yet
+    status: request.status === "pending" && request.expiresAt < new Date() ? "expired" : request.status,
+    payUrl: payUrl(request.token),
+    requester: requester
+      ? { name: `${requester.firstName} ${requester.lastName}`.trim(), email: requester.email }
+      : undefined,
+  };
+}
+
+export async function createRequest(
+  requesterId: string,
+  input: { payerEmail?: string; amount: number; note?: string; expiresInDays?: number }
+) {
+  const requester = await prisma.user.findUnique({
+    where: { id: requesterId },
+    select: { email: true, firstName: true, lastName: true },
+  });
+  if (!requester) throw new PaymentRequestError("User not found", 404);
+
+  const payerEmail = input.payerEmail?.toLowerCase();
+  if (payerEmail && payerEmail === requester.email.toLowerCase()) {
+    throw new PaymentRequestError("You can't request money from yourself");
+  }
+
+  const request = await prisma.paymentRequest.create({
+    data: {
+      requesterId,
+      payerEmail: payerEmail ?? null,
+      amount: input.amount,
+      note: input.note ?? "",
+      token: crypto.randomBytes(16).toString("hex"),
+      expiresAt: new Date(Date.now() + (input.expiresInDays ?? DEFAULT_EXPIRY_DAYS) * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  if (payerEmail) {
+    const payer = await prisma.user.findUnique({ where: { email: payerEmail }, select: { id: true, email: true } });
+    if (payer) {
+      sendPaymentRequestNotification(
+        payer.id,
+        payer.email,
+        `${requester.firstName} ${requester.lastName}`.trim(),
+        request.amount,
+        request.note,
+        payUrl(request.token),
+        request.expiresAt
+      ).catch(() => {});
+    }
+  }
+
+  return serializeRequest(request, requester);
+}
+
+export async function getRequestByToken(token: string) {
+  const request = await prisma.paymentRequest.findUnique({ where: { token } });
+  if (!request) throw new PaymentRequestError("Payment request not found", 404);
+  const requester = await prisma.user.findUnique({
+    where: { id: request.requesterId },
+    select: { firstName: true, lastName: true, email: true },
+  });
+  return serializeRequest(request, requester ?? undefined);
+}
+
+/**
+ * A request this user may answer: pending, not expired, addressed to them (or
+ * a link), and not their own.
+ */
+async function loadOpenRequest(id: string, payerId: string) {
+  const [request, payer] = await Promise.all([
+    prisma.paymentRequest.findUnique({ where: { id } }),
+    prisma.user.findUnique({ where: { id: payerId }, select: { email: true } }),
+  ]);
+
+  if (!request || !payer) throw new PaymentRequestError("Payment request not found", 404);
+  if (request.payerEmail && request.payerEmail !== payer.email.toLowerCase()) {
+    throw new PaymentRequestError("Payment request not found", 404);
+  }
+  if (request.requesterId === payerId) {
+    throw new PaymentRequestError("You can't pay your own payment request");
+  }
+  if (request.status === "pending" && request.expiresAt < new Date()) {
+    await prisma.paymentRequest.updateMany({ where: { id, status: "pending" }, data: { status: "expired" } });
+    throw new PaymentRequestError("This payment request has expired", 410);
+  }
+  if (request.status !== "pending") {
+    throw new PaymentRequestError(`This payment request is already ${request.status}`, 409);
+  }
+  return request;
+}
+
+/**
+ * Pay a request with an ordinary transfer to the requester. The caller checks
+ * 2FA; KYC, limits and balance are checked by the transfer itself.
+ */
+export async function payRequest(id: string, payerId: string) {
+  const request = await loadOpenRequest(id, payerId);
+
+  const requester = await prisma.user.findUnique({
+    where: { id: request.requesterId },
+    select: { email: true },
+  });
+  if (!requester) throw new PaymentRequestError("The requester's account no longer exists", 410);
+
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "paying" },
+  });
+  if (count === 0) throw new PaymentRequestError("This payment request is already being paid", 409);
+
+  let result;
+  try {
+    result = await executeTransfer(
+      payerId,
+      {
+        recipientEmail: requester.email,
+        amount: request.amount,
+        note: request.note ? `Payment request: ${request.note}` : "Payment request",
+      },
+      async (tx, transfer) => {
+        await tx.paymentRequest.update({
+          where: { id },
+          data: { status: "paid", paidById: payerId, transferId: transfer.id, respondedAt: new Date() },
+        });
+      }
+    );
+  } catch (err) {
+    await prisma.paymentRequest.updateMany({ where: { id, status: "paying" }, data: { status: "pending" } });
+    throw err;
+  }
+
+  const paid = await prisma.paymentRequest.findUniqueOrThrow({ where: { id } });
+
+  return { request: serializeRequest(paid), transfer: result.transfer, balance: result.balance };
+}
+
+export async function declineRequest(id: string, payerId: string) {
+  const request = await loadOpenRequest(id, payerId);
+  if (!request.payerEmail) {
+    throw new PaymentRequestError("Pay links can't be declined — just don't pay them");
+  }
+
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "declined", respondedAt: new Date() },
+  });
+  if (count === 0) throw new PaymentRequestError("This payment request is no longer pending", 409);
+
+  createInAppNotification(
+    request.requesterId,
+    "transfer",
+    "Payment Request Declined",
+    `${request.payerEmail} declined your request for $${request.amount.toFixed(2)}`
+  ).catch(() => {});
+
+  return serializeRequest({ ...request, status: "declined", respondedAt: new Date() });
+}
+
+export async function cancelRequest(id: string, requesterId: string) {
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: { id, requesterId, status: "pending" },
+    data: { status: "cancelled", respondedAt: new Date() },
+  });
+  if (count === 0) {
+    const request = await prisma.paymentRequest.findFirst({ where: { id, requesterId } });
+    throw request
+      ? new PaymentRequestError(`This payment request is already ${request.status}`, 409)
+      : new PaymentRequestError("Payment request not found", 404);
+  }
+  return serializeRequest(await prisma.paymentRequest.findUniqueOrThrow({ where: { id } }));
+}
+
+/**
+ * Mark every pending request past its expiry as expired.
+ */
+export async function expirePaymentRequests(asOf: Date = new Date()) {
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: { status: "pending", expiresAt: { lt: asOf } },
+    data: { status: "expired" },
+  });
+  return count;
+}
+
+/**
+ * Reopen requests left "paying" by a process that died mid-transfer. Paid
+ * requests are marked inside the transfer's transaction, so these have no
+ * transfer behind them.
+ */
+export async function releaseStalePayingRequests(asOf: Date = new Date()) {
+  const { count } = await prisma.paymentRequest.updateMany({
+    where: { status: "paying", updatedAt: { lt: new Date(asOf.getTime() - PAYING_TIMEOUT_MS) } },
+    data: { status: "pending" },
+  });
+  return count;
+}
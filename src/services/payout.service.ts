@@ -0,0 +1,209 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { creditUser, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { createInAppNotification } from "./notification.service.js";
+
+/**
+ * Monthly return payouts for active property investments.
+ *
+ * Each investment earns `amount × monthlyReturn%` on every monthly anniversary
+ * of its start date, for `Property.duration` months. Payouts are keyed by
+ * (investmentId, period) with a unique index, so re-running a period — from a
+ * second server instance, a manual admin run, or a retry — can never pay twice.
+ */
+
+export interface DuePayout {
+  investmentId: string;
+  userId: string;
+  propertyId: string;
+  propertyTitle: string;
+  period: number;
+  dueDate: Date;
+  principal: number;
+  rate: number;
+  amount: number;
+}
+
+export interface PayoutRunResult {
+  asOf: Date;
+  dryRun: boolean;
+  due: DuePayout[];
+  paid: DuePayout[];
+  skipped: Array<DuePayout & { reason: string }>;
+  failed: Array<DuePayout & { reason: string }>;
+  totalDue: number;
+  totalPaid: number;
+}
+
+/**
+ * Same calendar day `months` later; clamps to the month's last day (Jan 31 → Feb 28).
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+export function monthlyPayoutAmount(principal: number, monthlyReturn: number): number {
+  return roundCents(principal * (monthlyReturn / 100));
+}
+
+export async function findDuePayouts(
+  asOf: Date = new Date(),
+  filter: { userId?: string; investmentId?: string } = {}
+): Promise<DuePayout[]> {
+  const investments = await prisma.userInvestment.findMany({
+    where: {
+      status: "active",
+      propertyId: { not: null },
+      monthlyReturn: { gt: 0 },
+      ...(filter.userId ? { userId: filter.userId } : {}),
+      ...(filter.investmentId ? { id: filter.investmentId } : {}),
+    },
+    include: { property: { select: { title: true, duration: true } } },
+  });
+
+  const due: DuePayout[] = [];
+  for (const inv of investments) {
+    if (!inv.property || !inv.propertyId) continue;
+
+    const amount = monthlyPayoutAmount(inv.amount, inv.monthlyReturn);
+    if (amount <= 0) continue;
+
+    for (let period = inv.payoutsMade + 1; period <= inv.property.duration; period++) {
+      const dueDate = addMonths(inv.createdAt, period);
+      if (dueDate > asOf) break;
+
+      due.push({
+        investmentId: inv.id,
+        userId: inv.userId,
+        propertyId: inv.propertyId,
+        propertyTitle: inv.property.title,
+        period,
+        dueDate,
+        principal: inv.amount,
+        rate: inv.monthlyReturn,
+        amount,
+      });
+    }
+  }
+
+  return due.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+async function payOne(payout: DuePayout): Promise<void> {
+  const description = `Monthly return ${payout.period} for ${payout.propertyTitle}`;
+
+  await prisma.$transaction(async (tx) => {
+    const record = await tx.investmentPayout.create({
+      data: {
+        investmentId: payout.investmentId,
+        userId: payout.userId,
+        propertyId: payout.propertyId,
+        period: payout.period,
+        dueDate: payout.dueDate,
+        principal: payout.principal,
+        rate: payout.rate,
+        amount: payout.amount,
+      },
+    });
+
+    // Conditional on the previous period — a concurrent run that got here first makes this fail
+    await tx.userInvestment.update({
+      where: { id: payout.investmentId, payoutsMade: payout.period - 1, status: "active" },
+      data: { payoutsMade: payout.period, lastPayoutAt: new Date() },
+    });
+
+    await creditUser(tx, {
+      userId: payout.userId,
+      bucket: "profits",
+      amount: payout.amount,
+      from: PLATFORM_ACCOUNTS.profitExpense,
+      type: "profit",
+      reference: record.id,
+      description,
+    });
+
+    await tx.transaction.create({
+      data: {
+        userId: payout.userId,
+        type: "profit",
+        amount: payout.amount,
+        status: "completed",
+        description,
+        reference: payout.investmentId,
+      },
+    });
+  }, { timeout: 15000 });
+}
+
+function isAlreadyPaid(err: unknown): boolean {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    (err.code === "P2002" || err.code === "P2025")
+  );
+}
+
+/**
+ * Pay every payout due as of `asOf`. With `dryRun` nothing is written and the
+ * result only lists what would be paid.
+ */
+export async function runPayouts(
+  options: { asOf?: Date; dryRun?: boolean; userId?: string; investmentId?: string } = {}
+): Promise<PayoutRunResult> {
+  const asOf = options.asOf ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const due = await findDuePayouts(asOf, { userId: options.userId, investmentId: options.investmentId });
+
+  const result: PayoutRunResult = {
+    asOf,
+    dryRun,
+    due,
+    paid: [],
+    skipped: [],
+    failed: [],
+    totalDue: roundCents(due.reduce((sum, p) => sum + p.amount, 0)),
+    totalPaid: 0,
+  };
+
+  if (dryRun) return result;
+
+  // Sequential so a failed period stops later periods of the same investment from jumping ahead
+  const blocked = new Set<string>();
+  for (const payout of due) {
+    if (blocked.has(payout.investmentId)) {
+      result.skipped.push({ ...payout, reason: "Earlier period was not paid" });
+      continue;
+    }
+
+    try {
+      await payOne(payout);
+      result.paid.push(payout);
+    } catch (err) {
+      blocked.add(payout.investmentId);
+      if (isAlreadyPaid(err)) {
+        result.skipped.push({ ...payout, reason: "Already paid" });
+      } else {
+        console.error(`Payout failed for investment ${payout.investmentId} period ${payout.period}:`, err);
+        result.failed.push({ ...payout, reason: err instanceof Error ? err.message : "Unknown error" });
+      }
+    }
+  }
+
+  result.totalPaid = roundCents(result.paid.reduce((sum, p) => sum + p.amount, 0));
+
+  for (const payout of result.paid) {
+    await createInAppNotification(
+      payout.userId,
+      "investment",
+      "Monthly Return Credited",
+      `$${payout.amount.toLocaleString()} monthly return for "${payout.propertyTitle}" (month ${payout.period}) has been credited to your profits.`
+    );
+  }
+
+  return result;
+}
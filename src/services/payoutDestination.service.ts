@@ -0,0 +1,152 @@
+import crypto from "crypto";
+import { PayoutDestination } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { sendPayoutDestinationConfirmEmail } from "./email.service.js";
+import { sendPayoutDestinationAlert } from "./notification.service.js";
+
+/**
+ * Whitelisted withdrawal destinations.
+ *
+ *   pending ──(emailed link)──→ confirmed ──→ removed
+ *
+ * A confirmed destination only becomes usable at `availableAt`, which is
+ * PAYOUT_DESTINATION_COOLING_HOURS after confirmation — long enough for the
+ * real owner to notice the alert and remove a destination they didn't add.
+ */
+
+export class PayoutDestinationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PayoutDestinationError";
+  }
+}
+
+const CONFIRM_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Identifies the account funds would land in, so the same wallet or bank
+ * account can't be saved twice under different labels.
+ */
+function fingerprint(type: string, details: Record<string, string>): string {
+  const key = type === "crypto"
+    ? `${details.network}:${details.walletAddress}`.toLowerCase()
+    : `${details.bankName}:${details.accountNumber}:${details.routingNumber ?? ""}`.toLowerCase().replace(/\s+/g, "");
+  return crypto.createHash("sha256").update(`${type}|${key}`).digest("hex");
+}
+
+export function serializeDestination(d: PayoutDestination, now: Date = new Date()) {
+  const { confirmTokenHash: _hash, fingerprint: _fp, details, ...rest } = d;
+  return {
+    ...rest,
+    details: JSON.parse(details || "{}"),
+    usable: d.status === "confirmed" && !!d.availableAt && d.availableAt <= now,
+  };
+}
+
+export async function addDestination(
+  userId: string,
+  input: { type: "bank" | "crypto"; label: string; details: Record<string, string> }
+) {
+  const print = fingerprint(input.type, input.details);
+
+  const duplicate = await prisma.payoutDestination.findFirst({
+    where: { userId, fingerprint: print, status: { not: "removed" } },
+  });
+  if (duplicate) {
+    throw new PayoutDestinationError(`This destination is already saved as "${duplicate.label}"`, 409);
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true, firstName: true },
+  });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const destination = await prisma.payoutDestination.create({
+    data: {
+      userId,
+      type: input.type,
+      label: input.label,
+      details: JSON.stringify(input.details),
+      fingerprint: print,
+      confirmTokenHash: hashToken(token),
+      confirmExpiresAt: new Date(Date.now() + CONFIRM_TTL_MS),
+    },
+  });
+
+  const confirmUrl = `${env.FRONTEND_URL}/confirm-payout-destination?token=${token}`;
+  sendPayoutDestinationConfirmEmail(user.email, user.firstName, input.label, confirmUrl, env.PAYOUT_DESTINATION_COOLING_HOURS)
+    .catch((err) => console.error("Payout destination confirmation email error:", err));
+  sendPayoutDestinationAlert(userId, "added", input.label).catch(() => {});
+
+  return destination;
+}
+
+export async function confirmDestination(token: string) {
+  const now = new Date();
+  const destination = await prisma.payoutDestination.findFirst({
+    where: { confirmTokenHash: hashToken(token), status: "pending" },
+  });
+
+  if (!destination || !destination.confirmExpiresAt || destination.confirmExpiresAt < now) {
+    throw new PayoutDestinationError("This confirmation link is invalid or has expired");
+  }
+
+  const availableAt = new Date(now.getTime() + env.PAYOUT_DESTINATION_COOLING_HOURS * 60 * 60 * 1000);
+  const { count } = await prisma.payoutDestination.updateMany({
+    where: { id: destination.id, status: "pending" },
+    data: { status: "confirmed", confirmedAt: now, availableAt, confirmTokenHash: null, confirmExpiresAt: null },
+  });
+  if (count === 0) throw new PayoutDestinationError("This confirmation link is invalid or has expired");
+
+  sendPayoutDestinationAlert(destination.userId, "confirmed", destination.label, availableAt).catch(() => {});
+
+  return { ...destination, status: "confirmed", confirmedAt: now, availableAt };
+}
+
+export async function removeDestination(userId: string, id: string) {
+  const destination = await prisma.payoutDestination.findFirst({
+    where: { id, userId, status: { not: "removed" } },
+  });
+  if (!destination) throw new PayoutDestinationError("Withdrawal destination not found", 404);
+
+  await prisma.payoutDestination.update({
+    where: { id },
+    data: { status: "removed", removedAt: new Date(), confirmTokenHash: null },
+  });
+
+  sendPayoutDestinationAlert(userId, "removed", destination.label).catch(() => {});
+}
+
+/**
+ * The destination a withdrawal may be paid to, or a PayoutDestinationError
+ * explaining why not.
+ */
+export async function requireUsableDestination(userId: string, destinationId: string, method: string) {
+  const destination = await prisma.payoutDestination.findFirst({
+    where: { id: destinationId, userId, status: { not: "removed" } },
+  });
+
+  if (!destination) {
+    throw new PayoutDestinationError("Withdrawal destination not found", 404);
+  }
+  if (destination.status !== "confirmed") {
+    throw new PayoutDestinationError("Please confirm this destination using the link we emailed you", 403);
+  }
+  if (!destination.availableAt || destination.availableAt > new Date()) {
+    throw new PayoutDestinationError(
+      `This destination was added recently and can receive withdrawals from ${destination.availableAt?.toUTCString()}`,
+      403
+    );
+  }
+  if (destination.type !== method) {
+    throw new PayoutDestinationError(`This destination can only receive ${destination.type} withdrawals`);
+  }
+
+  return destination;
+}
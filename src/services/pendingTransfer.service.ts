@@ -0,0 +1,201 @@
+import { Transfer } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { sendTransferInvitationEmail } from "./email.service.js";
+import { createInAppNotification, sendTransferReceivedNotification } from "./notification.service.js";
+import { getUserBalance, postLedgerEntry, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { StaleWriteError, withConflictRetry } from "../utils/retry.js";
+import { queueAmlEvent } from "./aml.service.js";
+
+/**
+ * Transfers to an email with no account yet.
+ *
+ * The money sits in `platform:pending_transfers` while the recipient is
+ * invited to sign up. Verifying an account with that email claims every
+ * transfer waiting for it; anything unclaimed after
+ * PENDING_TRANSFER_EXPIRY_DAYS goes back to the sender (the fee is not
+ * refunded). The invite link carries the sender's referral code, and signing
+ * up without one still links the new user to the first sender who invited them.
+ */
+
+export function pendingTransferExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + env.PENDING_TRANSFER_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Email the recipient an invitation to sign up and claim a held transfer.
+ */
+export async function inviteTransferRecipient(transfer: Transfer) {
+  const sender = await prisma.user.findUnique({
+    where: { id: transfer.senderId },
+    select: { firstName: true, lastName: true, referralCode: true },
+  });
+  if (!sender) return;
+
+  const params = new URLSearchParams({ ref: sender.referralCode, email: transfer.recipientEmail });
+  await sendTransferInvitationEmail(
+    transfer.recipientEmail,
+    `${sender.firstName} ${sender.lastName}`.trim(),
+    transfer.amount,
+    transfer.note,
+    `${env.FRONTEND_URL}/signup?${params}`,
+    transfer.expiresAt ?? pendingTransferExpiry(transfer.createdAt)
+  );
+}
+
+/**
+ * The earliest sender still waiting on this email to sign up — used as the
+ * referrer when the new user didn't enter a referral code.
+ */
+export async function findInvitingSender(email: string): Promise<string | null> {
+  const transfer = await prisma.transfer.findFirst({
+    where: { recipientEmail: email.toLowerCase(), recipientId: null, status: "pending" },
+    orderBy: { createdAt: "asc" },
+    select: { senderId: true },
+  });
+  return transfer?.senderId ?? null;
+}
+
+/**
+ * Move every held transfer for a newly verified user's email into their
+ * balance. Safe to call more than once.
+ */
+export async function claimPendingTransfers(userId: string, email: string) {
+  const pending = await prisma.transfer.findMany({
+    where: { recipientEmail: email.toLowerCase(), recipientId: null, status: "pending" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let claimed = 0;
+  for (const transfer of pending) {
+    const done = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+      const current = await tx.transfer.findUniqueOrThrow({ where: { id: transfer.id } });
+      if (current.recipientId || current.status !== "pending") return null;
+
+      // A disputed transfer may already have been partly returned to the sender;
+      // a reversal landing before the claim changes reversedAmount and retries it
+      const held = roundCents(current.amount - current.reversedAmount);
+      const claimedAt = new Date();
+      const { count } = await tx.transfer.updateMany({
+        where: { id: transfer.id, recipientId: null, status: "pending", reversedAmount: current.reversedAmount },
+        data: { recipientId: userId, status: "completed", completedAt: claimedAt },
+      });
+      if (count === 0) throw new StaleWriteError("Transfer");
+
+      const sender = await tx.user.findUnique({ where: { id: transfer.senderId }, select: { email: true } });
+      const description = `Transfer from ${sender?.email ?? "another user"}`;
+
+      await postLedgerEntry(tx, {
+        type: "transfer",
+        reference: transfer.id,
+        description,
+        postings: [
+          { account: { platform: PLATFORM_ACCOUNTS.pendingTransfers }, amount: -held },
+          { account: { userId, bucket: "cash" }, amount: held },
+        ],
+      });
+
+      await tx.transaction.create({
+        data: {
+          userId,
+          type: "transfer_received",
+          amount: held,
+          status: "completed",
+          description,
+          reference: transfer.id,
+        },
+      });
+
+      await queueAmlEvent(tx, {
+        source: "transfer",
+        id: transfer.id,
+        kind: "transfer_in",
+        userId,
+        amount: held,
+        at: claimedAt,
+        counterpartyId: transfer.senderId,
+      });
+      return { held, senderEmail: sender?.email ?? "another user" };
+    }, { timeout: 15000 }));
+
+    if (!done) continue;
+    claimed++;
+
+    const { held, senderEmail } = done;
+    const balance = await getUserBalance(userId);
+    sendTransferReceivedNotification(userId, email, senderEmail, held, balance, transfer.id).catch(() => {});
+    createInAppNotification(
+      transfer.senderId,
+      "transfer",
+      "Transfer Claimed",
+      `${transfer.recipientEmail} joined and received your $${held.toFixed(2)} transfer.`
+    ).catch(() => {});
+  }
+
+  if (claimed > 0) console.log(`📨 ${claimed} pending transfer(s) claimed by ${email}`);
+  return claimed;
+}
+
+/**
+ * Return unclaimed transfers past their expiry to their senders.
+ */
+export async function refundExpiredPendingTransfers(asOf: Date = new Date()) {
+  const expired = await prisma.transfer.findMany({
+    where: { recipientId: null, status: "pending", expiresAt: { lt: asOf } },
+  });
+
+  const result = { refunded: 0, failed: 0 };
+  for (const transfer of expired) {
+    try {
+      const held = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+        const current = await tx.transfer.findUniqueOrThrow({ where: { id: transfer.id } });
+        if (current.recipientId || current.status !== "pending") return null;
+
+        // Only what a partial reversal hasn't already returned
+        const held = roundCents(current.amount - current.reversedAmount);
+        const { count } = await tx.transfer.updateMany({
+          where: { id: transfer.id, recipientId: null, status: "pending", reversedAmount: current.reversedAmount },
+          data: { status: "refunded", completedAt: new Date() },
+        });
+        if (count === 0) throw new StaleWriteError("Transfer");
+
+        const description = `Refund of unclaimed transfer to ${transfer.recipientEmail}`;
+        await postLedgerEntry(tx, {
+          type: "transfer_refund",
+          reference: transfer.id,
+          description,
+          postings: [
+            { account: { platform: PLATFORM_ACCOUNTS.pendingTransfers }, amount: -held },
+            { account: { userId: transfer.senderId, bucket: "cash" }, amount: held },
+          ],
+        });
+
+        await tx.transaction.create({
+          data: {
+            userId: transfer.senderId,
+            type: "transfer_refund",
+            amount: held,
+            status: "completed",
+            description,
+            reference: transfer.id,
+          },
+        });
+        return held;
+      }, { timeout: 15000 }));
+
+      if (held === null) continue;
+      result.refunded++;
+
+      createInAppNotification(
+        transfer.senderId,
+        "transfer",
+        "Transfer Refunded",
+        `${transfer.recipientEmail} didn't claim your $${held.toFixed(2)} transfer, so it has been returned to your balance.`
+      ).catch(() => {});
+    } catch (err) {
+      result.failed++;
+      console.error(`Pending transfer refund failed for ${transfer.id}:`, err);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,285 @@
+import { prisma } from "../config/database.js";
+import { env } from "../config/env.js";
+import { creditUser, debitUser, postLedgerEntry, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { createInAppNotification } from "./notification.service.js";
+import { assertCanInvest } from "./kyc.service.js";
+
+/**
+ * Buy-now purchase orders for for-sale properties.
+ *
+ *   requested → deposit_held → accepted → completed
+ *        ╰──────────┴─────────────┴──→ cancelled
+ *
+ * Placing an order holds BUY_NOW_EARNEST_PERCENT of the listed price from the
+ * buyer's balance in `platform:escrow` and puts the property "under-contract",
+ * which stops bids and investments. Completing settles the earnest into
+ * `platform:property_sales` (the rest of the price is settled off-platform);
+ * cancelling refunds it, or keeps it as platform revenue when forfeited.
+ */
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+const OPEN_STATUSES = ["requested", "deposit_held", "accepted"];
+
+export function earnestAmount(price: number, percent: number = env.BUY_NOW_EARNEST_PERCENT): number {
+  return roundCents(price * (percent / 100));
+}
+
+/**
+ * An auction is live once it has bids (until one is accepted) or while it
+ * has an end time still ahead; buy-now would cut the bidders out.
+ */
+export function auctionLive(
+  property: { bidCount: number; auctionStatus: string; auctionEndsAt: Date | null },
+  now: Date
+): boolean {
+  if (property.auctionStatus === "accepted") return false;
+  return property.bidCount > 0 || (property.auctionStatus === "open" && !!property.auctionEndsAt && property.auctionEndsAt > now);
+}
+
+export async function createPurchaseOrder(userId: string, propertyId: string, note: string = "") {
+  return prisma.$transaction(async (tx) => {
+    const property = await tx.property.findUnique({
+      where: { id: propertyId, isActive: true },
+      select: {
+        id: true,
+        title: true,
+        location: true,
+        price: true,
+        category: true,
+        investmentStatus: true,
+        bidCount: true,
+        auctionStatus: true,
+        auctionEndsAt: true,
+      },
+    });
+
+    if (!property) throw new PurchaseOrderError("Property not found.", 404);
+    if (property.category !== "for_sale") throw new PurchaseOrderError("Direct purchase is only available for for-sale properties.");
+    if (auctionLive(property, new Date())) {
+      throw new PurchaseOrderError("This property is being auctioned — place a bid instead.", 409);
+    }
+    await assertCanInvest(userId, property.price);
+
+    // Claim the property first — only one buyer can take it under contract, and
+    // not once bidding has started (placeBid's claim needs it still available)
+    const now = new Date();
+    const claimed = await tx.property.updateMany({
+      where: {
+        id: propertyId,
+        investmentStatus: "available",
+        bidCount: 0,
+        OR: [{ auctionEndsAt: null }, { auctionEndsAt: { isSet: false } }, { auctionEndsAt: { lte: now } }],
+      },
+      data: { investmentStatus: "under-contract" },
+    });
+    if (claimed.count === 0) throw new PurchaseOrderError("This property is not currently available for purchase.");
+
+    const percent = env.BUY_NOW_EARNEST_PERCENT;
+    const earnest = earnestAmount(property.price, percent);
+
+    const order = await tx.purchaseOrder.create({
+      data: {
+        propertyId,
+        userId,
+        price: property.price,
+        earnestPercent: percent,
+        earnestAmount: earnest,
+        note,
+      },
+    });
+
+    if (earnest <= 0) return { order, property };
+
+    // Throws InsufficientBalanceError, rolling back the claim and the order
+    await debitUser(tx, {
+      userId,
+      amount: earnest,
+      to: PLATFORM_ACCOUNTS.escrow,
+      type: "escrow_hold",
+      reference: order.id,
+      description: `Earnest money for ${property.title}`,
+    });
+
+    await tx.transaction.create({
+      data: {
+        userId,
+        type: "escrow_hold",
+        amount: -earnest,
+        status: "completed",
+        description: `Earnest money held for ${property.title}`,
+        reference: order.id,
+      },
+    });
+
+    const held = await tx.purchaseOrder.update({
+      where: { id: order.id },
+      data: { status: "deposit_held", heldAt: new Date() },
+    });
+
+    return { order: held, property };
+  }, { timeout: 15000 });
+}
+
+/**
+ * Load an order that must currently be in one of `allowed`.
+ */
+async function loadOrder(orderId: string, allowed: string[]) {
+  const order = await prisma.purchaseOrder.findUnique({
+    where: { id: orderId },
+    include: { property: { select: { title: true } } },
+  });
+  if (!order) throw new PurchaseOrderError("Purchase order not found", 404);
+  if (!allowed.includes(order.status)) throw new PurchaseOrderError(`Purchase order is ${order.status}`);
+  return order;
+}
+
+export async function acceptPurchaseOrder(orderId: string, adminNote: string = "") {
+  const order = await loadOrder(orderId, ["requested", "deposit_held"]);
+
+  const { count } = await prisma.purchaseOrder.updateMany({
+    where: { id: orderId, status: order.status },
+    data: { status: "accepted", acceptedAt: new Date(), adminNote },
+  });
+  if (count === 0) throw new PurchaseOrderError("Purchase order changed — please refresh", 409);
+
+  await createInAppNotification(
+    order.userId,
+    "purchase",
+    "Purchase Accepted",
+    `Your purchase request for "${order.property.title}" has been accepted. A property manager will contact you to complete the sale.`
+  );
+
+  return { ...order, status: "accepted" };
+}
+
+export async function completePurchaseOrder(orderId: string, adminNote: string = "") {
+  const order = await loadOrder(orderId, ["accepted"]);
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.purchaseOrder.updateMany({
+      where: { id: orderId, status: "accepted" },
+      data: { status: "completed", completedAt: new Date(), adminNote },
+    });
+    if (count === 0) throw new PurchaseOrderError("Purchase order changed — please refresh", 409);
+
+    if (order.earnestAmount > 0) {
+      await postLedgerEntry(tx, {
+        type: "escrow_settle",
+        reference: order.id,
+        description: `Earnest money applied to purchase of ${order.property.title}`,
+        postings: [
+          { account: { platform: PLATFORM_ACCOUNTS.escrow }, amount: -order.earnestAmount },
+          { account: { platform: PLATFORM_ACCOUNTS.propertySales }, amount: order.earnestAmount },
+        ],
+      });
+    }
+
+    await tx.property.update({
+      where: { id: order.propertyId },
+      data: { investmentStatus: "closed" },
+    });
+  }, { timeout: 15000 });
+
+  await createInAppNotification(
+    order.userId,
+    "purchase",
+    "Purchase Completed",
+    `Your purchase of "${order.property.title}" is complete. Your earnest money of $${order.earnestAmount.toLocaleString()} has been applied to the price.`
+  );
+
+  return { ...order, status: "completed" };
+}
+
+/**
+ * Cancel an open order and release the hold — refunded to the buyer, or kept
+ * by the platform when `forfeit` is set (admin only). Buyers can only cancel
+ * before an admin accepts.
+ */
+export async function releasePurchaseOrder(
+  orderId: string,
+  options: { by: "user" | "admin"; userId?: string; forfeit?: boolean; reason?: string }
+) {
+  const allowed = options.by === "user" ? ["requested", "deposit_held"] : OPEN_STATUSES;
+  const order = await loadOrder(orderId, allowed);
+
+  if (options.by === "user" && order.userId !== options.userId) {
+    throw new PurchaseOrderError("Purchase order not found", 404);
+  }
+
+  const forfeit = options.by === "admin" && !!options.forfeit;
+  const held = order.status !== "requested" && order.earnestAmount > 0;
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.purchaseOrder.updateMany({
+      where: { id: orderId, status: order.status },
+      data: {
+        status: "cancelled",
+        cancelledAt: new Date(),
+        cancelledBy: options.by,
+        forfeited: forfeit && held,
+        ...(options.reason ? { adminNote: options.reason } : {}),
+      },
+    });
+    if (count === 0) throw new PurchaseOrderError("Purchase order changed — please refresh", 409);
+
+    if (held && forfeit) {
+      await postLedgerEntry(tx, {
+        type: "escrow_forfeit",
+        reference: order.id,
+        description: `Earnest money forfeited for ${order.property.title}`,
+        postings: [
+          { account: { platform: PLATFORM_ACCOUNTS.escrow }, amount: -order.earnestAmount },
+          { account: { platform: PLATFORM_ACCOUNTS.feeRevenue }, amount: order.earnestAmount },
+        ],
+      });
+    } else if (held) {
+      await creditUser(tx, {
+        userId: order.userId,
+        bucket: "cash",
+        amount: order.earnestAmount,
+        from: PLATFORM_ACCOUNTS.escrow,
+        type: "escrow_release",
+        reference: order.id,
+        description: `Earnest money released for ${order.property.title}`,
+      });
+
+      await tx.transaction.create({
+        data: {
+          userId: order.userId,
+          type: "escrow_release",
+          amount: order.earnestAmount,
+          status: "completed",
+          description: `Earnest money released for ${order.property.title}`,
+          reference: order.id,
+        },
+      });
+    }
+
+    await tx.property.updateMany({
+      where: { id: order.propertyId, investmentStatus: "under-contract" },
+      data: { investmentStatus: "available" },
+    });
+  }, { timeout: 15000 });
+
+  if (options.by === "admin") {
+    const outcome = !held
+      ? ""
+      : forfeit
+        ? ` Your earnest money of $${order.earnestAmount.toLocaleString()} has been forfeited.`
+        : ` Your earnest money of $${order.earnestAmount.toLocaleString()} has been returned to your balance.`;
+    await createInAppNotification(
+      order.userId,
+      "purchase",
+      "Purchase Cancelled",
+      `Your purchase request for "${order.property.title}" has been cancelled.${outcome}${options.reason ? ` Reason: ${options.reason}` : ""}`
+    );
+  }
+
+  return { ...order, status: "cancelled", forfeited: forfeit && held };
+}
@@ -0,0 +1,437 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { completeFundOperation } from "./fundOperation.service.js";
+import { splitCsvRow } from "../utils/csv.js";
+
+/**
+ * Bank deposit reconciliation.
+ *
+ * Every user gets a stable deposit code (DepositReference) to put in their
+ * transfer memo. Admins import bank statements (CSV, OFX or MT940); each credit
+ * line is matched to a pending bank deposit — by the deposit's own reference if
+ * the memo carries it, otherwise by the user's code and an exact amount — and
+ * approved through completeFundOperation. Only lines in the platform currency
+ * (or with none stated) are matched automatically. Lines that can't be matched
+ * wait in the reconciliation queue for an admin to match or ignore by hand.
+ *
+ * Lines are fingerprinted, so importing overlapping statements never applies
+ * the same credit twice.
+ */
+
+export class ReconciliationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+export const STATEMENT_FORMATS = ["csv", "ofx", "mt940"] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export interface StatementLine {
+  bookedAt: Date;
+  amount: number; // positive = money in
+  currency: string;
+  description: string;
+  bankReference: string;
+}
+
+// ─── Deposit codes ───────────────────────────────────────────────────────────
+
+const CODE_PREFIX = "ALV";
+// No 0/O or 1/I — the code gets typed into banking apps by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+// Banks often split or hyphenate memos, so allow a separator after the prefix
+const CODE_PATTERN = new RegExp(`${CODE_PREFIX}[\\s-]?([${CODE_ALPHABET}]{${CODE_LENGTH}})(?![A-Z0-9])`, "i");
+const OPERATION_REFERENCE_PATTERN = /DEP-\d+-[0-9A-F]{8}/i;
+
+// Amounts on the statement and the deposit request must agree to the cent
+const AMOUNT_TOLERANCE = 0.005;
+// Deposits are requested in dollars; a credit in another currency is for an admin to value
+const PLATFORM_CURRENCY = "USD";
+
+function generateCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  let code = CODE_PREFIX;
+  for (const b of bytes) code += CODE_ALPHABET[b % CODE_ALPHABET.length];
+  return code;
+}
+
+/**
+ * The user's deposit code, issued on first use.
+ */
+export async function getDepositReference(userId: string) {
+  const existing = await prisma.depositReference.findUnique({ where: { userId } });
+  if (existing) return existing;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      return await prisma.depositReference.create({ data: { userId, code: generateCode() } });
+    } catch (err) {
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+      // Either the code collided or a parallel request issued one for this user first
+      const issued = await prisma.depositReference.findUnique({ where: { userId } });
+      if (issued) return issued;
+    }
+  }
+  throw new Error("Could not issue a deposit reference code");
+}
+
+// ─── Statement parsing ───────────────────────────────────────────────────────
+
+export function detectFormat(fileName: string, content: string): StatementFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv") return "csv";
+  if (ext === "ofx" || ext === "qfx") return "ofx";
+  if (ext === "sta" || ext === "mt940" || ext === "940") return "mt940";
+  if (/<OFX>/i.test(content)) return "ofx";
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return "mt940";
+  return null;
+}
+
+function parseAmount(raw: string): number {
+  let text = raw.trim();
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  text = text.replace(/[()\s$€£+-]/g, "");
+  // "1.234,56" → "1234.56"; "1,234.56" → "1234.56"
+  if (/,\d{1,2}$/.test(text)) text = text.replace(/\./g, "").replace(",", ".");
+  else text = text.replace(/,/g, "");
+  const value = parseFloat(text);
+  if (isNaN(value)) throw new ReconciliationError(`Invalid amount "${raw}"`);
+  return negative ? -value : value;
+}
+
+function parseDate(raw: string): Date {
+  const text = raw.trim();
+  let date: Date;
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/); // OFX 20240131[120000...]
+  const dayFirst = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/); // 31.01.2024 / 31/01/2024
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    date = new Date(text.slice(0, 10) + "T00:00:00Z");
+  } else if (compact) {
+    date = new Date(Date.UTC(+compact[1], +compact[2] - 1, +compact[3]));
+  } else if (dayFirst && +dayFirst[1] > 12) {
+    date = new Date(Date.UTC(+dayFirst[3], +dayFirst[2] - 1, +dayFirst[1]));
+  } else {
+    date = new Date(text);
+  }
+  if (isNaN(date.getTime())) throw new ReconciliationError(`Invalid date "${raw}"`);
+  return date;
+}
+
+const CSV_COLUMNS = {
+  date: ["date", "booking date", "posting date", "posted date", "transaction date", "value date"],
+  amount: ["amount", "credit", "credit amount", "paid in", "money in", "deposit"],
+  debit: ["debit", "debit amount", "paid out", "money out", "withdrawal"],
+  description: ["description", "memo", "narrative", "details", "reference", "payment reference", "payee", "name"],
+  bankReference: ["id", "transaction id", "fitid", "bank reference", "transaction reference"],
+  currency: ["currency"],
+};
+
+function parseCsv(content: string): StatementLine[] {
+  const rows = content.split(/\r?\n/).filter((r) => r.trim() !== "");
+  if (rows.length < 2) return [];
+
+  const header = splitCsvRow(rows[0]).map((h) => h.toLowerCase());
+  const find = (names: string[]) => header.findIndex((h) => names.includes(h));
+  const dateCol = find(CSV_COLUMNS.date);
+  const amountCol = find(CSV_COLUMNS.amount);
+  const debitCol = find(CSV_COLUMNS.debit);
+  const refCol = find(CSV_COLUMNS.bankReference);
+  const currencyCol = find(CSV_COLUMNS.currency);
+  const descriptionCols = header
+    .map((h, i) => (CSV_COLUMNS.description.includes(h) ? i : -1))
+    .filter((i) => i >= 0);
+
+  if (dateCol < 0 || amountCol < 0) {
+    throw new ReconciliationError("CSV statement needs a date column and an amount (or credit) column");
+  }
+
+  return rows.slice(1).map((row, i) => {
+    const cells = splitCsvRow(row);
+    try {
+      const credit = cells[amountCol] ? parseAmount(cells[amountCol]) : 0;
+      const debit = debitCol >= 0 && cells[debitCol] ? Math.abs(parseAmount(cells[debitCol])) : 0;
+      return {
+        bookedAt: parseDate(cells[dateCol] ?? ""),
+        amount: credit - debit,
+        currency: currencyCol >= 0 ? cells[currencyCol] ?? "" : "",
+        description: descriptionCols.map((c) => cells[c]).filter(Boolean).join(" "),
+        bankReference: refCol >= 0 ? cells[refCol] ?? "" : "",
+      };
+    } catch (err) {
+      if (err instanceof ReconciliationError) throw new ReconciliationError(`Row ${i + 2}: ${err.message}`);
+      throw err;
+    }
+  });
+}
+
+function parseOfx(content: string): StatementLine[] {
+  // OFX 1.x is SGML and doesn't close leaf tags, so read each value up to the next tag or line end
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"))?.[1].trim() ?? "";
+  const currency = tag(content, "CURDEF");
+
+  return content
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((block) => block.split(/<\/STMTTRN>/i)[0])
+    .map((block) => ({
+      bookedAt: parseDate(tag(block, "DTPOSTED")),
+      amount: parseAmount(tag(block, "TRNAMT")),
+      currency,
+      description: [tag(block, "NAME"), tag(block, "MEMO")].filter(Boolean).join(" "),
+      bankReference: tag(block, "FITID"),
+    }));
+}
+
+function parseMt940(content: string): StatementLine[] {
+  // Join continuation lines onto the field they belong to
+  const fields: { tag: string; value: string }[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const field = raw.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (field) fields.push({ tag: field[1], value: field[2] });
+    else if (fields.length > 0 && raw.trim() !== "" && raw.trim() !== "-") fields[fields.length - 1].value += "\n" + raw;
+  }
+
+  const lines: StatementLine[] = [];
+  let currency = "";
+  for (const { tag, value } of fields) {
+    if (tag === "60F" || tag === "60M") {
+      currency = value.slice(7, 10);
+    } else if (tag === "61") {
+      // YYMMDD [MMDD] mark amount type ref [//bankref]
+      const m = value.match(/^(\d{2})(\d{2})(\d{2})(?:\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d*)[A-Z][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/);
+      if (!m) throw new ReconciliationError(`Unreadable MT940 statement line ":61:${value.split("\n")[0]}"`);
+      const [, yy, mm, dd, mark, amount, ownerRef, bankRef] = m;
+      // C and RD (reversal of a debit) put money in
+      const sign = mark === "C" || mark === "RD" ? 1 : -1;
+      lines.push({
+        bookedAt: new Date(Date.UTC(2000 + +yy, +mm - 1, +dd)),
+        amount: sign * parseAmount(amount),
+        currency,
+        description: ownerRef.trim() === "NONREF" ? "" : ownerRef.trim(),
+        bankReference: (bankRef ?? "").trim(),
+      });
+    } else if (tag === "86" && lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.description = [last.description, value.replace(/\n/g, "")].filter(Boolean).join(" ");
+    }
+  }
+  return lines;
+}
+
+export function parseStatement(content: string, format: StatementFormat): StatementLine[] {
+  switch (format) {
+    case "csv": return parseCsv(content);
+    case "ofx": return parseOfx(content);
+    case "mt940": return parseMt940(content);
+  }
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/**
+ * A key for each line that is the same in every statement the line appears
+ * in. The bank's own transaction id identifies a line when there is one.
+ * Without it, identical lines on one day (two $200 ATM cash deposits) are told
+ * apart by their order among those identical lines — a count that overlapping
+ * statements covering that day agree on, unlike the row number in the file.
+ */
+function lineFingerprints(lines: StatementLine[]): string[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const base = [line.currency, line.bookedAt.toISOString().slice(0, 10), line.amount.toFixed(2)];
+    let key: string;
+    if (line.bankReference) {
+      key = [...base, "ref", line.bankReference].join("|").toLowerCase();
+    } else {
+      const same = [...base, "desc", line.description].join("|").toLowerCase();
+      const occurrence = (seen.get(same) ?? 0) + 1;
+      seen.set(same, occurrence);
+      key = `${same}|#${occurrence}`;
+    }
+    return crypto.createHash("sha256").update(key).digest("hex");
+  });
+}
+
+type MatchResult = { fundOperationId: string; note: string } | { fundOperationId: null; note: string };
+
+/**
+ * The pending bank deposit a statement line pays for, or why there isn't one.
+ */
+async function findDepositForLine(line: StatementLine, depositCode: string | null): Promise<MatchResult> {
+  const { description, amount } = line;
+  const currency = line.currency.trim().toUpperCase();
+  if (currency && currency !== PLATFORM_CURRENCY) {
+    return { fundOperationId: null, note: `Credit is in ${currency}, not ${PLATFORM_CURRENCY} — match it by hand` };
+  }
+
+  const amountMatches = (opAmount: number) => Math.abs(opAmount - amount) < AMOUNT_TOLERANCE;
+
+  const opReference = description.match(OPERATION_REFERENCE_PATTERN)?.[0].toUpperCase();
+  if (opReference) {
+    const op = await prisma.fundOperation.findFirst({
+      where: { reference: opReference, type: "deposit", method: "bank", status: "pending" },
+    });
+    if (op && amountMatches(op.amount)) {
+      return { fundOperationId: op.id, note: `Matched by deposit reference ${opReference}` };
+    }
+    if (op) {
+      return { fundOperationId: null, note: `Deposit ${opReference} is for $${op.amount.toLocaleString()}, not $${amount.toLocaleString()}` };
+    }
+    // Fall through to the user's code — the reference may be stale or mistyped
+  }
+
+  if (!depositCode) {
+    return { fundOperationId: null, note: "No deposit code or reference in the description" };
+  }
+
+  const owner = await prisma.depositReference.findUnique({ where: { code: depositCode } });
+  if (!owner) {
+    return { fundOperationId: null, note: `Unknown deposit code ${depositCode}` };
+  }
+
+  const pending = await prisma.fundOperation.findMany({
+    where: { userId: owner.userId, type: "deposit", method: "bank", status: "pending" },
+    orderBy: { createdAt: "asc" },
+  });
+  const op = pending.find((p) => amountMatches(p.amount));
+  if (op) {
+    return { fundOperationId: op.id, note: `Matched by deposit code ${depositCode}` };
+  }
+
+  return {
+    fundOperationId: null,
+    note: pending.length === 0
+      ? `No pending bank deposit for code ${depositCode}`
+      : `No pending bank deposit of $${amount.toLocaleString()} for code ${depositCode}`,
+  };
+}
+
+// ─── Import & queue ──────────────────────────────────────────────────────────
+
+export async function importStatement(
+  adminId: string,
+  file: { originalname: string; buffer: Buffer },
+  requestedFormat?: StatementFormat
+) {
+  const content = file.buffer.toString("utf8");
+  const format = requestedFormat ?? detectFormat(file.originalname, content);
+  if (!format) {
+    throw new ReconciliationError("Could not tell the statement format — pass format=csv|ofx|mt940");
+  }
+
+  // Only money in can pay for a deposit
+  const credits = parseStatement(content, format).filter((l) => l.amount > 0);
+
+  const statementImport = await prisma.bankStatementImport.create({
+    data: { fileName: file.originalname, format, importedBy: adminId, lineCount: credits.length },
+  });
+
+  const counts = { duplicateCount: 0, matchedCount: 0, unmatchedCount: 0 };
+  const fingerprints = lineFingerprints(credits);
+
+  // Sequential so two lines can't both claim the same deposit
+  for (const [i, line] of credits.entries()) {
+    const depositCode = line.description.match(CODE_PATTERN)?.[1].toUpperCase();
+    let record;
+    try {
+      record = await prisma.bankStatementLine.create({
+        data: {
+          importId: statementImport.id,
+          fingerprint: fingerprints[i],
+          ...line,
+          depositCode: depositCode ? CODE_PREFIX + depositCode : null,
+        },
+      });
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        counts.duplicateCount++;
+        continue;
+      }
+      throw err;
+    }
+
+    const match = await findDepositForLine(line, record.depositCode);
+    let status = "unmatched";
+    let note = match.note;
+
+    if (match.fundOperationId) {
+      try {
+        await completeFundOperation(match.fundOperationId, {
+          note: `Bank deposit received (statement ${file.originalname}, ${line.bookedAt.toISOString().slice(0, 10)})`,
+        });
+        status = "matched";
+      } catch (err) {
+        note = `Matched a deposit but could not approve it: ${(err as Error).message}`;
+      }
+    }
+
+    await prisma.bankStatementLine.update({
+      where: { id: record.id },
+      data: { status, note, fundOperationId: status === "matched" ? match.fundOperationId : null },
+    });
+    if (status === "matched") counts.matchedCount++;
+    else counts.unmatchedCount++;
+  }
+
+  return prisma.bankStatementImport.update({ where: { id: statementImport.id }, data: counts });
+}
+
+/**
+ * Match a queued line to a deposit by hand and approve it.
+ */
+export async function resolveLine(lineId: string, adminId: string, fundOperationId: string, note?: string) {
+  const line = await prisma.bankStatementLine.findUnique({ where: { id: lineId } });
+  if (!line) throw new ReconciliationError("Statement line not found", 404);
+  if (line.status !== "unmatched") throw new ReconciliationError("Only unmatched lines can be resolved");
+
+  const op = await prisma.fundOperation.findUnique({ where: { id: fundOperationId } });
+  if (!op || op.type !== "deposit") throw new ReconciliationError("Deposit not found", 404);
+  if (op.status !== "pending") throw new ReconciliationError("This deposit has already been processed");
+
+  // Claim the line first so it can't be resolved twice
+  const { count } = await prisma.bankStatementLine.updateMany({
+    where: { id: lineId, status: "unmatched" },
+    data: {
+      status: "resolved",
+      fundOperationId,
+      note: note || `Matched by hand to ${op.reference}`,
+      resolvedBy: adminId,
+      resolvedAt: new Date(),
+    },
+  });
+  if (count === 0) throw new ReconciliationError("This line was resolved by someone else", 409);
+
+  try {
+    await completeFundOperation(fundOperationId, { note });
+  } catch (err) {
+    await prisma.bankStatementLine.update({
+      where: { id: lineId },
+      data: { status: "unmatched", fundOperationId: null, note: line.note, resolvedBy: null, resolvedAt: null },
+    });
+    throw err;
+  }
+
+  return prisma.bankStatementLine.findUniqueOrThrow({ where: { id: lineId } });
+}
+
+/**
+ * Take a queued line out of the queue without crediting anyone (refunded,
+ * not a deposit, etc.).
+ */
+export async function ignoreLine(lineId: string, adminId: string, note: string) {
+  const { count } = await prisma.bankStatementLine.updateMany({
+    where: { id: lineId, status: "unmatched" },
+    data: { status: "ignored", note, resolvedBy: adminId, resolvedAt: new Date() },
+  });
+  if (count === 0) {
+    const exists = await prisma.bankStatementLine.findUnique({ where: { id: lineId }, select: { id: true } });
+    throw exists
+      ? new ReconciliationError("Only unmatched lines can be ignored")
+      : new ReconciliationError("Statement line not found", 404);
+  }
+  return prisma.bankStatementLine.findUniqueOrThrow({ where: { id: lineId } });
+}
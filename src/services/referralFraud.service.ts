@@ -0,0 +1,174 @@
+import { prisma } from "../config/database.js";
+
+/**
+ * Self-referral and referral-ring checks.
+ *
+ * Compares a commission's beneficiary with the referred user it would be paid
+ * for. Any shared IP, device, payout destination, near-identical KYC details,
+ * an alias of the same mailbox or a Google sign-in linked to both accounts
+ * (the same subject, or its email matching the other account's) is reported
+ * as a signal; the commission is then held for review rather than credited.
+ * Because every level of a multi-tier program is checked against the referred
+ * user, a ring that refers itself through intermediaries is caught at the
+ * level where it closes.
+ */
+
+export type FraudSignalType =
+  | "shared_ip"
+  | "shared_device"
+  | "shared_payout_destination"
+  | "similar_kyc"
+  | "email_alias"
+  | "shared_oauth_account";
+
+export interface FraudSignal {
+  type: FraudSignalType;
+  detail: string;
+}
+
+const LOCAL_IPS = new Set(["", "127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+/**
+ * The mailbox an address delivers to: no +tags, and no dots for Gmail.
+ */
+export function canonicalEmail(email: string): string {
+  const [local = "", domain = ""] = email.toLowerCase().trim().split("@");
+  let name = local.split("+")[0];
+  let host = domain;
+  if (host === "gmail.com" || host === "googlemail.com") {
+    name = name.replace(/\./g, "");
+    host = "gmail.com";
+  }
+  return `${name}@${host}`;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+// Only detailed device descriptions — "Unknown" or a bare browser name matches half the user base
+function deviceFingerprint(session: { deviceModel: string | null; os: string | null; osVersion: string | null; browser: string }) {
+  if (!session.deviceModel || session.deviceModel === "Unknown") return null;
+  return [session.deviceModel, session.os ?? "", session.osVersion ?? "", session.browser].join(" / ");
+}
+
+async function loadProfile(userId: string) {
+  const [user, accounts, sessions, destinations, kyc] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { email: true } }),
+    prisma.account.findMany({
+      where: { userId, provider: { not: "credentials" } },
+      select: { provider: true, providerId: true, providerEmail: true },
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: { ipAddress: true, deviceModel: true, os: true, osVersion: true, browser: true },
+    }),
+    prisma.payoutDestination.findMany({ where: { userId }, select: { fingerprint: true, type: true } }),
+    prisma.kYC.findUnique({
+      where: { userId },
+      select: { fullName: true, dateOfBirth: true, documentNumber: true, address: true, postalCode: true },
+    }),
+  ]);
+
+  return {
+    email: user?.email ?? "",
+    oauthSubjects: new Set(accounts.filter((acc) => acc.providerId).map((acc) => `${acc.provider}:${acc.providerId}`)),
+    oauthEmails: accounts.filter((acc) => acc.providerEmail).map((acc) => ({ provider: acc.provider, email: acc.providerEmail! })),
+    ips: new Set(sessions.map((s) => s.ipAddress).filter((ip) => !LOCAL_IPS.has(ip))),
+    devices: new Set(sessions.map(deviceFingerprint).filter((d): d is string => !!d)),
+    destinations: new Map(destinations.map((d) => [d.fingerprint, d.type])),
+    kyc,
+  };
+}
+
+function kycSignals(a: Awaited<ReturnType<typeof loadProfile>>["kyc"], b: typeof a): string[] {
+  if (!a || !b) return [];
+  const matches: string[] = [];
+
+  const docA = normalize(a.documentNumber);
+  if (docA && docA === normalize(b.documentNumber)) matches.push("same ID document number");
+
+  const nameA = normalize(a.fullName);
+  const nameB = normalize(b.fullName);
+  if (a.dateOfBirth && a.dateOfBirth === b.dateOfBirth && nameA && nameB && editDistance(nameA, nameB) <= 2) {
+    matches.push("same date of birth and near-identical name");
+  }
+
+  const addressA = normalize(a.address);
+  if (addressA && addressA === normalize(b.address) && normalize(a.postalCode) === normalize(b.postalCode)) {
+    matches.push("same address");
+  }
+  return matches;
+}
+
+/**
+ * Everything linking the two accounts; empty when they look independent.
+ */
+export async function detectReferralFraud(beneficiaryId: string, referredUserId: string): Promise<FraudSignal[]> {
+  if (beneficiaryId === referredUserId) {
+    return [{ type: "email_alias", detail: "beneficiary and referred user are the same account" }];
+  }
+
+  const [a, b] = await Promise.all([loadProfile(beneficiaryId), loadProfile(referredUserId)]);
+  const signals: FraudSignal[] = [];
+
+  if (a.email && b.email && canonicalEmail(a.email) === canonicalEmail(b.email)) {
+    signals.push({ type: "email_alias", detail: `${a.email} and ${b.email} deliver to the same mailbox` });
+  }
+
+  const sharedIps = [...a.ips].filter((ip) => b.ips.has(ip));
+  if (sharedIps.length > 0) {
+    signals.push({ type: "shared_ip", detail: `signed in from the same IP: ${sharedIps.slice(0, 3).join(", ")}` });
+  }
+
+  const sharedDevices = [...a.devices].filter((d) => b.devices.has(d));
+  if (sharedDevices.length > 0) {
+    signals.push({ type: "shared_device", detail: `signed in on the same device: ${sharedDevices[0]}` });
+  }
+
+  const sharedDestinations = [...a.destinations.keys()].filter((f) => b.destinations.has(f));
+  if (sharedDestinations.length > 0) {
+    const kinds = [...new Set(sharedDestinations.map((f) => a.destinations.get(f)))].join("/");
+    signals.push({ type: "shared_payout_destination", detail: `the same ${kinds} payout destination is saved on both accounts` });
+  }
+
+  const sharedSubjects = [...a.oauthSubjects].filter((subject) => b.oauthSubjects.has(subject));
+  for (const subject of sharedSubjects) {
+    signals.push({ type: "shared_oauth_account", detail: `the same ${subject.split(":")[0]} account is linked to both` });
+  }
+
+  // A sign-in email matching the other side's login or sign-in email; the login pair is email_alias above
+  const reported = new Set(signals.some((s) => s.type === "email_alias") ? [canonicalEmail(a.email)] : []);
+  for (const [own, other] of [
+    [a, b],
+    [b, a],
+  ] as const) {
+    const otherEmails = new Set([other.email, ...other.oauthEmails.map((o) => o.email)].filter(Boolean).map(canonicalEmail));
+    for (const { provider, email } of own.oauthEmails) {
+      const mailbox = canonicalEmail(email);
+      if (!otherEmails.has(mailbox) || reported.has(mailbox)) continue;
+      reported.add(mailbox);
+      signals.push({ type: "shared_oauth_account", detail: `${provider} sign-in ${email} delivers to a mailbox the other account uses` });
+    }
+  }
+
+  for (const match of kycSignals(a.kyc, b.kyc)) {
+    signals.push({ type: "similar_kyc", detail: `KYC details match: ${match}` });
+  }
+
+  return signals;
+}
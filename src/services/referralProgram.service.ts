@@ -0,0 +1,362 @@
+import { Prisma, ReferralCommission, ReferralProgram } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { sendReferralCommissionEmail } from "./email.service.js";
+import { createInAppNotification, notifyAdminReferralCommissionHeld } from "./notification.service.js";
+import { creditUser, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { detectReferralFraud } from "./referralFraud.service.js";
+import { tierMultiplier } from "./ambassador.service.js";
+import { StaleWriteError, withConflictRetry } from "../utils/retry.js";
+
+/**
+ * Referral commission programs.
+ *
+ * A user is attached to a program when they sign up — the one for the
+ * campaign code they used, or else the current default — and keeps it for
+ * life, even if the program is later edited or closed to new signups. Users
+ * without a program (everyone from before programs existed, or signups while
+ * no default was set) are on STANDARD_PROGRAM, the original 5% of the first
+ * deposit to the direct referrer.
+ *
+ * Each tier pays one level of the referral chain: level 1 is whoever referred
+ * the user, level 2 whoever referred them, and so on. A commission whose
+ * beneficiary looks linked to the referred user is held for admin review
+ * (see referralFraud.service) and only credited when released. Caps apply
+ * after the beneficiary's ambassador tier multiplier.
+ */
+
+export class ReferralProgramError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ReferralProgramError";
+  }
+}
+
+export const REFERRAL_TRIGGERS = ["first_deposit", "every_deposit", "investment"] as const;
+export type ReferralTrigger = typeof REFERRAL_TRIGGERS[number];
+
+export const REWARD_TYPES = ["percentage", "flat"] as const;
+export type RewardType = typeof REWARD_TYPES[number];
+
+export interface ReferralTier {
+  level: number;
+  reward: number; // percent of the amount, or dollars for flat programs
+}
+
+type ProgramRules = Pick<
+  ReferralProgram,
+  "trigger" | "rewardType" | "maxRewardPerEvent" | "maxRewardPerReferral" | "rewardWindowDays"
+> & { id: string | null; tiers: ReferralTier[] };
+
+export const STANDARD_PROGRAM: ProgramRules = {
+  id: null,
+  trigger: "first_deposit",
+  rewardType: "percentage",
+  tiers: [{ level: 1, reward: 5 }],
+  maxRewardPerEvent: null,
+  maxRewardPerReferral: null,
+  rewardWindowDays: null,
+};
+
+export function programTiers(program: Pick<ReferralProgram, "tiers">): ReferralTier[] {
+  const tiers = Array.isArray(program.tiers) ? (program.tiers as unknown as ReferralTier[]) : [];
+  return [...tiers].sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Whether a program is taking signups at `at`.
+ */
+export function isProgramOpen(program: Pick<ReferralProgram, "isActive" | "startsAt" | "endsAt">, at: Date = new Date()) {
+  return program.isActive && (!program.startsAt || program.startsAt <= at) && (!program.endsAt || program.endsAt > at);
+}
+
+/**
+ * The program a new signup joins: the campaign's, if a code was given, or else
+ * the open default. Returns null for the standard program.
+ */
+export async function resolveSignupProgram(campaignCode?: string | null): Promise<string | null> {
+  const now = new Date();
+
+  if (campaignCode) {
+    const program = await prisma.referralProgram.findFirst({
+      where: { campaignCode: campaignCode.trim().toUpperCase() },
+    });
+    if (!program || !isProgramOpen(program, now)) {
+      throw new ReferralProgramError("This campaign code is invalid or has ended");
+    }
+    return program.id;
+  }
+
+  const defaults = await prisma.referralProgram.findMany({
+    where: { isDefault: true, isActive: true },
+    orderBy: { createdAt: "desc" },
+  });
+  return defaults.find((p) => isProgramOpen(p, now))?.id ?? null;
+}
+
+/**
+ * Up to `depth` members of the user's referral chain, nearest first.
+ */
+async function referralChain(referredById: string | null, depth: number) {
+  const chain: { id: string; email: string; firstName: string; ambassadorTier: string }[] = [];
+  const seen = new Set<string>();
+  let nextId = referredById;
+
+  while (nextId && chain.length < depth && !seen.has(nextId)) {
+    seen.add(nextId);
+    const member = await prisma.user.findUnique({
+      where: { id: nextId },
+      select: { id: true, email: true, firstName: true, ambassadorTier: true, referredById: true },
+    });
+    if (!member) break;
+    chain.push(member);
+    nextId = member.referredById;
+  }
+  return chain;
+}
+
+async function qualifies(
+  rules: ProgramRules,
+  userId: string,
+  event: { trigger: "deposit" | "investment"; sourceId: string }
+) {
+  if (rules.trigger === "investment") return event.trigger === "investment";
+  if (event.trigger !== "deposit") return false;
+  if (rules.trigger === "every_deposit") return true;
+
+  // first_deposit — only the user's first completed deposit counts
+  const previousDeposits = await prisma.fundOperation.count({
+    where: { userId, type: "deposit", status: "completed", id: { not: event.sourceId } },
+  });
+  return previousDeposits === 0;
+}
+
+// Takes the per-referral cap row so a concurrent commission for the pair conflicts
+async function lockReferralCap(tx: Prisma.TransactionClient, beneficiaryId: string, referredUserId: string) {
+  try {
+    await tx.referralRewardCap.upsert({
+      where: { beneficiaryId_referredUserId: { beneficiaryId, referredUserId } },
+      create: { beneficiaryId, referredUserId },
+      update: { version: { increment: 1 } },
+    });
+  } catch (err) {
+    // The row was created by the other commission; the transaction is aborted, so retry it
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new StaleWriteError("Referral reward cap");
+    }
+    throw err;
+  }
+}
+
+async function creditCommission(tx: Prisma.TransactionClient, commission: ReferralCommission) {
+  await creditUser(tx, {
+    userId: commission.beneficiaryId,
+    bucket: "referralCommissions",
+    amount: commission.amount,
+    from: PLATFORM_ACCOUNTS.referralExpense,
+    type: "referral_commission",
+    reference: commission.sourceId,
+    description: commission.description,
+  });
+
+  await tx.transaction.create({
+    data: {
+      userId: commission.beneficiaryId,
+      type: "referral",
+      amount: commission.amount,
+      status: "completed",
+      description: commission.description,
+      reference: commission.referredUserId,
+    },
+  });
+}
+
+/**
+ * Pay the commissions a referred user's deposit or investment earns under
+ * their program. Each upline member is paid at most once per event.
+ */
+export async function processReferralCommissions(
+  userId: string,
+  event: { trigger: "deposit" | "investment"; sourceId: string; amount: number }
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, referredById: true, referralProgramId: true, firstName: true, lastName: true, createdAt: true },
+  });
+  if (!user?.referredById) return [];
+
+  const program = user.referralProgramId
+    ? await prisma.referralProgram.findUnique({ where: { id: user.referralProgramId } })
+    : null;
+  const rules: ProgramRules = program ? { ...program, tiers: programTiers(program) } : STANDARD_PROGRAM;
+
+  if (rules.rewardWindowDays !== null) {
+    const windowEnds = user.createdAt.getTime() + rules.rewardWindowDays * 24 * 60 * 60 * 1000;
+    if (Date.now() > windowEnds) return [];
+  }
+  if (!(await qualifies(rules, userId, event))) return [];
+
+  const depth = Math.max(0, ...rules.tiers.map((t) => t.level));
+  const chain = await referralChain(user.referredById, depth);
+  const referredName = `${user.firstName} ${user.lastName}`;
+  const eventLabel = event.trigger === "investment"
+    ? "investment"
+    : rules.trigger === "first_deposit" ? "first deposit" : "deposit";
+
+  const paid: { beneficiaryId: string; level: number; amount: number; status: string }[] = [];
+  for (const tier of rules.tiers) {
+    const beneficiary = chain[tier.level - 1];
+    if (!beneficiary) continue;
+
+    const multiplier = tierMultiplier(beneficiary.ambassadorTier);
+    let reward = (rules.rewardType === "flat" ? tier.reward : (event.amount * tier.reward) / 100) * multiplier;
+    if (rules.maxRewardPerEvent !== null) reward = Math.min(reward, rules.maxRewardPerEvent);
+    if (roundCents(reward) <= 0) continue;
+
+    const description = tier.level > 1
+      ? `Level ${tier.level} referral commission from ${referredName}'s ${eventLabel}`
+      : `Referral commission from ${referredName}'s ${eventLabel}`;
+
+    const signals = await detectReferralFraud(beneficiary.id, userId);
+    const held = signals.length > 0;
+
+    let commission: ReferralCommission | null;
+    try {
+      commission = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+        // What's left under the per-referral cap, read after taking the pair's cap row
+        let amount = reward;
+        if (rules.maxRewardPerReferral !== null) {
+          await lockReferralCap(tx, beneficiary.id, userId);
+          const earned = await tx.referralCommission.aggregate({
+            where: { beneficiaryId: beneficiary.id, referredUserId: userId, status: { not: "rejected" } },
+            _sum: { amount: true },
+          });
+          amount = Math.min(amount, rules.maxRewardPerReferral - (earned._sum.amount ?? 0));
+        }
+        amount = roundCents(amount);
+        if (amount <= 0) return null;
+
+        // Unique per event and beneficiary, so a repeated call pays nothing
+        const created = await tx.referralCommission.create({
+          data: {
+            programId: rules.id,
+            beneficiaryId: beneficiary.id,
+            referredUserId: userId,
+            level: tier.level,
+            trigger: event.trigger,
+            sourceId: event.sourceId,
+            baseAmount: event.amount,
+            amount,
+            multiplier,
+            description,
+            status: held ? "held" : "credited",
+            fraudSignals: signals as unknown as Prisma.InputJsonValue,
+          },
+        });
+        if (!held) await creditCommission(tx, created);
+        return created;
+      }, { timeout: 15000 }));
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") continue;
+      throw err;
+    }
+    if (!commission) continue;
+
+    const { amount } = commission;
+    paid.push({ beneficiaryId: beneficiary.id, level: tier.level, amount, status: commission.status });
+
+    if (held) {
+      console.warn(`🚩 Referral commission ${commission.id} held: ${signals.map((s) => s.type).join(", ")}`);
+      notifyAdminReferralCommissionHeld(
+        beneficiary.email,
+        user.email,
+        amount,
+        signals.map((s) => s.detail)
+      ).catch(() => {});
+      createInAppNotification(
+        beneficiary.id,
+        "investment",
+        "Referral Commission Under Review",
+        `A referral commission from ${referredName}'s ${eventLabel} is being reviewed and will be credited once approved.`
+      ).catch(() => {});
+      continue;
+    }
+
+    const amountStr = amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    createInAppNotification(
+      beneficiary.id,
+      "investment",
+      "Referral Commission Earned",
+      `You earned $${amountStr} referral commission from ${referredName}'s ${eventLabel}.`
+    ).catch(() => {});
+
+    if (beneficiary.email && beneficiary.firstName) {
+      sendReferralCommissionEmail(
+        beneficiary.email,
+        beneficiary.firstName,
+        referredName,
+        amount,
+        event.amount,
+        eventLabel,
+        tier.level
+      ).catch((e: unknown) => console.error("Failed to send referral commission email:", e));
+    }
+  }
+
+  return paid;
+}
+
+/**
+ * Credit a held commission after review.
+ */
+export async function releaseHeldCommission(id: string, adminId: string, note = "") {
+  const commission = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.referralCommission.updateMany({
+      where: { id, status: "held" },
+      data: { status: "credited", reviewedBy: adminId, reviewNote: note, reviewedAt: new Date() },
+    });
+    if (count === 0) return null;
+
+    const released = await tx.referralCommission.findUniqueOrThrow({ where: { id } });
+    await creditCommission(tx, released);
+    return released;
+  }, { timeout: 15000 });
+
+  if (!commission) throw await notHeldError(id);
+
+  createInAppNotification(
+    commission.beneficiaryId,
+    "investment",
+    "Referral Commission Earned",
+    `Your referral commission of $${commission.amount.toFixed(2)} has been approved and credited. ${commission.description}.`
+  ).catch(() => {});
+
+  return commission;
+}
+
+/**
+ * Close a held commission without paying it.
+ */
+export async function rejectHeldCommission(id: string, adminId: string, note: string) {
+  const { count } = await prisma.referralCommission.updateMany({
+    where: { id, status: "held" },
+    data: { status: "rejected", reviewedBy: adminId, reviewNote: note, reviewedAt: new Date() },
+  });
+  if (count === 0) throw await notHeldError(id);
+
+  const commission = await prisma.referralCommission.findUniqueOrThrow({ where: { id } });
+  createInAppNotification(
+    commission.beneficiaryId,
+    "investment",
+    "Referral Commission Declined",
+    `A $${commission.amount.toFixed(2)} referral commission was not approved: ${note}`
+  ).catch(() => {});
+
+  return commission;
+}
+
+async function notHeldError(id: string) {
+  const commission = await prisma.referralCommission.findUnique({ where: { id }, select: { status: true } });
+  return commission
+    ? new ReferralProgramError(`This commission is already ${commission.status}`, 409)
+    : new ReferralProgramError("Referral commission not found", 404);
+}
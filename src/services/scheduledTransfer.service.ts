@@ -0,0 +1,247 @@
+import { ScheduledTransfer } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { sendTransferFailedNotification } from "./notification.service.js";
+import { InsufficientBalanceError } from "./ledger.service.js";
+import { LimitExceededError } from "./limits.service.js";
+import { executeTransfer, TransferError } from "./transfer.service.js";
+
+/**
+ * Future-dated and recurring transfers.
+ *
+ * Each occurrence is claimed by moving `nextRunAt` forward before the transfer
+ * is sent, so a slow or repeated run can never pay the same occurrence twice.
+ * A failed occurrence is skipped, not retried; after MAX_CONSECUTIVE_FAILURES
+ * in a row a recurring schedule is paused until the user resumes it.
+ */
+
+export const SCHEDULE_FREQUENCIES = ["once", "weekly", "monthly"] as const;
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number];
+
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export class ScheduledTransferError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ScheduledTransferError";
+  }
+}
+
+/**
+ * The date of occurrence `n` (0-based). Monthly schedules keep the start's day
+ * of month, falling back to the last day of shorter months.
+ */
+export function occurrenceDate(startAt: Date, frequency: ScheduleFrequency, n: number): Date {
+  if (frequency === "weekly") {
+    return new Date(startAt.getTime() + n * 7 * 24 * 60 * 60 * 1000);
+  }
+  if (frequency === "monthly") {
+    const date = new Date(startAt);
+    const day = startAt.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(startAt.getUTCMonth() + n);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    return date;
+  }
+  return startAt;
+}
+
+/**
+ * The first occurrence after `after`, or null if the schedule has run out.
+ */
+function nextOccurrence(schedule: Pick<ScheduledTransfer, "startAt" | "frequency" | "endAt" | "occurrences">, after: Date) {
+  if (schedule.frequency === "once") return null;
+  let n = schedule.occurrences;
+  let date = occurrenceDate(schedule.startAt, schedule.frequency as ScheduleFrequency, n);
+  // Skip anything missed while the runner (or the schedule) was stopped
+  while (date <= after) {
+    n++;
+    date = occurrenceDate(schedule.startAt, schedule.frequency as ScheduleFrequency, n);
+  }
+  if (schedule.endAt && date > schedule.endAt) return null;
+  return { date, occurrences: n };
+}
+
+export async function createSchedule(
+  userId: string,
+  input: {
+    recipientEmail: string;
+    amount: number;
+    note?: string;
+    frequency: ScheduleFrequency;
+    startAt: Date;
+    endAt?: Date | null;
+  }
+) {
+  // Accounts are registered with lowercase emails, as executeTransfer compares them
+  const recipientEmail = input.recipientEmail.toLowerCase().trim();
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (!user) throw new ScheduledTransferError("User not found", 404);
+  if (user.email === recipientEmail) {
+    throw new ScheduledTransferError("Cannot transfer to yourself");
+  }
+  if (input.endAt && input.frequency !== "once" && input.endAt <= input.startAt) {
+    throw new ScheduledTransferError("The end date must be after the first transfer");
+  }
+
+  return prisma.scheduledTransfer.create({
+    data: {
+      userId,
+      recipientEmail,
+      amount: input.amount,
+      note: input.note ?? "",
+      frequency: input.frequency,
+      startAt: input.startAt,
+      endAt: input.frequency === "once" ? null : input.endAt ?? null,
+      nextRunAt: input.startAt,
+    },
+  });
+}
+
+async function findOwnSchedule(userId: string, id: string) {
+  const schedule = await prisma.scheduledTransfer.findFirst({ where: { id, userId } });
+  if (!schedule) throw new ScheduledTransferError("Scheduled transfer not found", 404);
+  return schedule;
+}
+
+export async function pauseSchedule(userId: string, id: string) {
+  const schedule = await findOwnSchedule(userId, id);
+  const { count } = await prisma.scheduledTransfer.updateMany({
+    where: { id: schedule.id, status: "active" },
+    data: { status: "paused" },
+  });
+  if (count === 0) throw new ScheduledTransferError("Only active scheduled transfers can be paused");
+  return prisma.scheduledTransfer.findUniqueOrThrow({ where: { id } });
+}
+
+/**
+ * Resume a paused schedule from its next occurrence after now — paused
+ * occurrences are not paid retroactively.
+ */
+export async function resumeSchedule(userId: string, id: string) {
+  const schedule = await findOwnSchedule(userId, id);
+  if (schedule.status !== "paused") {
+    throw new ScheduledTransferError("Only paused scheduled transfers can be resumed");
+  }
+
+  const now = new Date();
+  let nextRunAt: Date | null;
+  let occurrences = schedule.occurrences;
+  if (schedule.frequency === "once") {
+    // A one-off that was paused past its date goes out on the next run
+    nextRunAt = schedule.nextRunAt && schedule.nextRunAt > now ? schedule.nextRunAt : now;
+  } else {
+    const next = nextOccurrence(schedule, now);
+    if (!next) throw new ScheduledTransferError("This schedule has no occurrences left");
+    nextRunAt = next.date;
+    occurrences = next.occurrences;
+  }
+
+  const { count } = await prisma.scheduledTransfer.updateMany({
+    where: { id, status: "paused" },
+    data: { status: "active", nextRunAt, occurrences, failureCount: 0 },
+  });
+  if (count === 0) throw new ScheduledTransferError("Only paused scheduled transfers can be resumed");
+  return prisma.scheduledTransfer.findUniqueOrThrow({ where: { id } });
+}
+
+export async function cancelSchedule(userId: string, id: string) {
+  const schedule = await findOwnSchedule(userId, id);
+  const { count } = await prisma.scheduledTransfer.updateMany({
+    where: { id: schedule.id, status: { in: ["active", "paused"] } },
+    data: { status: "cancelled", nextRunAt: null },
+  });
+  if (count === 0) throw new ScheduledTransferError("This scheduled transfer has already finished");
+  return prisma.scheduledTransfer.findUniqueOrThrow({ where: { id } });
+}
+
+function failureReason(err: unknown): string {
+  if (err instanceof TransferError || err instanceof LimitExceededError) return err.message;
+  if (err instanceof InsufficientBalanceError) return "Insufficient balance";
+  return "The transfer could not be processed";
+}
+
+/**
+ * Send one due occurrence, or skip it if another run claimed it first.
+ */
+async function runOne(schedule: ScheduledTransfer, now: Date): Promise<"sent" | "failed" | "skipped"> {
+  const dueAt = schedule.nextRunAt!;
+  const next = nextOccurrence({ ...schedule, occurrences: schedule.occurrences + 1 }, now);
+
+  // Claim this occurrence by moving the schedule past it
+  const { count } = await prisma.scheduledTransfer.updateMany({
+    where: { id: schedule.id, status: "active", nextRunAt: dueAt },
+    data: {
+      nextRunAt: next?.date ?? null,
+      occurrences: next?.occurrences ?? schedule.occurrences + 1,
+      lastRunAt: now,
+    },
+  });
+  if (count === 0) return "skipped";
+
+  try {
+    const { transfer } = await executeTransfer(schedule.userId, {
+      recipientEmail: schedule.recipientEmail,
+      amount: schedule.amount,
+      note: schedule.note,
+      scheduledTransferId: schedule.id,
+    });
+
+    await prisma.scheduledTransfer.update({
+      where: { id: schedule.id },
+      data: { runCount: { increment: 1 }, failureCount: 0, lastError: "", lastTransferId: transfer.id },
+    });
+    // The user may have cancelled while the transfer ran
+    if (!next) {
+      await prisma.scheduledTransfer.updateMany({
+        where: { id: schedule.id, status: "active" },
+        data: { status: "completed" },
+      });
+    }
+    return "sent";
+  } catch (err) {
+    const reason = failureReason(err);
+    if (!(err instanceof TransferError || err instanceof LimitExceededError || err instanceof InsufficientBalanceError)) {
+      console.error(`Scheduled transfer ${schedule.id} failed:`, err);
+    }
+
+    const failures = schedule.failureCount + 1;
+    let status: string | undefined;
+    if (!next) status = schedule.frequency === "once" ? "failed" : "completed";
+    else if (failures >= MAX_CONSECUTIVE_FAILURES) status = "paused";
+
+    // A cancel while the transfer ran stands — it isn't turned into paused or failed
+    const { count: stillActive } = await prisma.scheduledTransfer.updateMany({
+      where: { id: schedule.id, status: "active" },
+      data: { failureCount: failures, lastError: reason, ...(status ? { status } : {}) },
+    });
+
+    const suffix = !stillActive
+      ? ""
+      : status === "paused"
+        ? ` Your recurring transfer has been paused after ${failures} failed attempts.`
+        : next ? ` We'll try again on ${next.date.toDateString()}.` : "";
+    await sendTransferFailedNotification(schedule.userId, schedule.recipientEmail, schedule.amount, reason + suffix);
+    return "failed";
+  }
+}
+
+/**
+ * Send every scheduled transfer that has come due.
+ */
+export async function runScheduledTransfers(asOf: Date = new Date()) {
+  const due = await prisma.scheduledTransfer.findMany({
+    where: { status: "active", nextRunAt: { lte: asOf } },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  const result = { sent: 0, failed: 0 };
+  // Sequential — several schedules of one user draw from the same balance
+  for (const schedule of due) {
+    const outcome = await runOne(schedule, asOf);
+    if (outcome === "sent") result.sent++;
+    if (outcome === "failed") result.failed++;
+  }
+  return result;
+}
@@ -0,0 +1,631 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import { splitCsvRow } from "../utils/csv.js";
+import { notifyAdminScreeningHits } from "./notification.service.js";
+
+/**
+ * Sanctions and PEP screening.
+ *
+ * Admins load watchlists from CSV or XML files (UN consolidated list, OFAC
+ * SDN, or a plain <entry> list). A KYC submission's full name, date of birth
+ * and nationality are fuzzy-matched against every live entry: names are
+ * compared token by token (Jaro-Winkler, so word order and small spelling
+ * differences don't hide a match), and a date of birth that contradicts the
+ * entry rules it out. Matches become ScreeningHits that an admin confirms or
+ * dismisses; a KYC with an open hit can't be approved.
+ *
+ * Submissions are screened when they come in, and every verified user is
+ * screened again whenever a list is imported or refreshed.
+ */
+
+export class ScreeningError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ScreeningError";
+  }
+}
+
+export const WATCHLIST_FORMATS = ["csv", "xml"] as const;
+export type WatchlistFormat = typeof WATCHLIST_FORMATS[number];
+
+export const WATCHLIST_TYPES = ["sanctions", "pep"] as const;
+export type WatchlistType = typeof WATCHLIST_TYPES[number];
+
+// Name similarity at or above which an entry counts as a hit
+export const NAME_MATCH_THRESHOLD = 0.9;
+
+// Hit statuses that still stand against the user
+const ACTIVE_HIT_STATUSES = ["open", "confirmed"];
+
+interface ParsedEntry {
+  sourceId: string;
+  name: string;
+  aliases: string[];
+  datesOfBirth: string[];
+  nationalities: string[];
+  remarks: string;
+}
+
+// ─── Normalisation & matching ────────────────────────────────────────────────
+
+export function nameTokens(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // strip accents
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j++]) transpositions++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * How alike two names are, 0–1. Each token of the shorter name is paired with
+ * its best match in the longer one, so "Smith John" matches "John Smith" and a
+ * missing middle name costs little; a single name against a full one is
+ * discounted.
+ */
+export function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+
+  const total = shorter.reduce((sum, token) => sum + Math.max(...longer.map((other) => jaroWinkler(token, other))), 0);
+  const score = total / shorter.length;
+  return shorter.length === 1 && longer.length > 1 ? score * 0.8 : score;
+}
+
+/**
+ * YYYY-MM-DD, or YYYY when only the year can be read; null if neither.
+ */
+export function normalizeDateOfBirth(raw: string): string | null {
+  const text = raw.trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  if (/^\d{4}$/.test(text)) return text;
+
+  const dayFirst = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  const parsed = dayFirst
+    ? new Date(Date.UTC(+dayFirst[3], +dayFirst[2] - 1, +dayFirst[1]))
+    : new Date(`${text} UTC`);
+  if (!isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
+
+  return text.match(/\b(19|20)\d{2}\b/)?.[0] ?? null;
+}
+
+function dateOfBirthMatches(dateOfBirth: string | null, listed: string[]): boolean | null {
+  if (!dateOfBirth || listed.length === 0) return null;
+  return listed.some((d) => (d.length === 4 ? dateOfBirth.startsWith(d) : d === dateOfBirth));
+}
+
+function nationalityMatches(nationality: string, listed: string[]): boolean | null {
+  const n = nationality.trim().toLowerCase();
+  if (!n || listed.length === 0) return null;
+  return listed.some((l) => l.toLowerCase() === n);
+}
+
+type LiveEntry = {
+  id: string;
+  watchlistId: string;
+  entryKey: string;
+  name: string;
+  datesOfBirth: string[];
+  nationalities: string[];
+  names: { name: string; tokens: string[] }[];
+};
+
+type Subject = { fullName: string; dateOfBirth: string; nationality: string };
+
+export interface ScreeningMatch<E extends LiveEntry = LiveEntry> {
+  entry: E;
+  matchedName: string;
+  score: number;
+  dateOfBirthMatch: boolean | null;
+  nationalityMatch: boolean | null;
+}
+
+/**
+ * Every entry the subject matches, best first.
+ */
+export function matchSubject<E extends LiveEntry>(subject: Subject, entries: E[]): ScreeningMatch<E>[] {
+  const tokens = nameTokens(subject.fullName);
+  if (tokens.length === 0) return [];
+  const dateOfBirth = normalizeDateOfBirth(subject.dateOfBirth);
+
+  const matches: ScreeningMatch<E>[] = [];
+  for (const entry of entries) {
+    let best = { name: "", score: 0 };
+    for (const candidate of entry.names) {
+      const score = nameSimilarity(tokens, candidate.tokens);
+      if (score > best.score) best = { name: candidate.name, score };
+    }
+    if (best.score < NAME_MATCH_THRESHOLD) continue;
+
+    // Same name, different person
+    const dateOfBirthMatch = dateOfBirthMatches(dateOfBirth, entry.datesOfBirth);
+    if (dateOfBirthMatch === false) continue;
+
+    matches.push({
+      entry,
+      matchedName: best.name,
+      score: Math.round(best.score * 1000) / 1000,
+      dateOfBirthMatch,
+      nationalityMatch: nationalityMatches(subject.nationality, entry.nationalities),
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// ─── List parsing ────────────────────────────────────────────────────────────
+
+export function detectFormat(fileName: string, content: string): WatchlistFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv") return "csv";
+  if (ext === "xml") return "xml";
+  if (/^\s*</.test(content)) return "xml";
+  return null;
+}
+
+// Cells holding several values: "a; b | c"
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(/[;|]/).map((v) => v.trim()).filter(Boolean);
+}
+
+const CSV_COLUMNS = {
+  id: ["id", "uid", "reference", "reference number", "list id"],
+  name: ["name", "full name", "fullname", "whole name"],
+  firstName: ["first name", "firstname", "given name"],
+  lastName: ["last name", "lastname", "surname", "family name"],
+  aliases: ["aliases", "alias", "aka", "also known as"],
+  dateOfBirth: ["date of birth", "dob", "birth date", "dates of birth"],
+  nationality: ["nationality", "nationalities", "citizenship", "country"],
+  remarks: ["remarks", "notes", "position", "program", "reason"],
+};
+
+function parseCsv(content: string): ParsedEntry[] {
+  const rows = content.split(/\r?\n/).filter((r) => r.trim() !== "");
+  if (rows.length < 2) return [];
+
+  const header = splitCsvRow(rows[0]).map((h) => h.toLowerCase());
+  const find = (names: string[]) => header.findIndex((h) => names.includes(h));
+  const cols = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, names]) => [key, find(names)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (cols.name < 0 && (cols.firstName < 0 || cols.lastName < 0)) {
+    throw new ScreeningError("CSV list needs a name column (or first name and last name columns)");
+  }
+
+  const cell = (cells: string[], col: number) => (col >= 0 ? cells[col] ?? "" : "");
+  return rows.slice(1).map((row) => {
+    const cells = splitCsvRow(row);
+    return {
+      sourceId: cell(cells, cols.id),
+      name: cols.name >= 0 ? cell(cells, cols.name) : `${cell(cells, cols.firstName)} ${cell(cells, cols.lastName)}`.trim(),
+      aliases: splitList(cell(cells, cols.aliases)),
+      datesOfBirth: splitList(cell(cells, cols.dateOfBirth)),
+      nationalities: splitList(cell(cells, cols.nationality)),
+      remarks: cell(cells, cols.remarks),
+    };
+  });
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(+code))
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Inner text of every <tag> in the block (namespace prefixes ignored)
+function xmlValues(block: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "gi");
+  return [...block.matchAll(pattern)].map((m) => decodeXml(m[1])).filter(Boolean);
+}
+
+function xmlBlocks(content: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "gi");
+  return [...content.matchAll(pattern)].map((m) => m[1]);
+}
+
+function parseXml(content: string): ParsedEntry[] {
+  // UN Security Council consolidated list
+  if (/<INDIVIDUAL>/i.test(content)) {
+    return xmlBlocks(content, "INDIVIDUAL").map((block) => ({
+      sourceId: xmlValues(block, "REFERENCE_NUMBER")[0] ?? xmlValues(block, "DATAID")[0] ?? "",
+      name: ["FIRST_NAME", "SECOND_NAME", "THIRD_NAME", "FOURTH_NAME"]
+        .map((t) => xmlValues(block, t)[0])
+        .filter(Boolean)
+        .join(" "),
+      aliases: xmlValues(block, "ALIAS_NAME"),
+      datesOfBirth: xmlBlocks(block, "INDIVIDUAL_DATE_OF_BIRTH").flatMap((b) => [
+        ...xmlValues(b, "DATE"),
+        ...xmlValues(b, "YEAR"),
+      ]),
+      nationalities: xmlBlocks(block, "NATIONALITY").flatMap((b) => xmlValues(b, "VALUE")),
+      remarks: xmlValues(block, "COMMENTS1")[0] ?? "",
+    }));
+  }
+
+  // OFAC SDN list — individuals only
+  if (/<sdnEntry>/i.test(content)) {
+    return xmlBlocks(content, "sdnEntry")
+      .filter((block) => /individual/i.test(xmlValues(block, "sdnType")[0] ?? ""))
+      .map((block) => {
+        // The entry's own name comes before its aka list
+        const own = block.split(/<akaList>/i)[0];
+        const fullName = (b: string) => [xmlValues(b, "firstName")[0], xmlValues(b, "lastName")[0]].filter(Boolean).join(" ");
+        return {
+          sourceId: xmlValues(own, "uid")[0] ?? "",
+          name: fullName(own),
+          aliases: xmlBlocks(block, "aka").map(fullName).filter(Boolean),
+          datesOfBirth: xmlValues(block, "dateOfBirth"),
+          nationalities: xmlBlocks(block, "nationality").flatMap((b) => xmlValues(b, "country")),
+          remarks: xmlValues(block, "programList").join(", "),
+        };
+      });
+  }
+
+  // Plain list: <entry><id/><name/><alias/>…<dateOfBirth/><nationality/><remarks/></entry>
+  return xmlBlocks(content, "entry").map((block) => ({
+    sourceId: xmlValues(block, "id")[0] ?? "",
+    name: xmlValues(block, "name")[0] ?? "",
+    aliases: xmlValues(block, "alias"),
+    datesOfBirth: xmlValues(block, "dateOfBirth"),
+    nationalities: xmlValues(block, "nationality"),
+    remarks: xmlValues(block, "remarks")[0] ?? "",
+  }));
+}
+
+export function parseWatchlist(content: string, format: WatchlistFormat): ParsedEntry[] {
+  const entries = format === "csv" ? parseCsv(content) : parseXml(content);
+  return entries.filter((e) => nameTokens(e.name).length > 0);
+}
+
+// ─── Import ──────────────────────────────────────────────────────────────────
+
+const ENTRY_BATCH_SIZE = 1000;
+
+/**
+ * A version number for one import of a list, unique across imports.
+ */
+async function claimImportVersion(watchlistId: string) {
+  for (;;) {
+    const list = await prisma.watchlist.update({
+      where: { id: watchlistId },
+      data: { lastVersion: { increment: 1 } },
+      select: { version: true, lastVersion: true },
+    });
+    if (list.lastVersion > list.version) return list.lastVersion;
+    // Lists imported before the counter existed: start it from the live version
+    await prisma.watchlist.updateMany({
+      where: { id: watchlistId, lastVersion: list.lastVersion },
+      data: { lastVersion: list.version },
+    });
+  }
+}
+
+/**
+ * Load a list, or refresh the list of the same name. The new entries are
+ * written under a version of their own and switched live in one update, so
+ * screening never sees a half-loaded list. Verified users are then screened
+ * again in the background.
+ */
+export async function importWatchlist(
+  adminId: string,
+  file: { originalname: string; buffer: Buffer },
+  options: { name: string; type: WatchlistType; format?: WatchlistFormat }
+) {
+  const content = file.buffer.toString("utf8");
+  const format = options.format ?? detectFormat(file.originalname, content);
+  if (!format) {
+    throw new ScreeningError("Could not tell the list format — pass format=csv|xml");
+  }
+
+  const parsed = parseWatchlist(content, format);
+  if (parsed.length === 0) {
+    throw new ScreeningError("No entries found in the list");
+  }
+
+  let existing = await prisma.watchlist.findUnique({ where: { name: options.name } });
+  if (!existing) {
+    try {
+      existing = await prisma.watchlist.create({
+        data: { name: options.name, type: options.type, format, fileName: file.originalname, version: 0, importedBy: adminId },
+      });
+    } catch (err) {
+      // First import of this name racing another
+      if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+      existing = await prisma.watchlist.findUniqueOrThrow({ where: { name: options.name } });
+    }
+  }
+  if (existing.type !== options.type) {
+    throw new ScreeningError(`"${options.name}" is a ${existing.type} list`);
+  }
+  const watchlist = existing;
+
+  // Entries are written under a version number no other import gets, and
+  // only go live by swapping the list's version, so a failed or overtaken
+  // import never mixes its rows into the live list
+  const version = await claimImportVersion(watchlist.id);
+  try {
+    for (let i = 0; i < parsed.length; i += ENTRY_BATCH_SIZE) {
+      await prisma.watchlistEntry.createMany({
+        data: parsed.slice(i, i + ENTRY_BATCH_SIZE).map((e) => ({
+          watchlistId: watchlist.id,
+          listVersion: version,
+          entryKey: `${watchlist.name}:${e.sourceId || nameTokens(e.name).join(" ")}`,
+          name: e.name,
+          aliases: e.aliases,
+          datesOfBirth: e.datesOfBirth.map(normalizeDateOfBirth).filter((d): d is string => d !== null),
+          nationalities: e.nationalities,
+          remarks: e.remarks,
+        })),
+      });
+    }
+  } catch (err) {
+    await prisma.watchlistEntry.deleteMany({ where: { watchlistId: watchlist.id, listVersion: version } }).catch(() => {});
+    throw err;
+  }
+
+  const { count } = await prisma.watchlist.updateMany({
+    where: { id: watchlist.id, version: { lt: version } },
+    data: { version, format, fileName: file.originalname, entryCount: parsed.length, importedBy: adminId, importedAt: new Date() },
+  });
+  if (count === 0) {
+    await prisma.watchlistEntry.deleteMany({ where: { watchlistId: watchlist.id, listVersion: version } });
+    throw new ScreeningError("A newer import of this list finished first", 409);
+  }
+  // Everything older: the previous live list and leftovers of failed imports
+  await prisma.watchlistEntry.deleteMany({ where: { watchlistId: watchlist.id, listVersion: { lt: version } } });
+  const updated = await prisma.watchlist.findUniqueOrThrow({ where: { id: watchlist.id } });
+
+  setImmediate(() => {
+    rescreenVerifiedUsers()
+      .then((result) => console.log(`🔎 Re-screened ${result.screened} verified user(s) after ${updated.name} refresh: ${result.newHits} new hit(s)`))
+      .catch((err) => console.error("Watchlist re-screen error:", err));
+  });
+
+  return updated;
+}
+
+// ─── Screening ───────────────────────────────────────────────────────────────
+
+async function loadLiveEntries(): Promise<(LiveEntry & { listName: string; listType: string })[]> {
+  const lists = await prisma.watchlist.findMany({ select: { id: true, name: true, type: true, version: true } });
+  if (lists.length === 0) return [];
+
+  const entries = await prisma.watchlistEntry.findMany({
+    where: { OR: lists.map((l) => ({ watchlistId: l.id, listVersion: l.version })) },
+    select: { id: true, watchlistId: true, entryKey: true, name: true, aliases: true, datesOfBirth: true, nationalities: true },
+  });
+  const byId = new Map(lists.map((l) => [l.id, l]));
+
+  return entries.map((e) => ({
+    ...e,
+    listName: byId.get(e.watchlistId)!.name,
+    listType: byId.get(e.watchlistId)!.type,
+    names: [e.name, ...e.aliases].map((name) => ({ name, tokens: nameTokens(name) })),
+  }));
+}
+
+/**
+ * Screen one KYC record and bring its hits up to date. Dismissed hits stay
+ * dismissed while the screened name is unchanged; open hits that no longer
+ * match are cleared. Returns the hits opened by this run.
+ */
+async function screenKycRecord(
+  kyc: { id: string; userId: string; fullName: string; dateOfBirth: string; nationality: string },
+  entries: Awaited<ReturnType<typeof loadLiveEntries>>
+) {
+  const matches = matchSubject(kyc, entries);
+  const existing = await prisma.screeningHit.findMany({ where: { userId: kyc.userId } });
+  const existingByKey = new Map(existing.map((h) => [h.entryKey, h]));
+
+  const opened = [];
+  for (const match of matches) {
+    const details = {
+      kycId: kyc.id,
+      watchlistId: match.entry.watchlistId,
+      listName: match.entry.listName,
+      listType: match.entry.listType,
+      entryName: match.entry.name,
+      matchedName: match.matchedName,
+      screenedName: kyc.fullName,
+      score: match.score,
+      dateOfBirthMatch: match.dateOfBirthMatch,
+      nationalityMatch: match.nationalityMatch,
+    };
+    const previous = existingByKey.get(match.entry.entryKey);
+
+    if (!previous) {
+      try {
+        opened.push(await prisma.screeningHit.create({ data: { ...details, userId: kyc.userId, entryKey: match.entry.entryKey } }));
+      } catch (err) {
+        // Screened concurrently (the submit-time screen vs. an early approve); keep its hit
+        if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+        await prisma.screeningHit.update({
+          where: { userId_entryKey: { userId: kyc.userId, entryKey: match.entry.entryKey } },
+          data: details,
+        });
+      }
+    } else if (previous.status === "open" || previous.status === "confirmed") {
+      await prisma.screeningHit.update({ where: { id: previous.id }, data: details });
+    } else if (previous.status === "cleared" || previous.screenedName !== kyc.fullName) {
+      // Matches again, or the user's name changed since it was dismissed
+      opened.push(
+        await prisma.screeningHit.update({
+          where: { id: previous.id },
+          data: { ...details, status: "open", note: "", resolvedBy: null, resolvedAt: null },
+        })
+      );
+    }
+  }
+
+  const stillMatching = new Set(matches.map((m) => m.entry.entryKey));
+  const stale = existing.filter((h) => h.status === "open" && !stillMatching.has(h.entryKey)).map((h) => h.id);
+  if (stale.length > 0) {
+    await prisma.screeningHit.updateMany({
+      where: { id: { in: stale }, status: "open" },
+      data: { status: "cleared", note: "No longer matches the screened details or the current lists" },
+    });
+  }
+
+  const active = await prisma.screeningHit.count({ where: { userId: kyc.userId, status: { in: ACTIVE_HIT_STATUSES } } });
+  await prisma.kYC.update({
+    where: { id: kyc.id },
+    data: { screeningStatus: active > 0 ? "hit" : "clear", screenedAt: new Date() },
+  });
+
+  return opened;
+}
+
+const kycSubjectSelect = { id: true, userId: true, fullName: true, dateOfBirth: true, nationality: true };
+
+async function alertAdmins(userId: string, hits: { listName: string; listType: string; entryName: string; score: number }[]) {
+  if (hits.length === 0) return;
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  notifyAdminScreeningHits(
+    user?.email ?? userId,
+    hits.map((h) => `${h.listName} (${h.listType}): ${h.entryName} — ${Math.round(h.score * 100)}%`)
+  ).catch(() => {});
+}
+
+/**
+ * Screen a user's KYC against the live lists, e.g. right after submission.
+ */
+export async function screenUser(userId: string) {
+  const kyc = await prisma.kYC.findUnique({ where: { userId }, select: kycSubjectSelect });
+  if (!kyc || !kyc.fullName) throw new ScreeningError("User has no KYC details to screen", 404);
+
+  const opened = await screenKycRecord(kyc, await loadLiveEntries());
+  await alertAdmins(userId, opened);
+
+  return prisma.screeningHit.findMany({
+    where: { userId, status: { in: ACTIVE_HIT_STATUSES } },
+    orderBy: { score: "desc" },
+  });
+}
+
+/**
+ * Screen every user verified at basic or above. Run after a list changes.
+ */
+export async function rescreenVerifiedUsers() {
+  const entries = await loadLiveEntries();
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { kycLevel: { in: ["basic", "enhanced"] } },
+        { kycStatus: { in: ["verified", "reverification_required"] } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  const result = { screened: 0, newHits: 0, failed: 0 };
+  const kycs = await prisma.kYC.findMany({
+    where: { userId: { in: users.map((u) => u.id) }, fullName: { not: "" } },
+    select: kycSubjectSelect,
+  });
+
+  for (const kyc of kycs) {
+    try {
+      const opened = await screenKycRecord(kyc, entries);
+      await alertAdmins(kyc.userId, opened);
+      result.screened++;
+      result.newHits += opened.length;
+    } catch (err) {
+      console.error(`Screening failed for KYC ${kyc.id}:`, err);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Why a KYC submission can't be approved yet because of screening, or null.
+ * Screens first if the submission hasn't been screened since it came in.
+ */
+export async function screeningBlocker(kycId: string): Promise<string | null> {
+  const kyc = await prisma.kYC.findUniqueOrThrow({
+    where: { id: kycId },
+    select: { ...kycSubjectSelect, submittedAt: true, screenedAt: true },
+  });
+  if (!kyc.screenedAt || (kyc.submittedAt && kyc.screenedAt < kyc.submittedAt)) {
+    const opened = await screenKycRecord(kyc, await loadLiveEntries());
+    await alertAdmins(kyc.userId, opened);
+  }
+
+  const hits = await prisma.screeningHit.groupBy({
+    by: ["status"],
+    where: { userId: kyc.userId, status: { in: ACTIVE_HIT_STATUSES } },
+    _count: { _all: true },
+  });
+  const count = (status: string) => hits.find((h) => h.status === status)?._count._all ?? 0;
+
+  if (count("confirmed") > 0) return "This user is a confirmed watchlist match. Reject the submission instead.";
+  if (count("open") > 0) return `Resolve ${count("open")} open screening hit(s) before approving.`;
+  return null;
+}
+
+/**
+ * Confirm a hit as a true match, or dismiss it as a false positive.
+ */
+export async function resolveHit(
+  hitId: string,
+  adminId: string,
+  resolution: "confirmed" | "false_positive",
+  note: string
+) {
+  const hit = await prisma.screeningHit.findUnique({ where: { id: hitId } });
+  if (!hit) throw new ScreeningError("Screening hit not found", 404);
+  if (hit.status !== "open") throw new ScreeningError(`Hit is already ${hit.status.replace("_", " ")}`);
+
+  const { count } = await prisma.screeningHit.updateMany({
+    where: { id: hitId, status: "open" },
+    data: { status: resolution, note, resolvedBy: adminId, resolvedAt: new Date() },
+  });
+  if (count === 0) throw new ScreeningError("Hit was resolved by someone else", 409);
+
+  const active = await prisma.screeningHit.count({ where: { userId: hit.userId, status: { in: ACTIVE_HIT_STATUSES } } });
+  await prisma.kYC.updateMany({ where: { id: hit.kycId }, data: { screeningStatus: active > 0 ? "hit" : "clear" } });
+
+  return prisma.screeningHit.findUniqueOrThrow({ where: { id: hitId } });
+}
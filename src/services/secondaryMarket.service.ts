@@ -0,0 +1,193 @@
+import { Prisma } from "@prisma/client";
+import { env } from "../config/env.js";
+import { drawFromUser, postLedgerEntry, roundCents, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { assertCanInvest } from "./kyc.service.js";
+
+/**
+ * Secondary market for property investment stakes.
+ *
+ * A holder lists part or all of an active position's principal at an asking
+ * price. A buyer pays (pro rata for a partial fill) from their balance; the
+ * seller receives the price minus the market fee. Principal stays in
+ * `platform:investments` — only ownership changes:
+ *
+ * - whole position sold → the UserInvestment is reassigned to the buyer
+ * - part sold           → the seller's position shrinks and the buyer gets a new
+ *                         position that keeps the original start date and payout
+ *                         count, so monthly returns and maturity carry on unchanged
+ */
+
+export class ListingUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ListingUnavailableError";
+  }
+}
+
+export interface TradeQuote {
+  principal: number;
+  price: number;
+  feeRate: number;
+  fee: number;
+  sellerProceeds: number;
+}
+
+export function quoteTrade(
+  listing: { principal: number; askingPrice: number },
+  principal: number,
+  feeRate: number = env.SECONDARY_MARKET_FEE_PERCENT
+): TradeQuote {
+  const price = roundCents(listing.askingPrice * (principal / listing.principal));
+  const fee = roundCents(price * (feeRate / 100));
+  return { principal: roundCents(principal), price, feeRate, fee, sellerProceeds: roundCents(price - fee) };
+}
+
+function isStale(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025";
+}
+
+/**
+ * Fill `principal` of a listing for `buyerId`. Must run inside an interactive
+ * transaction; every write is conditional on the state read at the start, so a
+ * concurrent fill, cancel or close aborts with ListingUnavailableError instead
+ * of overselling the position.
+ */
+export async function executeTrade(
+  tx: Prisma.TransactionClient,
+  params: { listingId: string; buyerId: string; principal?: number }
+) {
+  const listing = await tx.shareListing.findUnique({ where: { id: params.listingId } });
+  if (!listing || listing.status !== "open") {
+    throw new ListingUnavailableError("Listing is no longer available");
+  }
+  if (listing.sellerId === params.buyerId) {
+    throw new ListingUnavailableError("You cannot buy your own listing");
+  }
+
+  const principal = roundCents(params.principal ?? listing.remainingPrincipal);
+  if (principal <= 0 || principal > listing.remainingPrincipal) {
+    throw new ListingUnavailableError(`Only $${listing.remainingPrincipal.toLocaleString()} of this stake is for sale`);
+  }
+  await assertCanInvest(params.buyerId, quoteTrade(listing, principal).price);
+
+  const investment = await tx.userInvestment.findUnique({
+    where: { id: listing.investmentId },
+    include: { property: { select: { title: true } } },
+  });
+  if (!investment || investment.status !== "active" || investment.userId !== listing.sellerId || investment.amount < principal) {
+    throw new ListingUnavailableError("The listed investment is no longer available");
+  }
+
+  const remaining = roundCents(listing.remainingPrincipal - principal);
+  const claimed = await tx.shareListing.updateMany({
+    where: { id: listing.id, status: "open", remainingPrincipal: listing.remainingPrincipal },
+    data: remaining === 0
+      ? { remainingPrincipal: 0, status: "filled", filledAt: new Date() }
+      : { remainingPrincipal: remaining },
+  });
+  if (claimed.count === 0) {
+    throw new ListingUnavailableError("Listing changed while you were buying — please try again");
+  }
+
+  const quote = quoteTrade(listing, principal);
+  const title = investment.property?.title ?? "property";
+
+  const draws = await drawFromUser(tx, params.buyerId, quote.price);
+  await postLedgerEntry(tx, {
+    type: "share_trade",
+    reference: listing.id,
+    description: `Secondary market sale: ${title}`,
+    postings: [
+      ...draws,
+      { account: { userId: listing.sellerId, bucket: "cash" }, amount: quote.sellerProceeds },
+      { account: { platform: PLATFORM_ACCOUNTS.feeRevenue }, amount: quote.fee },
+    ],
+  });
+
+  const buyerHeld = await tx.userInvestment.count({
+    where: { userId: params.buyerId, propertyId: listing.propertyId, status: "active" },
+  });
+
+  const wholePosition = roundCents(investment.amount - principal) === 0;
+  let buyerInvestmentId: string;
+  try {
+    if (wholePosition) {
+      await tx.userInvestment.update({
+        where: { id: investment.id, status: "active", userId: listing.sellerId, amount: investment.amount },
+        data: { userId: params.buyerId },
+      });
+      buyerInvestmentId = investment.id;
+    } else {
+      await tx.userInvestment.update({
+        where: { id: investment.id, status: "active", amount: investment.amount },
+        data: { amount: roundCents(investment.amount - principal) },
+      });
+      const split = await tx.userInvestment.create({
+        data: {
+          userId: params.buyerId,
+          propertyId: investment.propertyId,
+          amount: principal,
+          expectedROI: investment.expectedROI,
+          monthlyReturn: investment.monthlyReturn,
+          payoutsMade: investment.payoutsMade,
+          lastPayoutAt: investment.lastPayoutAt,
+          createdAt: investment.createdAt,
+        },
+      });
+      buyerInvestmentId = split.id;
+    }
+  } catch (err) {
+    if (isStale(err)) throw new ListingUnavailableError("The listed investment changed — please try again");
+    throw err;
+  }
+
+  // investorCount tracks distinct holders: +1 for a new buyer, −1 if the seller no longer holds any stake
+  const sellerStillHolds = !wholePosition || (await tx.userInvestment.count({
+    where: { userId: listing.sellerId, propertyId: listing.propertyId, status: "active" },
+  })) > 0;
+  const investorDelta = (buyerHeld > 0 ? 0 : 1) - (sellerStillHolds ? 0 : 1);
+  if (investorDelta !== 0) {
+    await tx.property.update({
+      where: { id: listing.propertyId },
+      data: { investorCount: { increment: investorDelta } },
+    });
+  }
+
+  const trade = await tx.shareTrade.create({
+    data: {
+      listingId: listing.id,
+      propertyId: listing.propertyId,
+      sellerId: listing.sellerId,
+      buyerId: params.buyerId,
+      sellerInvestmentId: investment.id,
+      buyerInvestmentId,
+      principal: quote.principal,
+      price: quote.price,
+      fee: quote.fee,
+    },
+  });
+
+  await tx.transaction.create({
+    data: {
+      userId: params.buyerId,
+      type: "share_purchase",
+      amount: -quote.price,
+      status: "completed",
+      description: `Bought $${quote.principal.toLocaleString()} stake in ${title}`,
+      reference: trade.id,
+    },
+  });
+
+  await tx.transaction.create({
+    data: {
+      userId: listing.sellerId,
+      type: "share_sale",
+      amount: quote.sellerProceeds,
+      status: "completed",
+      description: `Sold $${quote.principal.toLocaleString()} stake in ${title} (fee $${quote.fee.toLocaleString()})`,
+      reference: trade.id,
+    },
+  });
+
+  return { trade, quote, title, sellerId: listing.sellerId };
+}
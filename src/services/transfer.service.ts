@@ -0,0 +1,174 @@
+import { Prisma, Transfer } from "@prisma/client";
+import { prisma } from "../config/database.js";
+import {
+  sendTransferSentNotification,
+  sendTransferReceivedNotification,
+} from "./notification.service.js";
+import { drawFromUser, getUserBalance, postLedgerEntry, PLATFORM_ACCOUNTS } from "./ledger.service.js";
+import { chargeFee, quoteFee } from "./fee.service.js";
+import { assertWithinLimits } from "./limits.service.js";
+import { kycAllows, kycLevelSelect } from "./kyc.service.js";
+import { inviteTransferRecipient, pendingTransferExpiry } from "./pendingTransfer.service.js";
+import { withConflictRetry } from "../utils/retry.js";
+
+export class TransferError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "TransferError";
+  }
+}
+
+/**
+ * Move money from one user to another, or into pending transfers for an
+ * unregistered email whose owner is invited to sign up and claim it. Runs the
+ * sender-side checks — KYC, limits, balance — but not 2FA, which the caller
+ * does when the user is present. Shared by instant and scheduled transfers;
+ * `inTransaction` lets a caller record what the transfer paid for atomically
+ * with it.
+ *
+ * Throws TransferError, LimitExceededError or InsufficientBalanceError.
+ */
+export async function executeTransfer(
+  senderId: string,
+  input: { recipientEmail: string; amount: number; note?: string; scheduledTransferId?: string },
+  inTransaction?: (tx: Prisma.TransactionClient, transfer: Transfer) => Promise<void>
+) {
+  const { amount, note, scheduledTransferId } = input;
+  // Accounts are registered with lowercase emails; held transfers are claimed by that
+  const recipientEmail = input.recipientEmail.toLowerCase().trim();
+
+  const sender = await prisma.user.findUnique({
+    where: { id: senderId },
+    select: { email: true, ...kycLevelSelect },
+  });
+
+  if (!sender) {
+    throw new TransferError("User not found", 404);
+  }
+
+  if (!kycAllows(sender, "transfer")) {
+    throw new TransferError(
+      "KYC verification is required to send transfers. Please complete KYC verification in settings.",
+      403
+    );
+  }
+
+  if (sender.email === recipientEmail) {
+    throw new TransferError("Cannot transfer to yourself");
+  }
+
+  await assertWithinLimits(senderId, "transfer", amount);
+
+  const { fee, total } = await quoteFee("transfer", "any", amount);
+  const balance = await getUserBalance(senderId);
+
+  if (balance < total) {
+    throw new TransferError(fee > 0 ? `Insufficient balance (transfer fee: $${fee.toLocaleString()})` : "Insufficient balance");
+  }
+
+  const recipient = await prisma.user.findUnique({
+    where: { email: recipientEmail },
+    select: { id: true, email: true, firstName: true, lastName: true },
+  });
+
+  const transfer = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+    const newTransfer = await tx.transfer.create({
+      data: {
+        senderId,
+        recipientId: recipient?.id || null,
+        recipientEmail,
+        amount,
+        fee,
+        note: note || "",
+        scheduledTransferId,
+        status: recipient ? "completed" : "pending",
+        completedAt: recipient ? new Date() : null,
+        expiresAt: recipient ? null : pendingTransferExpiry(),
+      },
+    });
+
+    // Funds to an unregistered email sit in the pending-transfers account until claimed
+    const draws = await drawFromUser(tx, senderId, amount);
+    await postLedgerEntry(tx, {
+      type: "transfer",
+      reference: newTransfer.id,
+      description: `Transfer to ${recipientEmail}`,
+      postings: [
+        ...draws,
+        recipient
+          ? { account: { userId: recipient.id, bucket: "cash" }, amount }
+          : { account: { platform: PLATFORM_ACCOUNTS.pendingTransfers }, amount },
+      ],
+    });
+
+    await tx.transaction.create({
+      data: {
+        userId: senderId,
+        type: "transfer_sent",
+        amount: -amount,
+        status: "completed",
+        description: `Transfer to ${recipientEmail}`,
+        reference: newTransfer.id,
+      },
+    });
+
+    await chargeFee(tx, {
+      userId: senderId,
+      fee,
+      reference: newTransfer.id,
+      description: `Transfer fee (to ${recipientEmail})`,
+    });
+
+    if (recipient) {
+      await tx.transaction.create({
+        data: {
+          userId: recipient.id,
+          type: "transfer_received",
+          amount,
+          status: "completed",
+          description: `Transfer from ${sender.email}`,
+          reference: newTransfer.id,
+        },
+      });
+    }
+
+    if (inTransaction) await inTransaction(tx, newTransfer);
+
+    return newTransfer;
+  }, { timeout: 15000 }));
+
+  const updatedBalance = await getUserBalance(senderId);
+
+  // Send notifications asynchronously
+  setImmediate(async () => {
+    try {
+      await sendTransferSentNotification(
+        senderId,
+        sender.email,
+        recipientEmail,
+        amount,
+        updatedBalance,
+        transfer.id
+      );
+
+      if (recipient) {
+        const recipientBalance = await getUserBalance(recipient.id);
+
+        await sendTransferReceivedNotification(
+          recipient.id,
+          recipient.email,
+          sender.email,
+          amount,
+          recipientBalance,
+          transfer.id
+        );
+      } else {
+        await inviteTransferRecipient(transfer);
+      }
+    } catch (notifError) {
+      console.error("Error sending transfer notifications:", notifError);
+    }
+  });
+
+  return { transfer, balance: updatedBalance, recipientExists: !!recipient };
+}
@@ -0,0 +1,259 @@
+import { prisma } from "../config/database.js";
+import { createInAppNotification } from "./notification.service.js";
+import {
+  creditUser,
+  drawFromUser,
+  getUserBalance,
+  postLedgerEntry,
+  roundCents,
+  PLATFORM_ACCOUNTS,
+} from "./ledger.service.js";
+import { withConflictRetry } from "../utils/retry.js";
+
+/**
+ * Transfer disputes and reversals.
+ *
+ * A reversal moves money back from the recipient to the sender as its own
+ * "transfer_reversal" ledger entry — the original transfer is never edited
+ * beyond its running `reversedAmount`. If the recipient has already spent
+ * part of the funds, only what their balance still covers is recovered and
+ * the dispute is closed as partially reversed. Money still sitting in pending
+ * transfers (unregistered recipient) is always fully recoverable.
+ */
+
+export class TransferDisputeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "TransferDisputeError";
+  }
+}
+
+export const DISPUTE_REASONS = ["wrong_recipient", "unauthorized", "duplicate", "other"] as const;
+export type DisputeReason = typeof DISPUTE_REASONS[number];
+
+export async function openDispute(
+  transferId: string,
+  openedById: string,
+  input: { reason: DisputeReason; description?: string },
+  options: { asAdmin?: boolean } = {}
+) {
+  const transfer = await prisma.transfer.findUnique({ where: { id: transferId } });
+  if (!transfer || (!options.asAdmin && transfer.senderId !== openedById)) {
+    throw new TransferDisputeError("Transfer not found", 404);
+  }
+  if (transfer.status === "failed" || transfer.status === "reversed" || transfer.status === "refunded") {
+    throw new TransferDisputeError(`This transfer is ${transfer.status} and can't be disputed`);
+  }
+  if (roundCents(transfer.amount - transfer.reversedAmount) <= 0) {
+    throw new TransferDisputeError("This transfer has already been fully reversed");
+  }
+
+  const existing = await prisma.transferDispute.findFirst({ where: { transferId, status: "open" } });
+  if (existing) {
+    throw new TransferDisputeError("There is already an open dispute for this transfer", 409);
+  }
+
+  const dispute = await prisma.transferDispute.create({
+    data: {
+      transferId,
+      openedById,
+      reason: input.reason,
+      description: input.description ?? "",
+    },
+  });
+
+  createInAppNotification(
+    transfer.senderId,
+    "transfer",
+    "Transfer Dispute Opened",
+    `We're reviewing your $${transfer.amount.toFixed(2)} transfer to ${transfer.recipientEmail}. We'll let you know the outcome.`
+  ).catch(() => {});
+
+  return dispute;
+}
+
+/**
+ * What a reversal could recover right now, for the admin review screen.
+ */
+export async function getReversalPreview(transferId: string) {
+  const transfer = await prisma.transfer.findUnique({ where: { id: transferId } });
+  if (!transfer) throw new TransferDisputeError("Transfer not found", 404);
+
+  const reversible = roundCents(transfer.amount - transfer.reversedAmount);
+  const held = !transfer.recipientId;
+  const recipientBalance = transfer.recipientId ? await getUserBalance(transfer.recipientId) : null;
+  const recoverable = held ? reversible : roundCents(Math.max(Math.min(reversible, recipientBalance ?? 0), 0));
+
+  return { transfer, reversible, recoverable, recipientBalance, heldInPendingTransfers: held };
+}
+
+/**
+ * Reverse up to `amount` (default: everything not yet reversed) of the
+ * disputed transfer and close the dispute.
+ */
+export async function reverseDispute(
+  disputeId: string,
+  adminId: string,
+  options: { amount?: number; refundFee?: boolean; note?: string } = {}
+) {
+  const dispute = await prisma.transferDispute.findUnique({ where: { id: disputeId } });
+  if (!dispute) throw new TransferDisputeError("Dispute not found", 404);
+  if (dispute.status !== "open") throw new TransferDisputeError(`This dispute is already ${dispute.status}`, 409);
+
+  const result = await withConflictRetry(() => prisma.$transaction(async (tx) => {
+    const transfer = await tx.transfer.findUniqueOrThrow({ where: { id: dispute.transferId } });
+
+    const reversible = roundCents(transfer.amount - transfer.reversedAmount);
+    const requested = roundCents(Math.min(options.amount ?? reversible, reversible));
+    if (requested <= 0) throw new TransferDisputeError("Nothing left to reverse on this transfer");
+
+    // Held funds are always there; a recipient may have spent some of theirs
+    const recipientId = transfer.recipientId;
+    const recovered = recipientId
+      ? roundCents(Math.max(Math.min(requested, await getUserBalance(recipientId, tx)), 0))
+      : requested;
+    if (recovered <= 0) {
+      throw new TransferDisputeError("The recipient has no balance left to recover — try again later or reject the dispute");
+    }
+
+    const status = recovered < requested ? "partially_reversed" : "reversed";
+    // The fee is refunded at most once across all disputes on the transfer
+    const feeAlreadyRefunded = await tx.transferDispute.count({
+      where: { transferId: transfer.id, feeRefunded: { gt: 0 } },
+    });
+    const feeRefunded = options.refundFee && transfer.fee > 0 && feeAlreadyRefunded === 0 ? transfer.fee : 0;
+    const resolutionNote = options.note ?? "";
+
+    // Claim the dispute inside the transaction so a second admin can't reverse it again
+    const { count } = await tx.transferDispute.updateMany({
+      where: { id: dispute.id, status: "open" },
+      data: {
+        status,
+        requestedAmount: requested,
+        reversedAmount: recovered,
+        feeRefunded,
+        resolvedBy: adminId,
+        resolutionNote,
+        resolvedAt: new Date(),
+      },
+    });
+    if (count === 0) throw new TransferDisputeError("This dispute was resolved by someone else", 409);
+
+    const description = `Reversal of transfer to ${transfer.recipientEmail}`;
+    await postLedgerEntry(tx, {
+      type: "transfer_reversal",
+      reference: transfer.id,
+      description,
+      postings: [
+        ...(recipientId
+          ? await drawFromUser(tx, recipientId, recovered)
+          : [{ account: { platform: PLATFORM_ACCOUNTS.pendingTransfers }, amount: -recovered }]),
+        { account: { userId: transfer.senderId, bucket: "cash" }, amount: recovered },
+      ],
+    });
+
+    await tx.transaction.create({
+      data: {
+        userId: transfer.senderId,
+        type: "transfer_reversal",
+        amount: recovered,
+        status: "completed",
+        description,
+        reference: transfer.id,
+      },
+    });
+
+    if (recipientId) {
+      await tx.transaction.create({
+        data: {
+          userId: recipientId,
+          type: "transfer_reversal",
+          amount: -recovered,
+          status: "completed",
+          description: "Reversal of a disputed transfer you received",
+          reference: transfer.id,
+        },
+      });
+    }
+
+    if (feeRefunded > 0) {
+      await creditUser(tx, {
+        userId: transfer.senderId,
+        bucket: "cash",
+        amount: feeRefunded,
+        from: PLATFORM_ACCOUNTS.feeRevenue,
+        type: "fee_refund",
+        reference: transfer.id,
+        description: "Transfer fee refunded",
+      });
+      await tx.transaction.create({
+        data: {
+          userId: transfer.senderId,
+          type: "fee_refund",
+          amount: feeRefunded,
+          status: "completed",
+          description: "Transfer fee refunded",
+          reference: transfer.id,
+        },
+      });
+    }
+
+    const reversedAmount = roundCents(transfer.reversedAmount + recovered);
+    const fullyReversed = reversedAmount >= transfer.amount;
+    await tx.transfer.update({
+      where: { id: transfer.id },
+      data: {
+        reversedAmount,
+        ...(fullyReversed ? { status: "reversed" } : {}),
+      },
+    });
+
+    return { transfer, status, requested, recovered, feeRefunded };
+  }, { timeout: 15000 }));
+
+  const { transfer, status, requested, recovered, feeRefunded } = result;
+  const shortfall = roundCents(requested - recovered);
+
+  createInAppNotification(
+    transfer.senderId,
+    "transfer",
+    status === "reversed" ? "Transfer Reversed" : "Transfer Partially Reversed",
+    `$${recovered.toFixed(2)} of your transfer to ${transfer.recipientEmail} has been returned to your balance` +
+      (feeRefunded > 0 ? `, plus the $${feeRefunded.toFixed(2)} fee` : "") +
+      (shortfall > 0 ? `. $${shortfall.toFixed(2)} could not be recovered.` : ".")
+  ).catch(() => {});
+
+  if (transfer.recipientId) {
+    createInAppNotification(
+      transfer.recipientId,
+      "transfer",
+      "Transfer Reversed",
+      `$${recovered.toFixed(2)} of a transfer you received has been reversed following a dispute review.`
+    ).catch(() => {});
+  }
+
+  return prisma.transferDispute.findUniqueOrThrow({ where: { id: disputeId } });
+}
+
+export async function rejectDispute(disputeId: string, adminId: string, note: string) {
+  const dispute = await prisma.transferDispute.findUnique({ where: { id: disputeId } });
+  if (!dispute) throw new TransferDisputeError("Dispute not found", 404);
+
+  const { count } = await prisma.transferDispute.updateMany({
+    where: { id: disputeId, status: "open" },
+    data: { status: "rejected", resolvedBy: adminId, resolutionNote: note, resolvedAt: new Date() },
+  });
+  if (count === 0) throw new TransferDisputeError(`This dispute is already ${dispute.status}`, 409);
+
+  const transfer = await prisma.transfer.findUnique({ where: { id: dispute.transferId } });
+  if (transfer) {
+    createInAppNotification(
+      transfer.senderId,
+      "transfer",
+      "Transfer Dispute Closed",
+      `Your dispute on the $${transfer.amount.toFixed(2)} transfer to ${transfer.recipientEmail} was not upheld: ${note}`
+    ).catch(() => {});
+  }
+
+  return prisma.transferDispute.findUniqueOrThrow({ where: { id: disputeId } });
+}
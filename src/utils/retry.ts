@@ -0,0 +1,46 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Thrown when a conditional write finds the document changed since it was
+ * read (optimistic concurrency). Retried like a database write conflict.
+ */
+export class StaleWriteError extends Error {
+  constructor(what: string) {
+    super(`${what} changed during the request`);
+    this.name = "StaleWriteError";
+  }
+}
+
+/**
+ * MongoDB aborts one side of two transactions that write the same document
+ * (Prisma surfaces it as P2034); our own conditional writes throw
+ * StaleWriteError. Either way the loser saw stale data, so running it again
+ * from the top re-reads and re-validates against the winner's writes.
+ */
+export function isWriteConflict(err: unknown): boolean {
+  if (err instanceof StaleWriteError) return true;
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2034") return true;
+  return err instanceof Error && /WriteConflict|TransientTransactionError/.test(err.message);
+}
+
+/**
+ * Run `fn` (normally a whole `prisma.$transaction`) and retry it on write
+ * conflicts with jittered backoff. Any other error is rethrown immediately.
+ */
+export async function withConflictRetry<T>(
+  fn: () => Promise<T>,
+  options: { retries?: number; baseDelayMs?: number } = {}
+): Promise<T> {
+  const retries = options.retries ?? 4;
+  const baseDelayMs = options.baseDelayMs ?? 20;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries || !isWriteConflict(err)) throw err;
+      const delay = baseDelayMs * 2 ** attempt * (0.5 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
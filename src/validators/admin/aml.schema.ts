@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+const hours = z.number().positive().max(24 * 365);
+const amount = z.number().positive();
+const eventKinds = z
+  .array(z.enum(["deposit", "withdrawal", "transfer_out", "transfer_in", "transaction"]))
+  .min(1, "At least one event kind is required");
+
+// Overrides for each rule type; anything left out uses the built-in default
+const ruleParamsSchemas = {
+  rapid_in_out: z
+    .object({ windowHours: hours, minDeposited: amount, minWithdrawnPercent: z.number().positive().max(100) })
+    .partial()
+    .strict(),
+  structuring: z
+    .object({
+      windowHours: hours,
+      thresholds: z.array(amount),
+      useUserLimits: z.boolean(),
+      marginPercent: z.number().positive().max(50),
+      minCount: z.number().int().min(2),
+      kinds: eventKinds,
+    })
+    .partial()
+    .strict(),
+  inbound_fan_in: z.object({ windowHours: hours, minSenders: z.number().int().min(2) }).partial().strict(),
+  new_destination_after_password_change: z.object({ passwordChangeHours: hours }).partial().strict(),
+  large_amount: z.object({ minAmount: amount, kinds: eventKinds }).partial().strict(),
+};
+
+const ruleType = z.enum([
+  "rapid_in_out",
+  "structuring",
+  "inbound_fan_in",
+  "new_destination_after_password_change",
+  "large_amount",
+]);
+
+const amlRuleFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  type: ruleType,
+  description: z.string().max(1000).default(""),
+  params: z.record(z.unknown()).default({}),
+  severity: z.enum(["low", "medium", "high"]).default("medium"),
+  isActive: z.boolean().default(true),
+};
+
+export const createAmlRuleSchema = z.object(amlRuleFields).superRefine((rule, ctx) => {
+  const params = ruleParamsSchemas[rule.type].safeParse(rule.params);
+  if (!params.success) {
+    const issue = params.error.issues[0];
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["params", ...issue.path], message: issue.message });
+  }
+});
+
+// Partial; the controller re-checks the merged rule against createAmlRuleSchema
+export const updateAmlRuleSchema = z.object({
+  name: amlRuleFields.name.optional(),
+  type: ruleType.optional(),
+  description: z.string().max(1000).optional(),
+  params: z.record(z.unknown()).optional(),
+  severity: z.enum(["low", "medium", "high"]).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const assignAmlAlertSchema = z.object({
+  adminId: z.string().length(24, "Invalid admin id").nullable(),
+});
+
+export const updateAmlAlertStatusSchema = z
+  .object({
+    status: z.enum(["open", "investigating", "escalated", "closed"]),
+    resolution: z.enum(["false_positive", "no_action", "reported"]).optional(),
+    note: z.string().trim().max(2000).optional(),
+  })
+  .refine((body) => body.status !== "closed" || body.resolution, {
+    path: ["resolution"],
+    message: "A resolution is required to close an alert",
+  });
+
+export const addAmlAlertNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note is required").max(5000),
+});
@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+export const acceptBidSchema = z.object({
+  // Accept even though the highest bid is below the reserve price
+  overrideReserve: z.boolean().optional().default(false),
+});
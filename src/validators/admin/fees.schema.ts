@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+const feeRuleFields = {
+  operation: z.enum(["deposit", "withdrawal", "transfer"]),
+  method: z.enum(["any", "bank", "crypto", "card"]).default("any"),
+  minAmount: z.number().min(0).default(0),
+  maxAmount: z.number().positive().nullable().default(null), // null = no upper bound
+  flatFee: z.number().min(0).default(0),
+  percentFee: z.number().min(0).max(100).default(0),
+  minFee: z.number().min(0).default(0),
+  maxFee: z.number().min(0).nullable().default(null), // null = uncapped
+  description: z.string().max(500).default(""),
+  isActive: z.boolean().default(true),
+};
+
+export const createFeeRuleSchema = z.object(feeRuleFields).superRefine((rule, ctx) => {
+  if (rule.maxAmount !== null && rule.maxAmount <= rule.minAmount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxAmount"], message: "maxAmount must be greater than minAmount" });
+  }
+  if (rule.maxFee !== null && rule.maxFee < rule.minFee) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxFee"], message: "maxFee must be at least minFee" });
+  }
+});
+
+// Partial; the controller re-checks the merged rule against createFeeRuleSchema
+export const updateFeeRuleSchema = z.object({
+  operation: feeRuleFields.operation.optional(),
+  method: z.enum(["any", "bank", "crypto", "card"]).optional(),
+  minAmount: z.number().min(0).optional(),
+  maxAmount: z.number().positive().nullable().optional(),
+  flatFee: z.number().min(0).optional(),
+  percentFee: z.number().min(0).max(100).optional(),
+  minFee: z.number().min(0).optional(),
+  maxFee: z.number().min(0).nullable().optional(),
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().optional(),
+});
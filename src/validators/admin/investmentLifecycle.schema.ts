@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const approveExitSchema = z.object({
+  // Overrides the penalty quoted to the user (e.g. waived for hardship)
+  penaltyRate: z.number().min(0).max(100).optional(),
+  note: z.string().max(1000).optional().default(""),
+});
+
+export const rejectExitSchema = z.object({
+  reason: z.string().min(1, "Reason is required").max(1000),
+});
+
+export const cancelInvestmentSchema = z.object({
+  reason: z.string().min(1, "Reason is required").max(1000),
+});
+
+export const runMaturitiesSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  dryRun: z.boolean().optional().default(false),
+});
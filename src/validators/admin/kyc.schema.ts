@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const setKycLevelSchema = z.object({
+  level: z.enum(["none", "email_verified", "basic", "enhanced"]),
+  reason: z.string().trim().min(1, "A reason is required").max(1000),
+});
+
+export const requestReverificationSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(1000),
+});
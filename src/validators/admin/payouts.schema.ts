@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const runPayoutsSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  dryRun: z.boolean().optional().default(false),
+  userId: z.string().length(24).optional(),
+});
@@ -22,7 +22,7 @@ export const createPropertySchema = z.object({
   sqft: z.number().int().positive(),
   description: z.string().min(10).max(2000),
   features: z.array(z.string().max(100)).max(50).default([]),
-  investmentStatus: z.enum(["available", "fully-funded", "coming-soon", "closed"]).default("available"),
+  investmentStatus: z.enum(["available", "fully-funded", "under-contract", "coming-soon", "closed"]).default("available"),
   riskLevel: z.enum(["low", "medium", "high"]).default("low"),
   isFeatured: z.boolean().default(false),
 });
@@ -49,7 +49,7 @@ export const updatePropertySchema = z.object({
   sqft: z.number().int().positive().optional(),
   description: z.string().min(10).max(2000).optional(),
   features: z.array(z.string().max(100)).max(50).optional(),
-  investmentStatus: z.enum(["available", "fully-funded", "coming-soon", "closed"]).optional(),
+  investmentStatus: z.enum(["available", "fully-funded", "under-contract", "coming-soon", "closed"]).optional(),
   riskLevel: z.enum(["low", "medium", "high"]).optional(),
   isActive: z.boolean().optional(),
   isFeatured: z.boolean().optional(),
@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const purchaseOrderNoteSchema = z.object({
+  note: z.string().max(1000).optional().default(""),
+});
+
+export const releasePurchaseOrderSchema = z.object({
+  // Keep the earnest money (buyer defaulted) instead of refunding it
+  forfeit: z.boolean().optional().default(false),
+  reason: z.string().max(1000).optional().default(""),
+});
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const matchStatementLineSchema = z.object({
+  fundOperationId: z.string().length(24, "Invalid deposit id"),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const ignoreStatementLineSchema = z.object({
+  note: z.string().trim().min(1, "Say why this line is being ignored").max(500),
+});
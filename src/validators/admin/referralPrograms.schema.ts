@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+const tierSchema = z.object({
+  level: z.number().int().min(1).max(10),
+  reward: z.number().positive(),
+});
+
+const referralProgramFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(1000).default(""),
+  campaignCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{3,30}$/, "Campaign codes are 3-30 letters, digits, - or _")
+    .nullable()
+    .default(null),
+  trigger: z.enum(["first_deposit", "every_deposit", "investment"]).default("first_deposit"),
+  rewardType: z.enum(["percentage", "flat"]).default("percentage"),
+  tiers: z.array(tierSchema).min(1, "At least one tier is required"),
+  maxRewardPerEvent: z.number().positive().nullable().default(null), // null = uncapped
+  maxRewardPerReferral: z.number().positive().nullable().default(null),
+  rewardWindowDays: z.number().int().positive().nullable().default(null), // null = no time limit
+  startsAt: z.coerce.date().nullable().default(null),
+  endsAt: z.coerce.date().nullable().default(null),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+};
+
+export const createReferralProgramSchema = z.object(referralProgramFields).superRefine((program, ctx) => {
+  const levels = program.tiers.map((t) => t.level);
+  if (new Set(levels).size !== levels.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tiers"], message: "Each tier level can only appear once" });
+  }
+  if (program.rewardType === "percentage" && program.tiers.some((t) => t.reward > 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tiers"], message: "Percentage rewards can't exceed 100" });
+  }
+  if (program.startsAt && program.endsAt && program.endsAt <= program.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "endsAt must be after startsAt" });
+  }
+});
+
+// Partial; the controller re-checks the merged program against createReferralProgramSchema
+export const updateReferralProgramSchema = z.object({
+  name: referralProgramFields.name.optional(),
+  description: z.string().max(1000).optional(),
+  campaignCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]{3,30}$/, "Campaign codes are 3-30 letters, digits, - or _")
+    .nullable()
+    .optional(),
+  trigger: z.enum(["first_deposit", "every_deposit", "investment"]).optional(),
+  rewardType: z.enum(["percentage", "flat"]).optional(),
+  tiers: z.array(tierSchema).min(1, "At least one tier is required").optional(),
+  maxRewardPerEvent: z.number().positive().nullable().optional(),
+  maxRewardPerReferral: z.number().positive().nullable().optional(),
+  rewardWindowDays: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const releaseReferralCommissionSchema = z.object({
+  note: z.string().trim().max(1000).optional().default(""),
+});
+
+export const rejectReferralCommissionSchema = z.object({
+  note: z.string().trim().min(1, "A reason is required").max(1000),
+});
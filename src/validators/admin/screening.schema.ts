@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+export const resolveScreeningHitSchema = z.object({
+  resolution: z.enum(["confirmed", "false_positive"]),
+  note: z.string().trim().min(1, "Say why the hit was confirmed or dismissed").max(1000),
+});
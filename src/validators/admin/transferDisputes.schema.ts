@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const adminOpenDisputeSchema = z.object({
+  transferId: z.string().length(24, "Invalid transfer id"),
+  reason: z.enum(["wrong_recipient", "unauthorized", "duplicate", "other"]),
+  description: z.string().trim().max(2000).optional().default(""),
+});
+
+export const reverseDisputeSchema = z.object({
+  amount: z.number().positive().optional(), // defaults to everything not yet reversed
+  refundFee: z.boolean().optional().default(false),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const rejectDisputeSchema = z.object({
+  note: z.string().trim().min(1, "Explain why the dispute is rejected").max(1000),
+});
@@ -11,3 +11,10 @@ export const updateUserStatusSchema = z.object({
 export const updateUserKycSchema = z.object({
   kycStatus: z.enum(["none", "pending", "verified", "rejected"]),
 });
+
+export const setUserLimitSchema = z.object({
+  operation: z.enum(["deposit", "withdrawal", "transfer"]),
+  period: z.enum(["daily", "weekly", "monthly"]),
+  amount: z.number().min(0).nullable(), // null removes the override
+  note: z.string().max(500).optional().default(""),
+});
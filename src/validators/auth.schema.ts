@@ -13,6 +13,7 @@ export const registerSchema = z.object({
   lastName: z.string().min(1, "Last name is required").max(100),
   phone: z.string().min(1, "Phone number is required"),
   referralCode: z.string().optional(),
+  campaignCode: z.string().max(50).optional(),
 });
 
 export const loginSchema = z.object({
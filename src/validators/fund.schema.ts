@@ -7,7 +7,11 @@ export const depositSchema = z.object({
 });
 
 export const withdrawSchema = z.object({
-  method: z.enum(["card", "bank", "crypto"]),
+  method: z.enum(["bank", "crypto"]),
   amount: z.number().positive("Amount must be greater than 0"),
-  details: z.record(z.unknown()).default({}),
+  destinationId: z.string().length(24, "Choose a saved withdrawal destination"),
+  twoFactorCode: z
+    .string()
+    .length(6, "2FA code must be 6 digits")
+    .regex(/^\d{6}$/, "2FA code must contain only digits"),
 });
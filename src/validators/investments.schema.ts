@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const exitRequestSchema = z.object({
+  reason: z.string().max(1000).optional().default(""),
+});
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const twoFactorCode = z
+  .string()
+  .length(6, "2FA code must be 6 digits")
+  .regex(/^\d{6}$/, "2FA code must contain only digits");
+
+export const createListingSchema = z.object({
+  investmentId: z.string().length(24, "Invalid investment ID"),
+  // Face value to sell; omit to list the whole position
+  principal: z.number().positive("Amount must be greater than 0").optional(),
+  askingPrice: z.number().positive("Asking price must be greater than 0"),
+  twoFactorCode,
+});
+
+export const buyListingSchema = z.object({
+  // Face value to buy; omit to buy everything still for sale
+  principal: z.number().positive("Amount must be greater than 0").optional(),
+  twoFactorCode,
+});
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const createPaymentRequestSchema = z.object({
+  payerEmail: z.string().email("Invalid email").optional(),
+  amount: z.number().positive("Amount must be greater than 0").max(10000000),
+  note: z.string().max(500).optional().default(""),
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+});
+
+export const payPaymentRequestSchema = z.object({
+  twoFactorCode: z
+    .string()
+    .length(6, "2FA code must be 6 digits")
+    .regex(/^\d{6}$/, "2FA code must contain only digits"),
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+const twoFactorCode = z
+  .string()
+  .length(6, "2FA code must be 6 digits")
+  .regex(/^\d{6}$/, "2FA code must contain only digits");
+
+const label = z.string().trim().min(1, "Label is required").max(100);
+
+export const addPayoutDestinationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bank"),
+    label,
+    details: z.object({
+      bankName: z.string().trim().min(1, "Bank name is required"),
+      accountName: z.string().trim().min(1, "Account name is required"),
+      accountNumber: z.string().trim().min(4, "Account number is required"),
+      routingNumber: z.string().trim().optional().default(""),
+      swiftCode: z.string().trim().optional().default(""),
+    }),
+    twoFactorCode,
+  }),
+  z.object({
+    type: z.literal("crypto"),
+    label,
+    details: z.object({
+      cryptoType: z.string().trim().min(1, "Currency is required"),
+      network: z.string().trim().min(1, "Network is required"),
+      walletAddress: z.string().trim().min(20, "Invalid wallet address").max(128),
+    }),
+    twoFactorCode,
+  }),
+]);
+
+export const confirmPayoutDestinationSchema = z.object({
+  token: z.string().length(64, "Invalid confirmation token"),
+});
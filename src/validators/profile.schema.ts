@@ -27,4 +27,5 @@ export const updateSettingsSchema = z.object({
   marketingEmails: z.boolean().optional(),
   loginAlerts: z.boolean().optional(),
   sessionTimeout: z.number().int().min(0).max(480).optional(), // 0 = never, 2+ = minutes
+  showOnLeaderboard: z.boolean().optional(),
 });
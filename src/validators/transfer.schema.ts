@@ -9,3 +9,26 @@ export const createTransferSchema = z.object({
     .length(6, "2FA code must be 6 digits")
     .regex(/^\d{6}$/, "2FA code must contain only digits"),
 });
+
+export const createScheduledTransferSchema = z
+  .object({
+    recipientEmail: z.string().email("Invalid recipient email"),
+    amount: z.number().positive("Amount must be greater than 0"),
+    note: z.string().max(500).optional().default(""),
+    frequency: z.enum(["once", "weekly", "monthly"]),
+    startAt: z.coerce.date(),
+    endAt: z.coerce.date().optional(),
+    twoFactorCode: z
+      .string()
+      .length(6, "2FA code must be 6 digits")
+      .regex(/^\d{6}$/, "2FA code must contain only digits"),
+  })
+  .refine((d) => d.startAt.getTime() > Date.now() - 60 * 1000, {
+    message: "The first transfer can't be in the past",
+    path: ["startAt"],
+  });
+
+export const openTransferDisputeSchema = z.object({
+  reason: z.enum(["wrong_recipient", "unauthorized", "duplicate", "other"]),
+  description: z.string().trim().max(2000).optional().default(""),
+});